@@ -1,20 +1,23 @@
 #!/usr/bin/env node
 
 import chalk from 'chalk';
-import { exec } from 'child_process';
 import { Command } from 'commander';
 import figlet from 'figlet';
 import os from 'os';
 import path from 'path';
-import { promisify } from 'util';
 import packageJson from './../package.json';
+import { DEFAULT_TOKEN_FILE, readAdminToken } from './lib/admin-auth';
 import { CAGenerator } from './lib/ca-generator';
-import { CAInstaller } from './lib/ca-installer';
-import { CertificateManager } from './lib/certificates';
+import { BrowserTrustResult, CAInstaller } from './lib/ca-installer';
+import { CARotator } from './lib/ca-rotation';
+import { CERTIFICATE_BACKEND_ENV, createCertificateBackend } from './lib/certificate-backend';
+import { CERTIFICATE_PROFILES, CertificateProfile, resolveCertificateProfile } from './lib/certificate-profiles';
+import { CertificateRenewer, DEFAULT_RENEW_BEFORE_DAYS, validateCertificateRenewalSettings } from './lib/certificate-renewer';
+import { CertificateManager, getCertificateFileName, normalizeCertificateAliases } from './lib/certificates';
 import { HostsManager } from './lib/hosts';
+import { getWildcardDomain, isWildcardDomain, parseDomainPattern, validateDomain, validateDomainPattern, validateHostnameOrIP, validateIP, validatePort } from './lib/validation';
 import { WebServer } from './lib/web-server';
 
-const execAsync = promisify(exec);
 const program = new Command();
 
 program
@@ -31,15 +34,36 @@ function displayBanner() {
 }
 
 /**
- * Check if OpenSSL is installed
+ * Show what happened in each Firefox profile and Chromium database, which keep their own trust stores
  */
-async function checkOpenSSL(): Promise<boolean> {
-  try {
-    await execAsync('openssl version');
+function printBrowserResults(results: BrowserTrustResult[] = []) {
+  for (const result of results) {
+    const label = `${result.browser} (${result.profile})`;
+    if (result.success) {
+      console.log(chalk.green(`✅ ${label}: ${result.message}`));
+    } else {
+      console.log(chalk.yellow(`⚠️  ${label}: ${result.message}`));
+    }
+  }
+}
+
+/**
+ * Check that the certificate backend can run. The built-in one always can; the OpenSSL one needs OpenSSL in the PATH
+ */
+async function checkCertificateBackend(): Promise<boolean> {
+  const backend = createCertificateBackend();
+  if (backend.name !== 'openssl') {
     return true;
-  } catch (error) {
+  }
+
+  console.log(chalk.cyan('Checking OpenSSL installation...'));
+  if (!await backend.isAvailable()) {
+    displayOpenSSLError();
     return false;
   }
+
+  console.log(chalk.green('✅ OpenSSL found'));
+  return true;
 }
 
 /**
@@ -47,7 +71,8 @@ async function checkOpenSSL(): Promise<boolean> {
  */
 function displayOpenSSLError() {
   console.error(chalk.red('\n❌ Error: OpenSSL is not installed or not available in PATH'));
-  console.error(chalk.yellow('\nNavigrator requires OpenSSL to create and manage SSL certificates.'));
+  console.error(chalk.yellow(`\n${CERTIFICATE_BACKEND_ENV}=openssl makes Navigrator use OpenSSL to create and manage SSL certificates.`));
+  console.error(chalk.yellow(`Unset ${CERTIFICATE_BACKEND_ENV} to use the built-in backend, which needs nothing installed.`));
 
   // OS-specific installation instructions
   if (process.platform === 'win32') {
@@ -64,7 +89,7 @@ function displayOpenSSLError() {
     console.error(chalk.white('  Fedora/RHEL: sudo dnf install openssl'));
   }
 
-  console.error(chalk.yellow('\nPlease install OpenSSL and try again.\n'));
+  console.error(chalk.yellow('\nPlease install OpenSSL and try again, or switch to the built-in backend.\n'));
 }
 
 // Main command
@@ -72,11 +97,22 @@ program
   .command('start')
   .description('Start the web interface and manage certificates')
   .option('-p, --port <port>', 'HTTP port to use', '10191')
+  .option('--host <address>', 'Address to bind the web interface to', '127.0.0.1')
   .option('--no-ca-check', 'Skip checking for the CA certificate')
   .option('--no-ca-install', 'Skip installing the CA certificate')
+  .option('--http-redirect', 'Redirect http:// requests for proxied domains to https:// (listens on port 80)')
+  .option('--renew-before <days>', 'Renew certificates expiring within this many days', String(DEFAULT_RENEW_BEFORE_DAYS))
+  .option('--no-auto-renew', 'Skip renewing expiring certificates in the background')
   .action(async (options) => {
     displayBanner();
 
+    const certificateRenewal = { enabled: options.autoRenew !== false, renewBeforeDays: Number(options.renewBefore) };
+    const renewalError = validateCertificateRenewalSettings(certificateRenewal);
+    if (renewalError) {
+      console.error(chalk.red(`❌ ${renewalError}`));
+      process.exit(1);
+    }
+
     // Verify privileges
     const isRoot = process.getuid && process.getuid() === 0;
     const isAdmin = process.platform === 'win32' && new Buffer(process.env.PATH!, 'utf-8').toString().toLowerCase().includes('system32');
@@ -87,17 +123,11 @@ program
     }
 
     try {
-      // Check for OpenSSL before proceeding
-      console.log(chalk.cyan('Checking OpenSSL installation...'));
-      const hasOpenSSL = await checkOpenSSL();
-
-      if (!hasOpenSSL) {
-        displayOpenSSLError();
+      // Check that certificates can be created before proceeding
+      if (!await checkCertificateBackend()) {
         process.exit(1);
       }
 
-      console.log(chalk.green('✅ OpenSSL found'));
-
       // Check if CA certificate exists and install if needed
       if (options.caCheck !== false) {
         const certsDir = path.join(os.homedir(), '.navigrator', 'certs');
@@ -120,6 +150,7 @@ program
           if (options.caInstall !== false) {
             console.log(chalk.cyan('Installing the root CA certificate...'));
             const result = await caInstaller.installCA();
+            printBrowserResults(result.browsers);
 
             if (result.success) {
               console.log(chalk.green(`✅ CA certificate installed successfully`));
@@ -129,13 +160,10 @@ program
 
               if (process.platform === 'win32') {
                 console.log(chalk.white('• Chrome and Edge: Should recognize the certificate immediately.'));
-                console.log(chalk.white('• Firefox: May require manual import. Check the Firefox notification above.'));
               } else if (process.platform === 'darwin') {
                 console.log(chalk.white('• Safari and Chrome: Should recognize the certificate after restart.'));
-                console.log(chalk.white('• Firefox: May require manual import. Check the Firefox notification above.'));
               } else {
                 console.log(chalk.white('• Chrome: May require restarting the browser.'));
-                console.log(chalk.white('• Firefox: May require manual import. Check the Firefox notification above.'));
               }
 
               console.log(chalk.cyan('\nIf you experience any issues:'));
@@ -153,15 +181,14 @@ program
             console.log(chalk.yellow('Browsers will show warnings for the generated certificates.\n'));
           }
         } else if (options.caInstall !== false) {
-          // CA exists, check if it should be installed
-          console.log(chalk.cyan('Root CA certificate found. Installing...'));
+          // CA exists: install it only in the stores that don't trust it yet, so sudo isn't needed on every start
+          console.log(chalk.cyan('Root CA certificate found. Checking trust stores...'));
 
-          // For simplicity, we'll try installing the certificate even if it's already installed
-          // Most operating systems handle this gracefully
-          const result = await caInstaller.installCA();
+          const result = await caInstaller.installMissing();
+          printBrowserResults(result.browsers);
 
           if (result.success) {
-            console.log(chalk.green(`✅ CA certificate installed successfully`));
+            console.log(chalk.green(`✅ ${result.message}`));
           } else {
             console.log(chalk.yellow(`\n⚠️  ${result.message}`));
           }
@@ -176,7 +203,10 @@ program
       await certManager.initialize();
 
       const config = {
-        port: parseInt(options.port, 10)
+        port: parseInt(options.port, 10),
+        host: options.host,
+        httpRedirect: !!options.httpRedirect,
+        certificateRenewal
       };
 
       const webServer = new WebServer(hostsManager, certManager, config);
@@ -199,6 +229,21 @@ program
     }
   });
 
+// Command to print the admin API token for scripts and other CLI clients
+program
+  .command('token')
+  .description('Print the token required by the web interface API')
+  .action(() => {
+    const token = readAdminToken();
+
+    if (!token) {
+      console.error(chalk.red(`❌ No token found in ${DEFAULT_TOKEN_FILE}. Run ${chalk.bold('navigrator start')} once to create it.`));
+      process.exit(1);
+    }
+
+    console.log(token);
+  });
+
 // Command to list all local domains
 program
   .command('list')
@@ -231,34 +276,51 @@ program
 // Command to add a new domain
 program
   .command('add <domain>')
-  .description('Add a new local domain')
+  .description('Add a new local domain, or a wildcard certificate such as "*.myapp.local"')
   .option('-i, --ip <ip>', 'IP address to use', '127.0.0.1')
+  .option('-a, --alias <names...>', 'Extra hostnames or IP addresses for the certificate (e.g. api.myapp.local 127.0.0.1)')
+  .option('-p, --profile <name>', `Certificate profile (${Object.keys(CERTIFICATE_PROFILES).join(', ')})`)
   .action(async (domain, options) => {
     displayBanner();
 
+    const aliases: string[] = options.alias || [];
+    const domainError = validateDomainPattern(domain) || validateIP(options.ip) ||
+      aliases.map(alias => validateHostnameOrIP(alias)).find(Boolean);
+    if (domainError) {
+      console.error(chalk.red(`❌ ${domainError}`));
+      process.exit(1);
+    }
+
+    let profile: CertificateProfile | undefined;
     try {
-      // Check for OpenSSL before proceeding
-      console.log(chalk.cyan('Checking OpenSSL installation...'));
-      const hasOpenSSL = await checkOpenSSL();
+      profile = options.profile !== undefined ? resolveCertificateProfile(options.profile) : undefined;
+    } catch (error: any) {
+      console.error(chalk.red(`❌ ${error?.message}`));
+      process.exit(1);
+    }
 
-      if (!hasOpenSSL) {
-        displayOpenSSLError();
+    try {
+      // Check that certificates can be created before proceeding
+      if (!await checkCertificateBackend()) {
         process.exit(1);
       }
 
-      console.log(chalk.green('✅ OpenSSL found'));
-
       const hostsManager = new HostsManager();
       const certsDir = path.join(os.homedir(), '.navigrator', 'certs');
       const certManager = new CertificateManager(certsDir);
 
       await certManager.initialize();
 
-      console.log(chalk.cyan(`Adding ${domain} to hosts file...`));
-      await hostsManager.addHost(domain, options.ip);
+      // The hosts file has no wildcards: each subdomain needs its own entry or a DNS resolver
+      if (isWildcardDomain(domain)) {
+        console.log(chalk.yellow(`⚠️  Add a hosts entry for each subdomain of ${domain} you use`));
+      } else {
+        console.log(chalk.cyan(`Adding ${domain} to hosts file...`));
+        await hostsManager.addHost(domain, options.ip);
+      }
 
       console.log(chalk.cyan(`Creating SSL certificate for ${domain}...`));
-      await certManager.createCertificate(domain);
+      await certManager.createCertificate(domain, { aliases, profile });
 
       console.log(chalk.green(`\n✅ Domain ${domain} successfully added`));
     } catch (error: any) {
@@ -274,6 +336,12 @@ program
   .action(async (domain) => {
     displayBanner();
 
+    const domainError = validateDomain(domain);
+    if (domainError) {
+      console.error(chalk.red(`❌ ${domainError}`));
+      process.exit(1);
+    }
+
     try {
       const hostsManager = new HostsManager();
 
@@ -304,6 +372,7 @@ program
 
       console.log(chalk.cyan('Generating and installing the root CA certificate...'));
       const result = await caInstaller.generateAndInstallCA();
+      printBrowserResults(result.browsers);
 
       if (result.success) {
         console.log(chalk.green(`\n✅ ${result.message}`));
@@ -313,13 +382,10 @@ program
 
         if (process.platform === 'win32') {
           console.log(chalk.white('• Chrome and Edge: Should recognize the certificate immediately.'));
-          console.log(chalk.white('• Firefox: May require manual import. Check the Firefox notification above.'));
         } else if (process.platform === 'darwin') {
           console.log(chalk.white('• Safari and Chrome: Should recognize the certificate after restart.'));
-          console.log(chalk.white('• Firefox: May require manual import. Check the Firefox notification above.'));
         } else {
           console.log(chalk.white('• Chrome: May require restarting the browser.'));
-          console.log(chalk.white('• Firefox: May require manual import. Check the Firefox notification above.'));
         }
 
         console.log(chalk.cyan('\nIf you experience any issues:'));
@@ -345,17 +411,11 @@ program
     displayBanner();
 
     try {
-      // First check for OpenSSL
-      console.log(chalk.cyan('Checking OpenSSL installation...'));
-      const hasOpenSSL = await checkOpenSSL();
-
-      if (!hasOpenSSL) {
-        displayOpenSSLError();
+      // Check that certificates can be created before proceeding
+      if (!await checkCertificateBackend()) {
         process.exit(1);
       }
 
-      console.log(chalk.green('✅ OpenSSL found'));
-
       const certsDir = path.join(os.homedir(), '.navigrator', 'certs');
       const caInstaller = new CAInstaller(certsDir);
 
@@ -364,6 +424,7 @@ program
       if (!caExists) {
         console.log(chalk.cyan('Root CA certificate not found. Generating...'));
         const result = await caInstaller.generateAndInstallCA();
+        printBrowserResults(result.browsers);
 
         if (result.success) {
           console.log(chalk.green(`\n✅ ${result.message}`));
@@ -374,6 +435,7 @@ program
       } else {
         console.log(chalk.cyan('Installing the existing root CA certificate...'));
         const result = await caInstaller.installCA();
+        printBrowserResults(result.browsers);
 
         if (result.success) {
           console.log(chalk.green(`\n✅ ${result.message}`));
@@ -388,13 +450,10 @@ program
 
       if (process.platform === 'win32') {
         console.log(chalk.white('• Chrome and Edge: Should recognize the certificate immediately.'));
-        console.log(chalk.white('• Firefox: May require manual import. Check the Firefox notification above.'));
       } else if (process.platform === 'darwin') {
         console.log(chalk.white('• Safari and Chrome: Should recognize the certificate after restart.'));
-        console.log(chalk.white('• Firefox: May require manual import. Check the Firefox notification above.'));
       } else {
         console.log(chalk.white('• Chrome: May require restarting the browser.'));
-        console.log(chalk.white('• Firefox: May require manual import. Check the Firefox notification above.'));
       }
 
       console.log(chalk.cyan('\nIf you experience any issues:'));
@@ -406,6 +465,185 @@ program
     }
   });
 
+// Command to remove the CA certificate from trust stores
+program
+  .command('uninstall-ca')
+  .description('Remove the Navigrator root CA from system/browser trust stores')
+  .option('--purge', 'Also delete ~/.navigrator: the CA, certificates, proxies and the admin token')
+  .action(async (options) => {
+    displayBanner();
+
+    try {
+      const navigratorDir = path.join(os.homedir(), '.navigrator');
+      const caInstaller = new CAInstaller(path.join(navigratorDir, 'certs'));
+
+      console.log(chalk.cyan('Removing the root CA certificate from trust stores...'));
+      const result = await caInstaller.uninstallCA();
+      printBrowserResults(result.browsers);
+
+      if (!result.success) {
+        console.log(chalk.yellow(`\n⚠️  ${result.message}`));
+        process.exit(1);
+      }
+
+      console.log(chalk.green(`\n✅ ${result.message}`));
+
+      if (options.purge) {
+        require('fs').rmSync(navigratorDir, { recursive: true, force: true });
+        console.log(chalk.green(`✅ Deleted ${navigratorDir}`));
+        console.log(chalk.white('Domains in the hosts file are kept; remove them with "navigrator remove <domain>".'));
+      }
+    } catch (error: any) {
+      console.error(chalk.red(`\n❌ Error: ${error?.message}`));
+      process.exit(1);
+    }
+  });
+
+// Command to replace the intermediate CA
+program
+  .command('rotate-intermediate-ca')
+  .description('Replace the intermediate CA that issues certificates with a new one signed by the root CA')
+  .action(async () => {
+    displayBanner();
+
+    try {
+      if (!await checkCertificateBackend()) {
+        process.exit(1);
+      }
+
+      const certsDir = path.join(os.homedir(), '.navigrator', 'certs');
+      const caGenerator = new CAGenerator(certsDir);
+
+      if (!await caGenerator.checkCAExists()) {
+        console.error(chalk.red('\n❌ Root CA certificate not found. Run "navigrator init-ca" first.'));
+        process.exit(1);
+      }
+
+      console.log(chalk.cyan('Creating a new intermediate CA...'));
+      const { intermediateCertPath } = await caGenerator.rotateIntermediateCA();
+
+      console.log(chalk.green(`\n✅ Intermediate CA created at ${intermediateCertPath}`));
+      console.log(chalk.white('Existing certificates keep working; new and renewed ones are issued by the new intermediate CA.'));
+    } catch (error: any) {
+      console.error(chalk.red(`\n❌ Error: ${error?.message}`));
+      process.exit(1);
+    }
+  });
+
+// Commands managing the local CA
+const caCommand = program
+  .command('ca')
+  .description('Manage the local certificate authority');
+
+caCommand
+  .command('status')
+  .description('Show which trust stores hold the root CA')
+  .action(async () => {
+    try {
+      const caInstaller = new CAInstaller(path.join(os.homedir(), '.navigrator', 'certs'));
+      const { fingerprint, stores } = await caInstaller.getTrustStatus();
+
+      if (!fingerprint) {
+        console.log(chalk.yellow('⚠️  Root CA certificate not found. Run "navigrator init-ca" to create it.'));
+      } else {
+        console.log(chalk.cyan(`Root CA fingerprint (SHA-1): ${fingerprint}\n`));
+      }
+
+      const colors = { installed: chalk.green, missing: chalk.yellow, 'fingerprint-mismatch': chalk.red, unknown: chalk.gray };
+      for (const store of stores) {
+        console.log(`${colors[store.status](store.status.padEnd(20))} ${store.name}${store.message ? chalk.gray(` - ${store.message}`) : ''}`);
+      }
+    } catch (error: any) {
+      console.error(chalk.red(`\n❌ Error: ${error?.message}`));
+      process.exit(1);
+    }
+  });
+
+caCommand
+  .command('rotate')
+  .description('Replace the root CA with a new one and re-issue every certificate')
+  .option('--no-install', 'Skip trusting the new CA and removing the old one from the system store')
+  .action(async (options) => {
+    displayBanner();
+
+    try {
+      if (!await checkCertificateBackend()) {
+        process.exit(1);
+      }
+
+      const certsDir = path.join(os.homedir(), '.navigrator', 'certs');
+      const certManager = new CertificateManager(certsDir);
+      await certManager.initialize();
+
+      console.log(chalk.cyan('Creating a new CA and re-issuing certificates...'));
+      const rotator = new CARotator(certManager, new CAInstaller(certsDir));
+      const result = await rotator.rotate({ installTrust: options.install });
+
+      if (!result.success) {
+        console.error(chalk.red(`\n❌ ${result.message}`));
+        process.exit(1);
+      }
+
+      console.log(chalk.green(`\n✅ ${result.message}`));
+      for (const domain of result.reissued) {
+        console.log(chalk.white(`  • ${domain}`));
+      }
+      if (!options.install) {
+        console.log(chalk.yellow('\n⚠️  The new CA is not trusted yet. Run "navigrator install-ca" to trust it.'));
+      }
+      console.log(chalk.white('\nRunning proxies keep serving the old certificates until they are restarted; use the web interface to rotate without restarting.'));
+    } catch (error: any) {
+      console.error(chalk.red(`\n❌ Error: ${error?.message}`));
+      process.exit(1);
+    }
+  });
+
+// Commands making other software trust the local CA
+const trustCommand = program
+  .command('trust')
+  .description('Make software with its own trust store trust the root CA');
+
+trustCommand
+  .command('runtimes')
+  .description('Write a CA bundle and environment file for Node.js, Python, OpenSSL, curl and Git, and optionally import the CA into a Java keystore')
+  .option('--java-keystore <path>', 'Java keystore to import the CA into (e.g. $JAVA_HOME/lib/security/cacerts); its password is read from NAVIGRATOR_KEYSTORE_PASSWORD and defaults to "changeit"')
+  .action(async (options) => {
+    try {
+      const caInstaller = new CAInstaller(path.join(os.homedir(), '.navigrator', 'certs'));
+      const result = await caInstaller.installRuntimeTrust({
+        javaKeystore: options.javaKeystore,
+        // Read from the environment only, so the password stays out of the shell history and the process list
+        keystorePassword: process.env.NAVIGRATOR_KEYSTORE_PASSWORD
+      });
+
+      if (!result.bundlePath || !result.envFilePath) {
+        console.error(chalk.red(`\n❌ ${result.message}`));
+        process.exit(1);
+      }
+
+      console.log(chalk.green(`✅ ${result.message}: ${result.bundlePath}`));
+      for (const [variable, value] of Object.entries(result.variables || {})) {
+        console.log(chalk.white(`  ${variable}=${value}`));
+      }
+
+      if (result.javaKeystore) {
+        console.log(result.javaKeystore.success
+          ? chalk.green(`✅ ${result.javaKeystore.message}`)
+          : chalk.yellow(`⚠️  ${result.javaKeystore.message}`));
+      }
+
+      console.log(chalk.cyan('\nLoad the variables in your shell, or add this line to your shell profile:'));
+      console.log(chalk.white(`  . "${result.envFilePath}"`));
+
+      if (!result.success) {
+        process.exit(1);
+      }
+    } catch (error: any) {
+      console.error(chalk.red(`\n❌ Error: ${error?.message}`));
+      process.exit(1);
+    }
+  });
+
 // Command to configure project from navigrator.config.json
 program
   .command('config')
@@ -414,17 +652,11 @@ program
     displayBanner();
 
     try {
-      // Check for OpenSSL
-      console.log(chalk.cyan('Checking OpenSSL installation...'));
-      const hasOpenSSL = await checkOpenSSL();
-
-      if (!hasOpenSSL) {
-        displayOpenSSLError();
+      // Check that certificates can be created before proceeding
+      if (!await checkCertificateBackend()) {
         process.exit(1);
       }
 
-      console.log(chalk.green('✅ OpenSSL found'));
-
       // Check if config file exists
       const configPath = path.join(process.cwd(), 'navigrator.config.json');
       if (!require('fs').existsSync(configPath)) {
@@ -445,7 +677,7 @@ program
       let domains = [];
       if (config.domain && config.port) {
         // Old format: single domain
-        domains = [{ domain: config.domain, port: config.port }];
+        domains = [{ domain: config.domain, port: config.port, aliases: config.aliases, profile: config.profile }];
       } else if (config.domains && Array.isArray(config.domains)) {
         // New format: multiple domains
         domains = config.domains;
@@ -468,12 +700,45 @@ program
         process.exit(1);
       }
 
+      // Custom certificate profiles, selectable by name like the built-in ones
+      const customProfiles = config.profiles || {};
+      if (typeof customProfiles !== 'object' || Array.isArray(customProfiles)) {
+        console.error(chalk.red('\n❌ "profiles" must map profile names to certificate profiles'));
+        process.exit(1);
+      }
+
       // Validate each domain
       for (const domainConfig of domains) {
         if (!domainConfig.domain || !domainConfig.port) {
           console.error(chalk.red(`\n❌ Each domain must have "domain" and "port" fields: ${JSON.stringify(domainConfig)}`));
           process.exit(1);
         }
+
+        const domainError = validateDomainPattern(domainConfig.domain);
+        if (domainError) {
+          console.error(chalk.red(`\n❌ ${domainError}`));
+          process.exit(1);
+        }
+
+        // Internationalized names are used in their punycode form from here on
+        domainConfig.domain = parseDomainPattern(domainConfig.domain);
+
+        try {
+          domainConfig.aliases = normalizeCertificateAliases(domainConfig.domain, domainConfig.aliases || []);
+        } catch (error: any) {
+          console.error(chalk.red(`\n❌ Invalid aliases for ${domainConfig.domain}: ${error?.message}`));
+          process.exit(1);
+        }
+
+        // Without a profile, an existing certificate keeps the one it was issued with
+        try {
+          if (domainConfig.profile !== undefined) {
+            domainConfig.profile = resolveCertificateProfile(domainConfig.profile, customProfiles);
+          }
+        } catch (error: any) {
+          console.error(chalk.red(`\n❌ Invalid certificate profile for ${domainConfig.domain}: ${error?.message}`));
+          process.exit(1);
+        }
       }
 
       // Initialize CA if needed
@@ -490,6 +755,7 @@ program
 
         console.log(chalk.cyan('Installing the root CA certificate...'));
         const result = await caInstaller.installCA();
+        printBrowserResults(result.browsers);
         if (result.success) {
           console.log(chalk.green('✅ CA certificate installed'));
         } else {
@@ -504,11 +770,16 @@ program
 
       // Process each domain
       for (const domainConfig of domains) {
-        console.log(chalk.cyan(`Adding ${domainConfig.domain} to hosts file...`));
-        await hostsManager.addHost(domainConfig.domain, '127.0.0.1');
+        // The hosts file has no wildcards: each subdomain needs its own entry or a DNS resolver
+        if (isWildcardDomain(domainConfig.domain)) {
+          console.log(chalk.yellow(`⚠️  Add a hosts entry for each subdomain of ${domainConfig.domain} you use`));
+        } else {
+          console.log(chalk.cyan(`Adding ${domainConfig.domain} to hosts file...`));
+          await hostsManager.addHost(domainConfig.domain, '127.0.0.1');
+        }
 
         console.log(chalk.cyan(`Creating SSL certificate for ${domainConfig.domain}...`));
-        await certManager.createCertificate(domainConfig.domain);
+        await certManager.createCertificate(domainConfig.domain, { aliases: domainConfig.aliases, profile: domainConfig.profile });
         
         console.log(chalk.green(`✅ ${domainConfig.domain} configured`));
       }
@@ -551,9 +822,81 @@ program
       }
 
       // Start proxy service
-      const { ProxyService } = await import('./lib/proxy-service.js');
+      const { ProxyService, validateProxyRoutes } = await import('./lib/proxy-service.js');
+      const { validateHeaderRules } = await import('./lib/header-rules.js');
+      const { createMockId, validateProxyMocks } = await import('./lib/mocks.js');
+      const { validateChaosSettings } = await import('./lib/chaos.js');
+      const { validateHealthCheckSettings } = await import('./lib/upstream-health.js');
+
+      const renewalError = config.certificateRenewal !== undefined ? validateCertificateRenewalSettings(config.certificateRenewal) : null;
+      if (renewalError) {
+        console.error(chalk.red(`\n❌ ${renewalError}`));
+        process.exit(1);
+      }
+
+      // Mocks can only serve body files from the directory of the config file
+      const mocksDir = path.dirname(configPath);
+
+      // Validate domains, HTTPS ports, route and header rules, mocks, chaos and health check settings before starting anything
+      for (const domainConfig of domains) {
+        const domainError = validateDomainPattern(domainConfig.domain);
+        if (domainError) {
+          console.error(chalk.red(`\n❌ ${domainError}`));
+          process.exit(1);
+        }
+
+        const httpsPortError = domainConfig.httpsPort !== undefined ? validatePort(domainConfig.httpsPort) : null;
+        if (httpsPortError) {
+          console.error(chalk.red(`\n❌ Invalid HTTPS port for ${domainConfig.domain}: ${httpsPortError}`));
+          process.exit(1);
+        }
+
+        // Internationalized names are used in their punycode form from here on
+        domainConfig.domain = parseDomainPattern(domainConfig.domain);
+
+        // Mock body files are relative to the config file
+        if (Array.isArray(domainConfig.mocks)) {
+          domainConfig.mocks = domainConfig.mocks.map((mock: any) => ({
+            ...mock,
+            id: mock.id || createMockId(),
+            bodyFile: mock.bodyFile ? path.resolve(mocksDir, mock.bodyFile) : undefined
+          }));
+        }
+
+        const routesError = domainConfig.routes !== undefined ? validateProxyRoutes(domainConfig.routes) : null;
+        if (routesError) {
+          console.error(chalk.red(`\n❌ Invalid routes for ${domainConfig.domain}: ${routesError}`));
+          process.exit(1);
+        }
+
+        const headerRulesError = domainConfig.headerRules !== undefined ? validateHeaderRules(domainConfig.headerRules) : null;
+        if (headerRulesError) {
+          console.error(chalk.red(`\n❌ Invalid header rules for ${domainConfig.domain}: ${headerRulesError}`));
+          process.exit(1);
+        }
+
+        const mocksError = domainConfig.mocks !== undefined ? validateProxyMocks(domainConfig.mocks, mocksDir) : null;
+        if (mocksError) {
+          console.error(chalk.red(`\n❌ Invalid mocks for ${domainConfig.domain}: ${mocksError}`));
+          process.exit(1);
+        }
+
+        const chaosError = domainConfig.chaos !== undefined ? validateChaosSettings(domainConfig.chaos) : null;
+        if (chaosError) {
+          console.error(chalk.red(`\n❌ Invalid chaos settings for ${domainConfig.domain}: ${chaosError}`));
+          process.exit(1);
+        }
+
+        const healthCheckError = domainConfig.healthCheck !== undefined ? validateHealthCheckSettings(domainConfig.healthCheck) : null;
+        if (healthCheckError) {
+          console.error(chalk.red(`\n❌ Invalid health check settings for ${domainConfig.domain}: ${healthCheckError}`));
+          process.exit(1);
+        }
+      }
+
       const proxyService = new ProxyService();
-      
+      await proxyService.setHttpRedirect(!!config.httpRedirect);
+
       const certsDir = path.join(os.homedir(), '.navigrator', 'certs');
 
       // Configure proxy for each domain
@@ -562,20 +905,52 @@ program
         const proxyConfig = {
           domain: domainConfig.domain,
           target: `http://localhost:${domainConfig.port}`,
-          isRunning: false
+          isRunning: false,
+          http2: domainConfig.http2,
+          upstreamProtocol: domainConfig.upstreamProtocol,
+          routes: domainConfig.routes,
+          headerRules: domainConfig.headerRules,
+          cors: domainConfig.cors,
+          mocks: domainConfig.mocks,
+          mocksDir,
+          chaos: domainConfig.chaos,
+          healthCheck: domainConfig.healthCheck,
+          port: domainConfig.httpsPort
         };
         
         proxyService.addProxy(proxyConfig);
 
-        // Get certificate paths
-        const certPath = path.join(certsDir, `${domainConfig.domain}.crt`);
-        const keyPath = path.join(certsDir, `${domainConfig.domain}.key`);
+        // Get certificate paths, falling back to a wildcard certificate covering the domain
+        let certName = getCertificateFileName(domainConfig.domain);
+        if (!require('fs').existsSync(path.join(certsDir, `${certName}.crt`)) && !isWildcardDomain(domainConfig.domain)) {
+          const wildcardName = getCertificateFileName(getWildcardDomain(domainConfig.domain));
+          if (require('fs').existsSync(path.join(certsDir, `${wildcardName}.crt`))) {
+            certName = wildcardName;
+          }
+        }
+        const certPath = path.join(certsDir, `${certName}.crt`);
+        const keyPath = path.join(certsDir, `${certName}.key`);
 
         // Start proxy
         console.log(chalk.cyan(`Starting proxy for ${domainConfig.domain}...`));
-        proxyService.startProxy(domainConfig.domain, certPath, keyPath);
+        const result = await proxyService.startProxy(domainConfig.domain, certPath, keyPath);
+        if (!result.success) {
+          console.error(chalk.red(`❌ Could not start proxy for ${domainConfig.domain}: ${result.message}`));
+        }
       }
 
+      // The proxies are served without the redirect listener when port 80 can't be bound
+      const httpRedirectError = proxyService.getHttpRedirectStatus().error;
+      if (config.httpRedirect && httpRedirectError) {
+        console.log(chalk.yellow(`⚠️  HTTP redirect is not available: ${httpRedirectError}`));
+      }
+
+      // Renew expiring certificates while the dev server runs
+      const certManager = new CertificateManager(certsDir);
+      await certManager.initialize();
+      const certificateRenewer = new CertificateRenewer(certManager, proxyService, config.certificateRenewal);
+      certificateRenewer.start();
+
       // Execute the original command
       const commandStr = command.join(' ');
       console.log(chalk.cyan(`Executing: ${commandStr}`));
@@ -590,6 +965,7 @@ program
       // Handle process termination
       const cleanup = () => {
         console.log(chalk.cyan('\nStopping proxy...'));
+        certificateRenewer.stop();
         proxyService.stopAllProxies();
         child.kill();
         process.exit(0);
@@ -603,12 +979,15 @@ program
         process.exit(code || 0);
       });
 
+      const urlFor = (domain: any) =>
+        `https://${domain.domain}${domain.httpsPort && domain.httpsPort !== 443 ? `:${domain.httpsPort}` : ''}`;
+
       if (domains.length === 1) {
-        console.log(chalk.green(`\n🚀 Development server running at https://${domains[0].domain}`));
+        console.log(chalk.green(`\n🚀 Development server running at ${urlFor(domains[0])}`));
       } else {
         console.log(chalk.green(`\n🚀 Development server running at:`));
         domains.forEach((domain: any) => {
-          console.log(chalk.green(`   https://${domain.domain}`));
+          console.log(chalk.green(`   ${urlFor(domain)}`));
         });
       }
 
@@ -0,0 +1,14 @@
+/**
+ * Session token rendered into index.html by the server
+ */
+const token = document.querySelector<HTMLMetaElement>('meta[name="navigrator-token"]')?.content || '';
+
+/**
+ * fetch() for the Navigrator API, authenticated with the session token
+ */
+export function apiFetch(input: string, init: RequestInit = {}): Promise<Response> {
+  const headers = new Headers(init.headers);
+  headers.set('X-Navigrator-Token', token);
+
+  return fetch(input, { ...init, headers });
+}
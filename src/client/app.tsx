@@ -1,4 +1,5 @@
 import React, { useEffect, useState } from 'react';
+import { apiFetch } from './api';
 import './styles.css';
 
 interface Host {
@@ -17,6 +18,49 @@ interface Certificate {
   isValid: boolean;
   certFilePath?: string;
   keyFilePath?: string;
+  aliases?: string[];
+  missingNames?: string[];
+  profile?: string;
+  chain?: CertificateChainEntry[];
+  incompleteChain?: boolean;
+}
+
+interface CertificateChainEntry {
+  subject: string;
+  issuer: string;
+  validTo: string;
+}
+
+interface CertificateProfile {
+  name: string;
+  description?: string;
+}
+
+interface TrustStoreStatus {
+  kind: 'system' | 'browser' | 'runtime';
+  name: string;
+  status: 'installed' | 'missing' | 'fingerprint-mismatch' | 'unknown';
+  path?: string;
+  message?: string;
+}
+
+interface TrustStatus {
+  fingerprint: string | null;
+  stores: TrustStoreStatus[];
+}
+
+const TRUST_STATE_CLASSES: { [state in TrustStoreStatus['status']]: string } = {
+  installed: 'valid',
+  missing: 'warning',
+  'fingerprint-mismatch': 'invalid',
+  unknown: ''
+};
+
+interface HttpRedirectStatus {
+  enabled: boolean;
+  port: number;
+  listening: boolean;
+  error?: string;
 }
 
 interface DomainStatus {
@@ -27,19 +71,247 @@ interface DomainStatus {
   isDisabled: boolean;
 }
 
+interface ProxyRoute {
+  path: string;
+  matchType?: 'prefix' | 'regex';
+  stripPrefix?: boolean;
+  target: string;
+}
+
+interface HeaderRule {
+  phase: 'request' | 'response';
+  action: 'set' | 'append' | 'remove';
+  name: string;
+  value?: string;
+}
+
+interface ProxyMock {
+  id: string;
+  method?: string;
+  path: string;
+  matchType?: 'exact' | 'prefix' | 'regex';
+  status: number;
+  headers?: { [name: string]: string };
+  body?: string;
+  bodyFile?: string;
+  enabled?: boolean;
+}
+
+/**
+ * Mock being edited; headers are edited as "Name: value" lines
+ */
+interface MockForm {
+  id?: string;
+  method: string;
+  path: string;
+  matchType: 'exact' | 'prefix' | 'regex';
+  status: number;
+  headers: string;
+  bodySource: 'inline' | 'file';
+  body: string;
+  bodyFile: string;
+  enabled: boolean;
+}
+
+const EMPTY_MOCK_FORM: MockForm = {
+  method: 'GET',
+  path: '',
+  matchType: 'exact',
+  status: 200,
+  headers: '',
+  bodySource: 'inline',
+  body: '',
+  bodyFile: '',
+  enabled: true
+};
+
+const MOCK_METHODS = ['*', 'GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS', 'HEAD'];
+
+interface ChaosSettings {
+  enabled: boolean;
+  latency?: { fixed: number; jitter?: number; paths?: string[] };
+  bandwidth?: { kilobytesPerSecond: number; paths?: string[] };
+  errors?: { rate: number; status?: number; paths?: string[] };
+  resets?: { rate: number; paths?: string[] };
+}
+
+/**
+ * Chaos settings being edited; each fault has an on/off switch and comma-separated path patterns
+ */
+interface ChaosForm {
+  latency: boolean;
+  latencyFixed: number;
+  latencyJitter: number;
+  latencyPaths: string;
+  bandwidth: boolean;
+  kilobytesPerSecond: number;
+  bandwidthPaths: string;
+  errors: boolean;
+  errorRate: number;
+  errorStatus: number;
+  errorPaths: string;
+  resets: boolean;
+  resetRate: number;
+  resetPaths: string;
+}
+
+function chaosToForm(chaos?: ChaosSettings): ChaosForm {
+  return {
+    latency: !!chaos?.latency,
+    latencyFixed: chaos?.latency?.fixed ?? 1000,
+    latencyJitter: chaos?.latency?.jitter ?? 0,
+    latencyPaths: (chaos?.latency?.paths || []).join(', '),
+    bandwidth: !!chaos?.bandwidth,
+    kilobytesPerSecond: chaos?.bandwidth?.kilobytesPerSecond ?? 50,
+    bandwidthPaths: (chaos?.bandwidth?.paths || []).join(', '),
+    errors: !!chaos?.errors,
+    errorRate: chaos?.errors?.rate ?? 10,
+    errorStatus: chaos?.errors?.status ?? 503,
+    errorPaths: (chaos?.errors?.paths || []).join(', '),
+    resets: !!chaos?.resets,
+    resetRate: chaos?.resets?.rate ?? 5,
+    resetPaths: (chaos?.resets?.paths || []).join(', ')
+  };
+}
+
+function formToChaos(enabled: boolean, form: ChaosForm): ChaosSettings {
+  const paths = (value: string) => {
+    const list = value.split(',').map(path => path.trim()).filter(Boolean);
+    return list.length > 0 ? list : undefined;
+  };
+
+  return {
+    enabled,
+    latency: form.latency ? { fixed: form.latencyFixed, jitter: form.latencyJitter, paths: paths(form.latencyPaths) } : undefined,
+    bandwidth: form.bandwidth ? { kilobytesPerSecond: form.kilobytesPerSecond, paths: paths(form.bandwidthPaths) } : undefined,
+    errors: form.errors ? { rate: form.errorRate, status: form.errorStatus, paths: paths(form.errorPaths) } : undefined,
+    resets: form.resets ? { rate: form.resetRate, paths: paths(form.resetPaths) } : undefined
+  };
+}
+
 interface Proxy {
   domain: string;
   target: string;
   port: number;
   isRunning: boolean;
+  http2?: boolean;
+  upstreamProtocol?: 'http1' | 'h2c' | 'h2';
+  routes?: ProxyRoute[];
+  traffic?: TrafficSettings;
+  headerRules?: HeaderRule[];
+  cors?: boolean;
+  mocks?: ProxyMock[];
+  chaos?: ChaosSettings;
+  healthCheck?: HealthCheckSettings;
+}
+
+interface HealthCheckSettings {
+  enabled?: boolean;
+  path?: string;
+  timeout?: number;
+}
+
+interface UpstreamHealth {
+  target: string;
+  healthy: boolean;
+  checkedAt: string;
+  error?: string;
+}
+
+interface CertificateRenewal {
+  domain: string;
+  renewedAt: string;
+  previousValidTo: string;
+  validTo?: string;
+  success: boolean;
+  error?: string;
+  reloadedProxies: string[];
+}
+
+interface CertificateRenewalSettings {
+  enabled: boolean;
+  renewBeforeDays: number;
+  checkInterval: number;
+}
+
+/**
+ * How often the certificate renewal history is refreshed
+ */
+const RENEWAL_POLL_INTERVAL = 60000;
+
+interface TrafficSettings {
+  enabled: boolean;
+  maxEntries?: number;
+  maxBodySize?: number;
+}
+
+interface CapturedBody {
+  size: number;
+  mimeType: string;
+  text: string;
+  encoding?: 'base64';
+  truncated: boolean;
+}
+
+interface TrafficEntry {
+  id: number;
+  startedAt: string;
+  method: string;
+  url: string;
+  httpVersion: string;
+  target: string;
+  requestHeaders: { [name: string]: string | string[] };
+  requestBody?: CapturedBody;
+  status?: number;
+  statusText?: string;
+  responseHeaders?: { [name: string]: string | string[] };
+  responseBody?: CapturedBody;
+  timings: { wait: number; receive: number; total: number };
+  state: 'pending' | 'complete' | 'error';
+  error?: string;
+}
+
+const UPSTREAM_PROTOCOL_LABELS = {
+  http1: 'HTTP/1.1',
+  h2c: 'h2c (gRPC)',
+  h2: 'h2 over TLS'
+};
+
+const DEFAULT_TRAFFIC_MAX_ENTRIES = 200;
+const DEFAULT_TRAFFIC_MAX_BODY_SIZE = 64 * 1024;
+
+/**
+ * Merge polled traffic entries into the list shown, replacing entries that were still pending
+ */
+function mergeTrafficEntries(current: TrafficEntry[], updates: TrafficEntry[], limit: number): TrafficEntry[] {
+  const byId = new Map(current.map(entry => [entry.id, entry]));
+  updates.forEach(entry => byId.set(entry.id, entry));
+
+  return Array.from(byId.values())
+    .sort((a, b) => a.id - b.id)
+    .slice(-limit);
+}
+
+function formatBytes(size: number): string {
+  if (size < 1024) return `${size} B`;
+  if (size < 1024 * 1024) return `${(size / 1024).toFixed(1)} KB`;
+  return `${(size / (1024 * 1024)).toFixed(1)} MB`;
 }
 
 function App() {
   const [domains, setDomains] = useState<Host[]>([]);
   const [certificates, setCertificates] = useState<Certificate[]>([]);
   const [proxies, setProxies] = useState<Proxy[]>([]);
+  const [httpRedirect, setHttpRedirect] = useState<HttpRedirectStatus | null>(null);
   const [statuses, setStatuses] = useState<{ [key: string]: DomainStatus }>({});
+  const [upstreamHealth, setUpstreamHealth] = useState<{ [domain: string]: UpstreamHealth[] }>({});
+  const [renewals, setRenewals] = useState<CertificateRenewal[]>([]);
+  const [renewalSettings, setRenewalSettings] = useState<CertificateRenewalSettings | null>(null);
   const [newDomain, setNewDomain] = useState('');
+  const [newAliases, setNewAliases] = useState('');
+  const [newProfile, setNewProfile] = useState('default');
+  const [certificateProfiles, setCertificateProfiles] = useState<CertificateProfile[]>([]);
+  const [trustStatus, setTrustStatus] = useState<TrustStatus | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [notification, setNotification] = useState<{ message: string, type: 'success' | 'error' } | null>(null);
@@ -47,19 +319,101 @@ function App() {
   const [confirmImport, setConfirmImport] = useState(false);
   const [confirmDeleteCertificate, setConfirmDeleteCertificate] = useState<string | null>(null);
   const [confirmDeleteProxy, setConfirmDeleteProxy] = useState<string | null>(null);
+  const [confirmRotateCA, setConfirmRotateCA] = useState(false);
 
   const [newProxy, setNewProxy] = useState({
     domain: '',
     target: '',
-    port: 443
+    port: 443,
+    http2: false,
+    upstreamProtocol: 'http1' as Proxy['upstreamProtocol']
   });
 
   const [editProxy, setEditProxy] = useState<Proxy | null>(null);
 
+  const [trafficDomain, setTrafficDomain] = useState<string | null>(null);
+  const [trafficEntries, setTrafficEntries] = useState<TrafficEntry[]>([]);
+  const [selectedTrafficId, setSelectedTrafficId] = useState<number | null>(null);
+  const [trafficVersion, setTrafficVersion] = useState(0);
+
+  const [chaosDomain, setChaosDomain] = useState<string | null>(null);
+  const [chaosForm, setChaosForm] = useState<ChaosForm>(chaosToForm());
+
+  const [mocksDomain, setMocksDomain] = useState<string | null>(null);
+  const [mockForm, setMockForm] = useState<MockForm>(EMPTY_MOCK_FORM);
+
   useEffect(() => {
     fetchData();
   }, []);
 
+  // Certificates are renewed in the background; report renewals that happen while the page is open
+  useEffect(() => {
+    let latest: string | null = null;
+
+    const poll = async () => {
+      try {
+        const data = await fetchCertificateRenewals();
+        const fresh = latest === null ? [] : data.renewals.filter((renewal: CertificateRenewal) => renewal.renewedAt > latest!);
+        latest = data.renewals[0]?.renewedAt || latest || '';
+
+        if (fresh.length > 0) {
+          const failed = fresh.filter((renewal: CertificateRenewal) => !renewal.success);
+          showNotification(
+            failed.length > 0
+              ? `Could not renew the certificate for ${failed.map((renewal: CertificateRenewal) => renewal.domain).join(', ')}`
+              : `Renewed the certificate for ${fresh.map((renewal: CertificateRenewal) => renewal.domain).join(', ')}`,
+            failed.length > 0 ? 'error' : 'success'
+          );
+          await fetchCertificates();
+        }
+      } catch (error) {
+        // Keep polling; the server may just be restarting
+      }
+    };
+
+    poll();
+    const interval = setInterval(poll, RENEWAL_POLL_INTERVAL);
+
+    return () => clearInterval(interval);
+  }, []);
+
+  // Poll the traffic inspector while its panel is open
+  useEffect(() => {
+    if (!trafficDomain) return;
+
+    let cancelled = false;
+    let entries: TrafficEntry[] = [];
+    setTrafficEntries([]);
+
+    const poll = async () => {
+      // Ask again from the oldest pending entry so in-flight requests pick up their final state
+      const pending = entries.find(entry => entry.state === 'pending');
+      const since = pending ? pending.id - 1 : entries.length > 0 ? entries[entries.length - 1].id : 0;
+
+      try {
+        const response = await apiFetch(`/api/proxies/${trafficDomain}/traffic?since=${since}`);
+        if (!response.ok || cancelled) return;
+
+        const data = await response.json();
+        if (cancelled) return;
+
+        const limit = proxies.find(p => p.domain === trafficDomain)?.traffic?.maxEntries || DEFAULT_TRAFFIC_MAX_ENTRIES;
+        entries = mergeTrafficEntries(entries, data.entries, limit);
+        setTrafficEntries(entries);
+      } catch (error) {
+        // Keep polling; the server may just be restarting
+      }
+    };
+
+    poll();
+    const interval = setInterval(poll, 2000);
+
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [trafficDomain, trafficVersion]);
+
   const fetchData = async () => {
     setLoading(true);
     setError(null);
@@ -68,7 +422,10 @@ function App() {
       await Promise.all([
         fetchHosts(),
         fetchCertificates(),
-        fetchProxies()
+        fetchCertificateProfiles(),
+        fetchTrustStatus(),
+        fetchProxies(),
+        fetchHttpRedirect()
       ]);
 
       setLoading(false);
@@ -79,7 +436,7 @@ function App() {
   };
 
   const fetchHosts = async () => {
-    const response = await fetch('/api/hosts');
+    const response = await apiFetch('/api/hosts');
     if (!response.ok) throw new Error('Failed to fetch hosts');
 
     const data = await response.json();
@@ -89,23 +446,111 @@ function App() {
   };
 
   const fetchCertificates = async () => {
-    const response = await fetch('/api/certificates');
+    const response = await apiFetch('/api/certificates');
     if (!response.ok) throw new Error('Failed to fetch certificates');
 
     const data = await response.json();
     setCertificates(data.certificates);
   };
 
+  const fetchCertificateProfiles = async () => {
+    const response = await apiFetch('/api/certificates/profiles');
+    if (!response.ok) throw new Error('Failed to fetch certificate profiles');
+
+    const data = await response.json();
+    setCertificateProfiles(data.profiles);
+  };
+
+  const fetchCertificateRenewals = async () => {
+    const response = await apiFetch('/api/certificates/renewals');
+    if (!response.ok) throw new Error('Failed to fetch certificate renewals');
+
+    const data = await response.json();
+    setRenewals(data.renewals);
+    setRenewalSettings(data.settings);
+    return data;
+  };
+
+  const checkCertificateRenewals = async () => {
+    setLoading(true);
+
+    try {
+      const response = await apiFetch('/api/certificates/renewals/check', { method: 'POST' });
+      if (!response.ok) throw new Error('Failed to check certificates');
+
+      const data = await response.json();
+      await Promise.all([fetchCertificates(), fetchCertificateRenewals()]);
+
+      showNotification(
+        data.renewals.length > 0 ? `Renewed ${data.renewals.length} certificate(s)` : 'No certificates need renewing',
+        data.renewals.some((renewal: CertificateRenewal) => !renewal.success) ? 'error' : 'success'
+      );
+    } catch (error: any) {
+      showNotification(`Error checking certificates: ${error?.message}`, 'error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchTrustStatus = async () => {
+    const response = await apiFetch('/api/ca/trust');
+    if (!response.ok) throw new Error('Failed to fetch CA trust status');
+
+    const data = await response.json();
+    setTrustStatus({ fingerprint: data.fingerprint, stores: data.stores });
+  };
+
+  const rotateCA = async () => {
+    setConfirmRotateCA(false);
+    setLoading(true);
+
+    try {
+      const response = await apiFetch('/api/ca/rotate', { method: 'POST' });
+      const data = await response.json();
+      if (!data.success) throw new Error(data.error || 'Failed to rotate the CA');
+
+      await Promise.all([fetchCertificates(), fetchTrustStatus()]);
+      showNotification(`CA rotated: re-issued ${data.reissued.length} certificate(s)`, 'success');
+    } catch (error: any) {
+      showNotification(`Error rotating the CA: ${error?.message}`, 'error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const fetchProxies = async () => {
-    const response = await fetch('/api/proxies');
+    const response = await apiFetch('/api/proxies');
     if (!response.ok) throw new Error('Failed to fetch proxies');
 
     const data = await response.json();
     setProxies(data.proxies);
+
+    await Promise.all(
+      data.proxies.filter((proxy: Proxy) => proxy.isRunning).map((proxy: Proxy) => fetchUpstreamHealth(proxy.domain))
+    );
+  };
+
+  const fetchUpstreamHealth = async (domain: string) => {
+    const response = await apiFetch(`/api/proxies/${domain}/health`);
+    if (!response.ok) return;
+
+    const data = await response.json();
+    setUpstreamHealth(prev => ({
+      ...prev,
+      [domain]: data.upstreams
+    }));
+  };
+
+  const fetchHttpRedirect = async () => {
+    const response = await apiFetch('/api/http-redirect');
+    if (!response.ok) throw new Error('Failed to fetch HTTP redirect status');
+
+    const data = await response.json();
+    setHttpRedirect(data.httpRedirect);
   };
 
   const fetchDomainStatus = async (domain: string) => {
-    const response = await fetch(`/api/status/${domain}`);
+    const response = await apiFetch(`/api/status/${domain}`);
     if (!response.ok) return;
 
     const data = await response.json();
@@ -123,7 +568,7 @@ function App() {
     setLoading(true);
 
     try {
-      const hostResponse = await fetch('/api/hosts', {
+      const hostResponse = await apiFetch('/api/hosts', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json'
@@ -133,21 +578,27 @@ function App() {
 
       if (!hostResponse.ok) throw new Error('Failed to add host');
 
-      const certResponse = await fetch('/api/certificates', {
+      const aliases = newAliases.split(',').map(alias => alias.trim()).filter(Boolean);
+      const certResponse = await apiFetch('/api/certificates', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json'
         },
-        body: JSON.stringify({ domain: newDomain })
+        body: JSON.stringify({ domain: newDomain, aliases, profile: newProfile })
       });
 
-      if (!certResponse.ok) throw new Error('Failed to create certificate');
+      if (!certResponse.ok) {
+        const errorData = await certResponse.json();
+        throw new Error(errorData.error || 'Failed to create certificate');
+      }
 
       await fetchData();
 
       showNotification(`Domain ${newDomain} added successfully`, 'success');
 
       setNewDomain('');
+      setNewAliases('');
+      setNewProfile('default');
     } catch (error: any) {
       showNotification(`Error adding domain: ${error?.message}`, 'error');
     } finally {
@@ -159,7 +610,7 @@ function App() {
     setLoading(true);
 
     try {
-      const response = await fetch(`/api/hosts/${domain}/adopt`, {
+      const response = await apiFetch(`/api/hosts/${domain}/adopt`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json'
@@ -184,7 +635,7 @@ function App() {
     setConfirmImport(false);
 
     try {
-      const response = await fetch('/api/hosts/import-all', {
+      const response = await apiFetch('/api/hosts/import-all', {
         method: 'POST'
       });
 
@@ -208,7 +659,7 @@ function App() {
     setLoading(true);
 
     try {
-      const response = await fetch(`/api/hosts/${domain}`, {
+      const response = await apiFetch(`/api/hosts/${domain}`, {
         method: 'DELETE'
       });
 
@@ -230,7 +681,7 @@ function App() {
     setLoading(true);
 
     try {
-      const response = await fetch(`/api/hosts/${domain}/toggle`, {
+      const response = await apiFetch(`/api/hosts/${domain}/toggle`, {
         method: 'PATCH',
         headers: {
           'Content-Type': 'application/json'
@@ -256,7 +707,7 @@ function App() {
     setLoading(true);
 
     try {
-      const response = await fetch(`/api/certificates/${domain}`, {
+      const response = await apiFetch(`/api/certificates/${domain}`, {
         method: 'DELETE'
       });
 
@@ -280,7 +731,7 @@ function App() {
     setLoading(true);
 
     try {
-      const response = await fetch('/api/proxies', {
+      const response = await apiFetch('/api/proxies', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json'
@@ -300,7 +751,9 @@ function App() {
       setNewProxy({
         domain: '',
         target: '',
-        port: 443
+        port: 443,
+        http2: false,
+        upstreamProtocol: 'http1'
       });
     } catch (error: any) {
       showNotification(`Error adding proxy: ${error?.message}`, 'error');
@@ -317,18 +770,27 @@ function App() {
     setLoading(true);
 
     try {
-      const response = await fetch(`/api/proxies/${editProxy.domain}`, {
+      const response = await apiFetch(`/api/proxies/${editProxy.domain}`, {
         method: 'PATCH',
         headers: {
           'Content-Type': 'application/json'
         },
         body: JSON.stringify({
           target: editProxy.target,
-          port: editProxy.port
+          port: editProxy.port,
+          http2: !!editProxy.http2,
+          upstreamProtocol: editProxy.upstreamProtocol || 'http1',
+          routes: (editProxy.routes || []).filter(route => route.path && route.target),
+          headerRules: (editProxy.headerRules || []).filter(rule => rule.name),
+          cors: !!editProxy.cors,
+          healthCheck: editProxy.healthCheck || {}
         })
       });
 
-      if (!response.ok) throw new Error('Failed to update proxy');
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to update proxy');
+      }
 
       await fetchProxies();
 
@@ -341,52 +803,330 @@ function App() {
     }
   };
 
+  const updateEditRoute = (index: number, changes: Partial<ProxyRoute>) => {
+    if (!editProxy) return;
+
+    const routes = [...(editProxy.routes || [])];
+    routes[index] = { ...routes[index], ...changes };
+    setEditProxy({ ...editProxy, routes });
+  };
+
+  const moveEditRoute = (index: number, offset: number) => {
+    if (!editProxy) return;
+
+    const routes = [...(editProxy.routes || [])];
+    const [route] = routes.splice(index, 1);
+    routes.splice(index + offset, 0, route);
+    setEditProxy({ ...editProxy, routes });
+  };
+
+  const addEditRoute = () => {
+    if (!editProxy) return;
+
+    setEditProxy({
+      ...editProxy,
+      routes: [...(editProxy.routes || []), { path: '', matchType: 'prefix', stripPrefix: false, target: '' }]
+    });
+  };
+
+  const removeEditRoute = (index: number) => {
+    if (!editProxy) return;
+
+    setEditProxy({ ...editProxy, routes: (editProxy.routes || []).filter((_, i) => i !== index) });
+  };
+
+  const updateEditHeaderRule = (index: number, changes: Partial<HeaderRule>) => {
+    if (!editProxy) return;
+
+    const headerRules = [...(editProxy.headerRules || [])];
+    headerRules[index] = { ...headerRules[index], ...changes };
+    setEditProxy({ ...editProxy, headerRules });
+  };
+
+  const addEditHeaderRule = () => {
+    if (!editProxy) return;
+
+    setEditProxy({
+      ...editProxy,
+      headerRules: [...(editProxy.headerRules || []), { phase: 'response', action: 'set', name: '', value: '' }]
+    });
+  };
+
+  const removeEditHeaderRule = (index: number) => {
+    if (!editProxy) return;
+
+    setEditProxy({ ...editProxy, headerRules: (editProxy.headerRules || []).filter((_, i) => i !== index) });
+  };
+
   const deleteProxy = async (domain: string) => {
     setConfirmDeleteProxy(null);
     setLoading(true);
 
     try {
-      const response = await fetch(`/api/proxies/${domain}`, {
-        method: 'DELETE'
+      const response = await apiFetch(`/api/proxies/${domain}`, {
+        method: 'DELETE'
+      });
+
+      if (!response.ok) throw new Error('Failed to delete proxy');
+
+      await fetchProxies();
+
+      showNotification(`Proxy for ${domain} deleted successfully`, 'success');
+    } catch (error: any) {
+      showNotification(`Error deleting proxy: ${error?.message}`, 'error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleProxy = async (domain: string, shouldStart: boolean) => {
+    setLoading(true);
+
+    try {
+      const endpoint = shouldStart ? 'start' : 'stop';
+      const response = await apiFetch(`/api/proxies/${domain}/${endpoint}`, {
+        method: 'POST'
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || `Failed to ${endpoint} proxy`);
+      }
+
+      await fetchProxies();
+
+      const action = shouldStart ? 'started' : 'stopped';
+      showNotification(`Proxy for ${domain} ${action} successfully`, 'success');
+    } catch (error: any) {
+      showNotification(`Error toggling proxy: ${error?.message}`, 'error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleHttpRedirect = async (enabled: boolean) => {
+    setLoading(true);
+
+    try {
+      const response = await apiFetch('/api/http-redirect', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ enabled })
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to toggle HTTP redirect');
+      }
+
+      const data = await response.json();
+      setHttpRedirect(data.httpRedirect);
+
+      showNotification(data.message, 'success');
+    } catch (error: any) {
+      showNotification(`Error toggling HTTP redirect: ${error?.message}`, 'error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateTrafficSettings = async (domain: string, traffic: TrafficSettings) => {
+    setLoading(true);
+
+    try {
+      const response = await apiFetch(`/api/proxies/${domain}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ traffic })
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to update traffic capture');
+      }
+
+      await fetchProxies();
+    } catch (error: any) {
+      showNotification(`Error updating traffic capture: ${error?.message}`, 'error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const clearTraffic = async (domain: string) => {
+    try {
+      const response = await apiFetch(`/api/proxies/${domain}/traffic`, {
+        method: 'DELETE'
+      });
+
+      if (!response.ok) throw new Error('Failed to clear traffic');
+
+      setSelectedTrafficId(null);
+      setTrafficVersion(version => version + 1);
+    } catch (error: any) {
+      showNotification(`Error clearing traffic: ${error?.message}`, 'error');
+    }
+  };
+
+  const exportTrafficHAR = async (domain: string) => {
+    try {
+      const response = await apiFetch(`/api/proxies/${domain}/traffic/har`);
+      if (!response.ok) throw new Error('Failed to export traffic');
+
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${domain}.har`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error: any) {
+      showNotification(`Error exporting traffic: ${error?.message}`, 'error');
+    }
+  };
+
+  const toggleChaosPanel = (proxy: Proxy) => {
+    setChaosForm(chaosToForm(proxy.chaos));
+    setChaosDomain(chaosDomain === proxy.domain ? null : proxy.domain);
+  };
+
+  const saveChaos = async (domain: string, chaos: ChaosSettings) => {
+    setLoading(true);
+
+    try {
+      const response = await apiFetch(`/api/proxies/${domain}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ chaos })
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to update chaos settings');
+      }
+
+      await fetchProxies();
+
+      showNotification(chaos.enabled ? `Fault injection active for ${domain}` : `Fault injection disabled for ${domain}`, 'success');
+    } catch (error: any) {
+      showNotification(`Error updating chaos settings: ${error?.message}`, 'error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleMocksPanel = (domain: string) => {
+    setMockForm(EMPTY_MOCK_FORM);
+    setMocksDomain(mocksDomain === domain ? null : domain);
+  };
+
+  const editMock = (mock: ProxyMock) => {
+    setMockForm({
+      id: mock.id,
+      method: mock.method || '*',
+      path: mock.path,
+      matchType: mock.matchType || 'exact',
+      status: mock.status,
+      headers: Object.entries(mock.headers || {}).map(([name, value]) => `${name}: ${value}`).join('\n'),
+      bodySource: mock.bodyFile ? 'file' : 'inline',
+      body: mock.body || '',
+      bodyFile: mock.bodyFile || '',
+      enabled: mock.enabled !== false
+    });
+  };
+
+  const saveMock = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!mocksDomain) return;
+
+    const headers: { [name: string]: string } = {};
+    for (const line of mockForm.headers.split('\n')) {
+      const separator = line.indexOf(':');
+      if (separator > 0) {
+        headers[line.slice(0, separator).trim()] = line.slice(separator + 1).trim();
+      }
+    }
+
+    const mock = {
+      method: mockForm.method,
+      path: mockForm.path,
+      matchType: mockForm.matchType,
+      status: mockForm.status,
+      headers,
+      body: mockForm.bodySource === 'inline' ? mockForm.body : undefined,
+      bodyFile: mockForm.bodySource === 'file' ? mockForm.bodyFile : undefined,
+      enabled: mockForm.enabled
+    };
+
+    await sendMock(mocksDomain, mock, mockForm.id);
+  };
+
+  const toggleMock = async (mock: ProxyMock, enabled: boolean) => {
+    if (!mocksDomain) return;
+
+    await sendMock(mocksDomain, { ...mock, enabled }, mock.id);
+  };
+
+  const sendMock = async (domain: string, mock: Omit<ProxyMock, 'id'>, id?: string) => {
+    setLoading(true);
+
+    try {
+      const response = await apiFetch(id ? `/api/proxies/${domain}/mocks/${id}` : `/api/proxies/${domain}/mocks`, {
+        method: id ? 'PUT' : 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(mock)
       });
 
-      if (!response.ok) throw new Error('Failed to delete proxy');
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to save mock');
+      }
 
       await fetchProxies();
 
-      showNotification(`Proxy for ${domain} deleted successfully`, 'success');
+      setMockForm(EMPTY_MOCK_FORM);
     } catch (error: any) {
-      showNotification(`Error deleting proxy: ${error?.message}`, 'error');
+      showNotification(`Error saving mock: ${error?.message}`, 'error');
     } finally {
       setLoading(false);
     }
   };
 
-  const toggleProxy = async (domain: string, shouldStart: boolean) => {
+  const deleteMock = async (domain: string, id: string) => {
     setLoading(true);
 
     try {
-      const endpoint = shouldStart ? 'start' : 'stop';
-      const response = await fetch(`/api/proxies/${domain}/${endpoint}`, {
-        method: 'POST'
+      const response = await apiFetch(`/api/proxies/${domain}/mocks/${id}`, {
+        method: 'DELETE'
       });
 
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || `Failed to ${endpoint} proxy`);
-      }
+      if (!response.ok) throw new Error('Failed to delete mock');
 
       await fetchProxies();
 
-      const action = shouldStart ? 'started' : 'stopped';
-      showNotification(`Proxy for ${domain} ${action} successfully`, 'success');
+      if (mockForm.id === id) {
+        setMockForm(EMPTY_MOCK_FORM);
+      }
     } catch (error: any) {
-      showNotification(`Error toggling proxy: ${error?.message}`, 'error');
+      showNotification(`Error deleting mock: ${error?.message}`, 'error');
     } finally {
       setLoading(false);
     }
   };
 
+  const toggleTrafficPanel = (domain: string) => {
+    setSelectedTrafficId(null);
+    setTrafficDomain(trafficDomain === domain ? null : domain);
+  };
+
   const showNotification = (message: string, type: 'success' | 'error') => {
     setNotification({ message, type });
     setTimeout(() => setNotification(null), 3000);
@@ -396,7 +1136,7 @@ function App() {
     setLoading(true);
 
     try {
-      const response = await fetch('/api/certificates', {
+      const response = await apiFetch('/api/certificates', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json'
@@ -416,6 +1156,32 @@ function App() {
     }
   };
 
+  const trafficProxy = proxies.find(p => p.domain === trafficDomain);
+  const mocksProxy = proxies.find(p => p.domain === mocksDomain);
+  const chaosProxy = proxies.find(p => p.domain === chaosDomain);
+  const selectedTraffic = trafficEntries.find(entry => entry.id === selectedTrafficId);
+
+  const renderHeaders = (headers?: { [name: string]: string | string[] }) => (
+    <pre className="traffic-code">
+      {Object.entries(headers || {}).map(([name, value]) => `${name}: ${Array.isArray(value) ? value.join(', ') : value}`).join('\n')}
+    </pre>
+  );
+
+  const renderBody = (body?: CapturedBody) => {
+    if (!body) return <p className="no-data">No body</p>;
+
+    return (
+      <>
+        <pre className="traffic-code">
+          {body.encoding === 'base64' ? `[${body.mimeType}, ${formatBytes(body.size)} of binary data]` : body.text}
+        </pre>
+        {body.truncated && (
+          <p className="help-text">Truncated: {formatBytes(body.size)} in total</p>
+        )}
+      </>
+    );
+  };
+
   return (
     <div className="app-container">
       <header className="app-header">
@@ -485,6 +1251,30 @@ function App() {
         </div>
       )}
 
+      {confirmRotateCA && (
+        <div className="confirmation-dialog">
+          <div className="confirmation-content">
+            <h3>Rotate CA</h3>
+            <p>A new CA will issue all {certificates.length} certificate(s), and the current CA will be removed from the system trust store.</p>
+            <p className="warning-text">Clients that trust the current CA by other means must be given the new one.</p>
+            <div className="confirmation-actions">
+              <button
+                className="button secondary"
+                onClick={() => setConfirmRotateCA(false)}
+              >
+                Cancel
+              </button>
+              <button
+                className="button danger"
+                onClick={rotateCA}
+              >
+                Rotate CA
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {confirmDeleteProxy && (
         <div className="confirmation-dialog">
           <div className="confirmation-content">
@@ -543,12 +1333,32 @@ function App() {
                   onChange={(e) => setNewDomain(e.target.value)}
                   disabled={loading}
                 />
+                <input
+                  type="text"
+                  placeholder="Aliases (optional, e.g. api.myapp.local, 127.0.0.1)"
+                  value={newAliases}
+                  onChange={(e) => setNewAliases(e.target.value)}
+                  disabled={loading}
+                />
+                <select
+                  value={newProfile}
+                  onChange={(e) => setNewProfile(e.target.value)}
+                  disabled={loading}
+                  title="Certificate profile: key type, validity and usages"
+                >
+                  {certificateProfiles.map((profile) => (
+                    <option key={profile.name} value={profile.name}>
+                      {profile.description ? `${profile.name} (${profile.description})` : profile.name}
+                    </option>
+                  ))}
+                </select>
                 <button type="submit" disabled={loading || !newDomain}>
                   Add Domain
                 </button>
               </div>
               <p className="help-text">
-                All domains will point to 127.0.0.1 and include a local SSL certificate
+                All domains will point to 127.0.0.1 and include a local SSL certificate. Aliases are extra hostnames
+                or IP addresses covered by the same certificate, and the profile chooses its key type and validity.
               </p>
             </form>
 
@@ -655,6 +1465,7 @@ function App() {
                     <th>Domain</th>
                     <th>Status</th>
                     <th>Issuer</th>
+                    <th>Profile</th>
                     <th>Valid Until</th>
                     <th>Actions</th>
                   </tr>
@@ -662,13 +1473,32 @@ function App() {
                 <tbody>
                   {certificates.map((cert) => (
                     <tr key={cert.domain}>
-                      <td>{cert.domain}</td>
                       <td>
-                        <span className={`status ${cert.isValid ? 'valid' : 'invalid'} `}>
+                        {cert.domain}
+                        {cert.aliases && cert.aliases.length > 0 && (
+                          <div className="route-summary">{cert.aliases.join(', ')}</div>
+                        )}
+                      </td>
+                      <td>
+                        <span
+                          className={`status ${cert.isValid ? 'valid' : 'invalid'} `}
+                          title={[
+                            cert.missingNames && `Missing: ${cert.missingNames.join(', ')}`,
+                            cert.incompleteChain && 'The certificate chain does not lead to the local CA'
+                          ].filter(Boolean).join('\n') || undefined}
+                        >
                           {cert.isValid ? 'Valid' : 'Invalid'}
                         </span>
                       </td>
-                      <td>{cert.issuer}</td>
+                      <td>
+                        {cert.issuer}
+                        {cert.chain && cert.chain.length > 0 && (
+                          <div className="route-summary">
+                            Chain: {[...cert.chain.map(entry => entry.subject), cert.chain[cert.chain.length - 1].issuer].join(' → ')}
+                          </div>
+                        )}
+                      </td>
+                      <td>{cert.profile || 'default'}</td>
                       <td>{new Date(cert.validTo).toLocaleDateString()}</td>
                       <td className="actions-cell">
                         <button
@@ -693,6 +1523,81 @@ function App() {
                 </tbody>
               </table>
             )}
+
+            <h3>Certificate Authority</h3>
+            <p className="route-summary">
+              {trustStatus?.fingerprint && <>Root CA fingerprint (SHA-1): <code>{trustStatus.fingerprint}</code>. </>}
+              Rotating replaces the local CA, re-issues every certificate and switches running proxies to them.
+            </p>
+            {trustStatus && trustStatus.stores.length > 0 && (
+              <table>
+                <thead>
+                  <tr>
+                    <th>Trust Store</th>
+                    <th>Status</th>
+                    <th>Location</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {trustStatus.stores.map((store) => (
+                    <tr key={`${store.kind}:${store.name}`}>
+                      <td>{store.name}</td>
+                      <td>
+                        <span className={`status ${TRUST_STATE_CLASSES[store.status]}`} title={store.message}>
+                          {store.status === 'fingerprint-mismatch' ? 'Other CA' : store.status.charAt(0).toUpperCase() + store.status.slice(1)}
+                        </span>
+                      </td>
+                      <td>{store.path || '-'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+            <button onClick={() => setConfirmRotateCA(true)} className="button danger" disabled={loading}>
+              Rotate CA
+            </button>
+
+            <h3>Automatic Renewal</h3>
+            <p className="route-summary">
+              {renewalSettings?.enabled
+                ? `Certificates are renewed ${renewalSettings.renewBeforeDays} days before they expire, and running proxies switch to them without dropping connections.`
+                : 'Automatic renewal is disabled.'}
+            </p>
+            <button onClick={checkCertificateRenewals} className="button secondary" disabled={loading}>
+              Check now
+            </button>
+
+            {renewals.length > 0 && (
+              <table>
+                <thead>
+                  <tr>
+                    <th>Domain</th>
+                    <th>Renewed</th>
+                    <th>Result</th>
+                    <th>Valid Until</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {renewals.map((renewal) => (
+                    <tr key={`${renewal.domain}-${renewal.renewedAt}`}>
+                      <td>
+                        {renewal.domain}
+                        {renewal.reloadedProxies.length > 0 && (
+                          <div className="route-summary">Reloaded by {renewal.reloadedProxies.join(', ')}</div>
+                        )}
+                      </td>
+                      <td>{new Date(renewal.renewedAt).toLocaleString()}</td>
+                      <td>
+                        <span className={`status ${renewal.success ? 'valid' : 'invalid'}`} title={renewal.error}>
+                          {renewal.success ? 'Renewed' : 'Failed'}
+                        </span>
+                      </td>
+                      <td>{renewal.validTo ? new Date(renewal.validTo).toLocaleDateString() : '-'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
           </div>
         )}
 
@@ -717,6 +1622,25 @@ function App() {
                     disabled={loading}
                     className="port-input"
                   />
+                  <label className="checkbox-label">
+                    <input
+                      type="checkbox"
+                      checked={!!editProxy.http2}
+                      onChange={(e) => setEditProxy({ ...editProxy, http2: e.target.checked })}
+                      disabled={loading}
+                    />
+                    HTTP/2
+                  </label>
+                  <select
+                    value={editProxy.upstreamProtocol || 'http1'}
+                    onChange={(e) => setEditProxy({ ...editProxy, upstreamProtocol: e.target.value as Proxy['upstreamProtocol'] })}
+                    disabled={loading}
+                    title="Protocol spoken by the target"
+                  >
+                    {Object.entries(UPSTREAM_PROTOCOL_LABELS).map(([value, label]) => (
+                      <option key={value} value={value}>{label}</option>
+                    ))}
+                  </select>
                   <button type="submit" disabled={loading || !editProxy.target}>
                     Update Proxy
                   </button>
@@ -729,6 +1653,196 @@ function App() {
                     Cancel
                   </button>
                 </div>
+
+                <div className="routes-editor">
+                  <h3>Routes</h3>
+                  {(editProxy.routes || []).map((route, index) => (
+                    <div className="form-row route-row" key={index}>
+                      <input
+                        type="text"
+                        placeholder={route.matchType === 'regex' ? '^/api/v[0-9]+' : '/api'}
+                        value={route.path}
+                        onChange={(e) => updateEditRoute(index, { path: e.target.value })}
+                        disabled={loading}
+                      />
+                      <select
+                        value={route.matchType || 'prefix'}
+                        onChange={(e) => updateEditRoute(index, { matchType: e.target.value as ProxyRoute['matchType'] })}
+                        disabled={loading}
+                      >
+                        <option value="prefix">Prefix</option>
+                        <option value="regex">Regex</option>
+                      </select>
+                      <label className="checkbox-label" title="Remove the matched part of the path before forwarding">
+                        <input
+                          type="checkbox"
+                          checked={!!route.stripPrefix}
+                          onChange={(e) => updateEditRoute(index, { stripPrefix: e.target.checked })}
+                          disabled={loading}
+                        />
+                        Strip
+                      </label>
+                      <input
+                        type="text"
+                        placeholder="localhost:8000"
+                        value={route.target}
+                        onChange={(e) => updateEditRoute(index, { target: e.target.value })}
+                        disabled={loading}
+                      />
+                      <button
+                        type="button"
+                        className="button secondary"
+                        onClick={() => moveEditRoute(index, -1)}
+                        disabled={loading || index === 0}
+                        title="Evaluate earlier"
+                      >
+                        ↑
+                      </button>
+                      <button
+                        type="button"
+                        className="button secondary"
+                        onClick={() => moveEditRoute(index, 1)}
+                        disabled={loading || index === (editProxy.routes || []).length - 1}
+                        title="Evaluate later"
+                      >
+                        ↓
+                      </button>
+                      <button
+                        type="button"
+                        className="button danger"
+                        onClick={() => removeEditRoute(index)}
+                        disabled={loading}
+                      >
+                        Remove
+                      </button>
+                    </div>
+                  ))}
+                  <button
+                    type="button"
+                    className="button secondary"
+                    onClick={addEditRoute}
+                    disabled={loading}
+                  >
+                    Add Route
+                  </button>
+                  <p className="help-text">
+                    Routes are evaluated in order and the first match wins. Requests that match no route go to the target above.
+                  </p>
+                </div>
+
+                <div className="routes-editor">
+                  <h3>Headers</h3>
+                  <label className="checkbox-label" title="Allow any origin, with credentials, and answer preflight OPTIONS requests without reaching the target">
+                    <input
+                      type="checkbox"
+                      checked={!!editProxy.cors}
+                      onChange={(e) => setEditProxy({ ...editProxy, cors: e.target.checked })}
+                      disabled={loading}
+                    />
+                    Permissive CORS
+                  </label>
+                  {(editProxy.headerRules || []).map((rule, index) => (
+                    <div className="form-row route-row" key={index}>
+                      <select
+                        value={rule.phase}
+                        onChange={(e) => updateEditHeaderRule(index, { phase: e.target.value as HeaderRule['phase'] })}
+                        disabled={loading}
+                      >
+                        <option value="request">Request</option>
+                        <option value="response">Response</option>
+                      </select>
+                      <select
+                        value={rule.action}
+                        onChange={(e) => updateEditHeaderRule(index, { action: e.target.value as HeaderRule['action'] })}
+                        disabled={loading}
+                      >
+                        <option value="set">Set</option>
+                        <option value="append">Append</option>
+                        <option value="remove">Remove</option>
+                      </select>
+                      <input
+                        type="text"
+                        placeholder="X-Custom-Header"
+                        value={rule.name}
+                        onChange={(e) => updateEditHeaderRule(index, { name: e.target.value })}
+                        disabled={loading}
+                      />
+                      <input
+                        type="text"
+                        placeholder={rule.action === 'remove' ? '' : 'value'}
+                        value={rule.action === 'remove' ? '' : rule.value || ''}
+                        onChange={(e) => updateEditHeaderRule(index, { value: e.target.value })}
+                        disabled={loading || rule.action === 'remove'}
+                      />
+                      <button
+                        type="button"
+                        className="button danger"
+                        onClick={() => removeEditHeaderRule(index)}
+                        disabled={loading}
+                      >
+                        Remove
+                      </button>
+                    </div>
+                  ))}
+                  <button
+                    type="button"
+                    className="button secondary"
+                    onClick={addEditHeaderRule}
+                    disabled={loading}
+                  >
+                    Add Header Rule
+                  </button>
+                  <p className="help-text">
+                    Header rules run in order after the CORS preset, so they can override the headers it adds.
+                  </p>
+                </div>
+
+                <div className="routes-editor">
+                  <h3>Upstream Health</h3>
+                  <label className="checkbox-label" title="Hold requests while the target is starting instead of failing them">
+                    <input
+                      type="checkbox"
+                      checked={editProxy.healthCheck?.enabled !== false}
+                      onChange={(e) => setEditProxy({ ...editProxy, healthCheck: { ...editProxy.healthCheck, enabled: e.target.checked } })}
+                      disabled={loading}
+                    />
+                    Wait for the target to start
+                  </label>
+                  <div className="form-row form-row-multi">
+                    <div className="input-group">
+                      <label htmlFor="health-path">Health Path</label>
+                      <input
+                        id="health-path"
+                        type="text"
+                        placeholder="/api/health (optional)"
+                        value={editProxy.healthCheck?.path || ''}
+                        onChange={(e) => setEditProxy({ ...editProxy, healthCheck: { ...editProxy.healthCheck, path: e.target.value || undefined } })}
+                        disabled={loading || editProxy.healthCheck?.enabled === false}
+                      />
+                    </div>
+                    <div className="input-group">
+                      <label htmlFor="health-timeout">Timeout (seconds)</label>
+                      <input
+                        id="health-timeout"
+                        type="number"
+                        min="0"
+                        placeholder="30"
+                        value={editProxy.healthCheck?.timeout !== undefined ? editProxy.healthCheck.timeout / 1000 : ''}
+                        onChange={(e) => setEditProxy({
+                          ...editProxy,
+                          healthCheck: {
+                            ...editProxy.healthCheck,
+                            timeout: e.target.value === '' ? undefined : Math.max(0, Number(e.target.value)) * 1000
+                          }
+                        })}
+                        disabled={loading || editProxy.healthCheck?.enabled === false}
+                      />
+                    </div>
+                  </div>
+                  <p className="help-text">
+                    Browsers get a page that reloads once the target is up; other requests wait up to the timeout.
+                  </p>
+                </div>
               </form>
             ) : (
               <form className="add-domain-form" onSubmit={addProxy}>
@@ -756,6 +1870,18 @@ function App() {
                           </option>
                         ))
                       }
+                      {certificates
+                        .filter(cert =>
+                          cert.domain.startsWith('*.') &&
+                          cert.isValid &&
+                          !proxies.find(p => p.domain === cert.domain)
+                        )
+                        .map(cert => (
+                          <option key={cert.domain} value={cert.domain}>
+                            {cert.domain}
+                          </option>
+                        ))
+                      }
                     </select>
                   </div>
                   <div className="input-group">
@@ -784,6 +1910,32 @@ function App() {
                       className="port-input"
                     />
                   </div>
+                  <div className="input-group">
+                    <label htmlFor="proxy-http2">Protocol</label>
+                    <label className="checkbox-label">
+                      <input
+                        id="proxy-http2"
+                        type="checkbox"
+                        checked={newProxy.http2}
+                        onChange={(e) => setNewProxy({ ...newProxy, http2: e.target.checked })}
+                        disabled={loading}
+                      />
+                      HTTP/2
+                    </label>
+                  </div>
+                  <div className="input-group">
+                    <label htmlFor="proxy-upstream">Upstream</label>
+                    <select
+                      id="proxy-upstream"
+                      value={newProxy.upstreamProtocol}
+                      onChange={(e) => setNewProxy({ ...newProxy, upstreamProtocol: e.target.value as Proxy['upstreamProtocol'] })}
+                      disabled={loading}
+                    >
+                      {Object.entries(UPSTREAM_PROTOCOL_LABELS).map(([value, label]) => (
+                        <option key={value} value={value}>{label}</option>
+                      ))}
+                    </select>
+                  </div>
                   <button
                     type="submit"
                     disabled={loading || !newProxy.domain || !newProxy.target}
@@ -794,12 +1946,37 @@ function App() {
                 </div>
                 <p className="help-text">
                   Create a secure HTTPS proxy to your local development server. Traffic to your domain will be forwarded to the target URL.
+                  With HTTP/2 enabled, browsers negotiate HTTP/2 and older clients fall back to HTTP/1.1.
+                  Choose an h2c or h2 upstream for gRPC services.
                 </p>
               </form>
             )}
 
             <div className="proxies-list">
-              <h2>Your Proxies</h2>
+              <div className="domains-header">
+                <h2>Your Proxies</h2>
+                {httpRedirect && (
+                  <label
+                    className="checkbox-label"
+                    title={`Listen on port ${httpRedirect.port} and redirect http:// requests for proxied domains to https://`}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={httpRedirect.enabled}
+                      onChange={(e) => toggleHttpRedirect(e.target.checked)}
+                      disabled={loading}
+                    />
+                    Redirect HTTP to HTTPS
+                    {httpRedirect.enabled && (
+                      <span className={`status ${httpRedirect.listening ? 'valid' : httpRedirect.error ? 'invalid' : 'warning'}`}>
+                        {httpRedirect.listening
+                          ? `Listening on :${httpRedirect.port}`
+                          : httpRedirect.error || 'Starts with the first proxy'}
+                      </span>
+                    )}
+                  </label>
+                )}
+              </div>
 
               {proxies.length === 0 ? (
                 <p className="no-data">No proxies configured yet</p>
@@ -810,6 +1987,7 @@ function App() {
                       <th>Domain</th>
                       <th>Target</th>
                       <th>Port</th>
+                      <th>Protocol</th>
                       <th>Status</th>
                       <th>Actions</th>
                     </tr>
@@ -818,12 +1996,47 @@ function App() {
                     {proxies.map((proxy) => (
                       <tr key={proxy.domain}>
                         <td>{proxy.domain}</td>
-                        <td>{proxy.target}</td>
+                        <td>
+                          {proxy.target}
+                          {proxy.routes && proxy.routes.length > 0 && (
+                            <div className="route-summary">
+                              {proxy.routes.map((route, index) => (
+                                <div key={index}>{route.path} → {route.target}</div>
+                              ))}
+                            </div>
+                          )}
+                          {(proxy.cors || (proxy.headerRules && proxy.headerRules.length > 0)) && (
+                            <div className="route-summary">
+                              {[
+                                proxy.cors ? 'CORS' : '',
+                                proxy.headerRules?.length ? `${proxy.headerRules.length} header rule${proxy.headerRules.length === 1 ? '' : 's'}` : ''
+                              ].filter(Boolean).join(' · ')}
+                            </div>
+                          )}
+                        </td>
                         <td>{proxy.port}</td>
+                        <td>
+                          {proxy.http2 || (proxy.upstreamProtocol && proxy.upstreamProtocol !== 'http1') ? 'HTTP/2' : 'HTTP/1.1'}
+                          {proxy.upstreamProtocol && proxy.upstreamProtocol !== 'http1' && ` → ${UPSTREAM_PROTOCOL_LABELS[proxy.upstreamProtocol]}`}
+                        </td>
                         <td>
                           <span className={`status ${proxy.isRunning ? 'valid' : 'warning'}`}>
                             {proxy.isRunning ? 'Running' : 'Stopped'}
                           </span>
+                          {proxy.isRunning && upstreamHealth[proxy.domain]?.some(upstream => !upstream.healthy) && (
+                            <span
+                              className="status warning"
+                              title={upstreamHealth[proxy.domain]
+                                .filter(upstream => !upstream.healthy)
+                                .map(upstream => `${upstream.target}: ${upstream.error || 'unreachable'}`)
+                                .join('\n')}
+                            >
+                              Upstream down
+                            </span>
+                          )}
+                          {proxy.chaos?.enabled && (
+                            <span className="status invalid" title="Latency or faults are being injected">Chaos</span>
+                          )}
                         </td>
                         <td className="actions-cell">
                           {proxy.isRunning ? (
@@ -845,6 +2058,27 @@ function App() {
                               Start
                             </button>
                           )}
+                          <button
+                            onClick={() => toggleChaosPanel(proxy)}
+                            className={`button ${chaosDomain === proxy.domain ? 'primary' : 'secondary'}`}
+                            title="Inject latency and faults"
+                          >
+                            Chaos
+                          </button>
+                          <button
+                            onClick={() => toggleMocksPanel(proxy.domain)}
+                            className={`button ${mocksDomain === proxy.domain ? 'primary' : 'secondary'}`}
+                            title="Answer selected requests with canned responses"
+                          >
+                            Mocks{proxy.mocks && proxy.mocks.length > 0 ? ` (${proxy.mocks.length})` : ''}
+                          </button>
+                          <button
+                            onClick={() => toggleTrafficPanel(proxy.domain)}
+                            className={`button ${trafficDomain === proxy.domain ? 'primary' : 'secondary'}`}
+                            title="Inspect requests going through this proxy"
+                          >
+                            Traffic
+                          </button>
                           <button
                             onClick={() => setEditProxy(proxy)}
                             className="button secondary"
@@ -868,6 +2102,459 @@ function App() {
                 </table>
               )}
             </div>
+
+            {chaosProxy && (
+              <div className="traffic-panel">
+                <div className="domains-header">
+                  <h2>Chaos for {chaosProxy.domain}</h2>
+                  <label className="checkbox-label">
+                    <input
+                      type="checkbox"
+                      checked={!!chaosProxy.chaos?.enabled}
+                      onChange={(e) => saveChaos(chaosProxy.domain, formToChaos(e.target.checked, chaosForm))}
+                      disabled={loading}
+                    />
+                    Inject faults
+                  </label>
+                </div>
+
+                <form
+                  className="chaos-form"
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    saveChaos(chaosProxy.domain, formToChaos(!!chaosProxy.chaos?.enabled, chaosForm));
+                  }}
+                >
+                  <div className="chaos-row">
+                    <label className="checkbox-label">
+                      <input
+                        type="checkbox"
+                        checked={chaosForm.latency}
+                        onChange={(e) => setChaosForm({ ...chaosForm, latency: e.target.checked })}
+                        disabled={loading}
+                      />
+                      Latency
+                    </label>
+                    <label>
+                      <input
+                        type="number"
+                        min="0"
+                        value={chaosForm.latencyFixed}
+                        onChange={(e) => setChaosForm({ ...chaosForm, latencyFixed: parseInt(e.target.value) || 0 })}
+                        disabled={loading || !chaosForm.latency}
+                      />
+                      ms
+                    </label>
+                    <label>
+                      ±
+                      <input
+                        type="number"
+                        min="0"
+                        value={chaosForm.latencyJitter}
+                        onChange={(e) => setChaosForm({ ...chaosForm, latencyJitter: parseInt(e.target.value) || 0 })}
+                        disabled={loading || !chaosForm.latency}
+                        title="Random extra delay up to this many milliseconds"
+                      />
+                      ms jitter
+                    </label>
+                    <input
+                      type="text"
+                      placeholder="All paths (e.g. /api/*, /graphql)"
+                      value={chaosForm.latencyPaths}
+                      onChange={(e) => setChaosForm({ ...chaosForm, latencyPaths: e.target.value })}
+                      disabled={loading || !chaosForm.latency}
+                    />
+                  </div>
+
+                  <div className="chaos-row">
+                    <label className="checkbox-label">
+                      <input
+                        type="checkbox"
+                        checked={chaosForm.bandwidth}
+                        onChange={(e) => setChaosForm({ ...chaosForm, bandwidth: e.target.checked })}
+                        disabled={loading}
+                      />
+                      Bandwidth
+                    </label>
+                    <label>
+                      <input
+                        type="number"
+                        min="1"
+                        value={chaosForm.kilobytesPerSecond}
+                        onChange={(e) => setChaosForm({ ...chaosForm, kilobytesPerSecond: parseFloat(e.target.value) || 1 })}
+                        disabled={loading || !chaosForm.bandwidth}
+                      />
+                      KB/s
+                    </label>
+                    <input
+                      type="text"
+                      placeholder="All paths (e.g. /api/*, /graphql)"
+                      value={chaosForm.bandwidthPaths}
+                      onChange={(e) => setChaosForm({ ...chaosForm, bandwidthPaths: e.target.value })}
+                      disabled={loading || !chaosForm.bandwidth}
+                    />
+                  </div>
+
+                  <div className="chaos-row">
+                    <label className="checkbox-label">
+                      <input
+                        type="checkbox"
+                        checked={chaosForm.errors}
+                        onChange={(e) => setChaosForm({ ...chaosForm, errors: e.target.checked })}
+                        disabled={loading}
+                      />
+                      Errors
+                    </label>
+                    <label>
+                      <input
+                        type="number"
+                        min="0"
+                        max="100"
+                        value={chaosForm.errorRate}
+                        onChange={(e) => setChaosForm({ ...chaosForm, errorRate: parseFloat(e.target.value) || 0 })}
+                        disabled={loading || !chaosForm.errors}
+                      />
+                      % as
+                    </label>
+                    <label>
+                      <input
+                        type="number"
+                        min="400"
+                        max="599"
+                        value={chaosForm.errorStatus}
+                        onChange={(e) => setChaosForm({ ...chaosForm, errorStatus: parseInt(e.target.value) || 503 })}
+                        disabled={loading || !chaosForm.errors}
+                      />
+                      status
+                    </label>
+                    <input
+                      type="text"
+                      placeholder="All paths (e.g. /api/*, /graphql)"
+                      value={chaosForm.errorPaths}
+                      onChange={(e) => setChaosForm({ ...chaosForm, errorPaths: e.target.value })}
+                      disabled={loading || !chaosForm.errors}
+                    />
+                  </div>
+
+                  <div className="chaos-row">
+                    <label className="checkbox-label">
+                      <input
+                        type="checkbox"
+                        checked={chaosForm.resets}
+                        onChange={(e) => setChaosForm({ ...chaosForm, resets: e.target.checked })}
+                        disabled={loading}
+                      />
+                      Resets
+                    </label>
+                    <label>
+                      <input
+                        type="number"
+                        min="0"
+                        max="100"
+                        value={chaosForm.resetRate}
+                        onChange={(e) => setChaosForm({ ...chaosForm, resetRate: parseFloat(e.target.value) || 0 })}
+                        disabled={loading || !chaosForm.resets}
+                      />
+                      % of connections
+                    </label>
+                    <input
+                      type="text"
+                      placeholder="All paths (e.g. /api/*, /graphql)"
+                      value={chaosForm.resetPaths}
+                      onChange={(e) => setChaosForm({ ...chaosForm, resetPaths: e.target.value })}
+                      disabled={loading || !chaosForm.resets}
+                    />
+                  </div>
+
+                  <button type="submit" className="button primary" disabled={loading}>
+                    Apply
+                  </button>
+                  <p className="help-text">
+                    Changes apply to the next request without restarting the proxy. Path patterns use * as a wildcard.
+                  </p>
+                </form>
+              </div>
+            )}
+
+            {mocksProxy && (
+              <div className="traffic-panel">
+                <div className="domains-header">
+                  <h2>Mocks for {mocksProxy.domain}</h2>
+                </div>
+
+                {(mocksProxy.mocks || []).length === 0 ? (
+                  <p className="no-data">No mocks yet; matching requests are answered here instead of by {mocksProxy.target}</p>
+                ) : (
+                  <table>
+                    <thead>
+                      <tr>
+                        <th>Enabled</th>
+                        <th>Method</th>
+                        <th>Path</th>
+                        <th>Status</th>
+                        <th>Body</th>
+                        <th>Actions</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {(mocksProxy.mocks || []).map(mock => (
+                        <tr key={mock.id} className={mock.enabled === false ? 'disabled-row' : ''}>
+                          <td>
+                            <input
+                              type="checkbox"
+                              checked={mock.enabled !== false}
+                              onChange={(e) => toggleMock(mock, e.target.checked)}
+                              disabled={loading}
+                            />
+                          </td>
+                          <td>{!mock.method || mock.method === '*' ? 'Any' : mock.method}</td>
+                          <td className="traffic-url">
+                            {mock.path}
+                            {mock.matchType && mock.matchType !== 'exact' && <span className="route-summary"> ({mock.matchType})</span>}
+                          </td>
+                          <td>{mock.status}</td>
+                          <td className="traffic-url">{mock.bodyFile ? `File: ${mock.bodyFile}` : mock.body || '-'}</td>
+                          <td className="actions-cell">
+                            <button
+                              onClick={() => editMock(mock)}
+                              className="button secondary"
+                              disabled={loading}
+                            >
+                              Edit
+                            </button>
+                            <button
+                              onClick={() => deleteMock(mocksProxy.domain, mock.id)}
+                              className="button danger"
+                              disabled={loading}
+                            >
+                              Delete
+                            </button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+
+                <form className="mock-form" onSubmit={saveMock}>
+                  <h3>{mockForm.id ? 'Edit Mock' : 'Add Mock'}</h3>
+                  <div className="form-row route-row">
+                    <select
+                      value={mockForm.method}
+                      onChange={(e) => setMockForm({ ...mockForm, method: e.target.value })}
+                      disabled={loading}
+                    >
+                      {MOCK_METHODS.map(method => (
+                        <option key={method} value={method}>{method === '*' ? 'Any' : method}</option>
+                      ))}
+                    </select>
+                    <select
+                      value={mockForm.matchType}
+                      onChange={(e) => setMockForm({ ...mockForm, matchType: e.target.value as MockForm['matchType'] })}
+                      disabled={loading}
+                    >
+                      <option value="exact">Exact</option>
+                      <option value="prefix">Prefix</option>
+                      <option value="regex">Regex</option>
+                    </select>
+                    <input
+                      type="text"
+                      placeholder={mockForm.matchType === 'regex' ? '^/api/users/[0-9]+$' : '/api/users'}
+                      value={mockForm.path}
+                      onChange={(e) => setMockForm({ ...mockForm, path: e.target.value })}
+                      disabled={loading}
+                      required
+                    />
+                    <input
+                      type="number"
+                      className="port-input"
+                      min="100"
+                      max="599"
+                      value={mockForm.status}
+                      onChange={(e) => setMockForm({ ...mockForm, status: parseInt(e.target.value) || 200 })}
+                      disabled={loading}
+                      title="Status code"
+                    />
+                  </div>
+                  <div className="input-group">
+                    <label htmlFor="mock-headers">Headers (one "Name: value" per line)</label>
+                    <textarea
+                      id="mock-headers"
+                      rows={2}
+                      placeholder="Cache-Control: no-store"
+                      value={mockForm.headers}
+                      onChange={(e) => setMockForm({ ...mockForm, headers: e.target.value })}
+                      disabled={loading}
+                    />
+                  </div>
+                  <div className="input-group">
+                    <label>
+                      Body from{' '}
+                      <select
+                        value={mockForm.bodySource}
+                        onChange={(e) => setMockForm({ ...mockForm, bodySource: e.target.value as MockForm['bodySource'] })}
+                        disabled={loading}
+                      >
+                        <option value="inline">Inline text</option>
+                        <option value="file">File</option>
+                      </select>
+                    </label>
+                    {mockForm.bodySource === 'inline' ? (
+                      <textarea
+                        rows={5}
+                        placeholder='{"users": []}'
+                        value={mockForm.body}
+                        onChange={(e) => setMockForm({ ...mockForm, body: e.target.value })}
+                        disabled={loading}
+                      />
+                    ) : (
+                      <input
+                        type="text"
+                        placeholder="mocks/users.json"
+                        value={mockForm.bodyFile}
+                        onChange={(e) => setMockForm({ ...mockForm, bodyFile: e.target.value })}
+                        disabled={loading}
+                        required
+                      />
+                    )}
+                  </div>
+                  <div className="form-row">
+                    <button type="submit" className="button primary" disabled={loading || !mockForm.path}>
+                      {mockForm.id ? 'Save Mock' : 'Add Mock'}
+                    </button>
+                    {mockForm.id && (
+                      <button
+                        type="button"
+                        className="button secondary"
+                        onClick={() => setMockForm(EMPTY_MOCK_FORM)}
+                        disabled={loading}
+                      >
+                        Cancel
+                      </button>
+                    )}
+                  </div>
+                  <p className="help-text">
+                    Mocks are checked in order before routes and apply immediately, even while the proxy runs. Body files are read on every request.
+                  </p>
+                </form>
+              </div>
+            )}
+
+            {trafficProxy && (
+              <div className="traffic-panel">
+                <div className="domains-header">
+                  <h2>Traffic for {trafficProxy.domain}</h2>
+                  <div className="traffic-controls">
+                    <label className="checkbox-label">
+                      <input
+                        type="checkbox"
+                        checked={!!trafficProxy.traffic?.enabled}
+                        onChange={(e) => updateTrafficSettings(trafficProxy.domain, { ...trafficProxy.traffic, enabled: e.target.checked })}
+                        disabled={loading}
+                      />
+                      Capture requests
+                    </label>
+                    <label className="checkbox-label" htmlFor="traffic-body-size">
+                      Max body
+                      <input
+                        id="traffic-body-size"
+                        type="number"
+                        min="0"
+                        className="port-input"
+                        defaultValue={Math.round((trafficProxy.traffic?.maxBodySize ?? DEFAULT_TRAFFIC_MAX_BODY_SIZE) / 1024)}
+                        onBlur={(e) => updateTrafficSettings(trafficProxy.domain, {
+                          enabled: !!trafficProxy.traffic?.enabled,
+                          ...trafficProxy.traffic,
+                          maxBodySize: (parseInt(e.target.value) || 0) * 1024
+                        })}
+                        disabled={loading}
+                      />
+                      KB
+                    </label>
+                    <button
+                      className="button secondary"
+                      onClick={() => clearTraffic(trafficProxy.domain)}
+                      disabled={trafficEntries.length === 0}
+                    >
+                      Clear
+                    </button>
+                    <button
+                      className="button secondary"
+                      onClick={() => exportTrafficHAR(trafficProxy.domain)}
+                      disabled={trafficEntries.length === 0}
+                    >
+                      Export HAR
+                    </button>
+                  </div>
+                </div>
+
+                {trafficEntries.length === 0 ? (
+                  <p className="no-data">
+                    {trafficProxy.traffic?.enabled ? 'Waiting for requests…' : 'Enable capture to record requests going through this proxy'}
+                  </p>
+                ) : (
+                  <table className="traffic-table">
+                    <thead>
+                      <tr>
+                        <th>Time</th>
+                        <th>Method</th>
+                        <th>URL</th>
+                        <th>Status</th>
+                        <th>Duration</th>
+                        <th>Size</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {trafficEntries.slice().reverse().map(entry => (
+                        <tr
+                          key={entry.id}
+                          className={entry.id === selectedTrafficId ? 'selected' : ''}
+                          onClick={() => setSelectedTrafficId(entry.id === selectedTrafficId ? null : entry.id)}
+                        >
+                          <td>{new Date(entry.startedAt).toLocaleTimeString()}</td>
+                          <td>{entry.method}</td>
+                          <td className="traffic-url">{entry.url}</td>
+                          <td>
+                            {entry.state === 'error' ? (
+                              <span className="status invalid" title={entry.error}>Error</span>
+                            ) : (
+                              <span className={`status ${!entry.status ? 'warning' : entry.status < 400 ? 'valid' : 'invalid'}`}>
+                                {entry.status || 'Pending'}
+                              </span>
+                            )}
+                          </td>
+                          <td>{entry.state === 'pending' ? '…' : `${entry.timings.total} ms`}</td>
+                          <td>{entry.responseBody ? formatBytes(entry.responseBody.size) : '-'}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+
+                {selectedTraffic && (
+                  <div className="traffic-detail">
+                    <p>
+                      <strong>{selectedTraffic.method} {selectedTraffic.url}</strong> → {selectedTraffic.target}
+                      {selectedTraffic.error && <span className="warning-text"> ({selectedTraffic.error})</span>}
+                    </p>
+                    <div className="traffic-detail-columns">
+                      <div>
+                        <h3>Request Headers</h3>
+                        {renderHeaders(selectedTraffic.requestHeaders)}
+                        <h3>Request Body</h3>
+                        {renderBody(selectedTraffic.requestBody)}
+                      </div>
+                      <div>
+                        <h3>Response Headers</h3>
+                        {renderHeaders(selectedTraffic.responseHeaders)}
+                        <h3>Response Body</h3>
+                        {renderBody(selectedTraffic.responseBody)}
+                      </div>
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
           </>
         )}
       </div>
@@ -0,0 +1,107 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createAdminAuthMiddleware, getAllowedHosts, loadOrCreateAdminToken, readAdminToken } from './admin-auth';
+
+const TOKEN = 'a'.repeat(64);
+
+function runMiddleware(request: { path: string; headers: { [name: string]: string } }) {
+  const middleware = createAdminAuthMiddleware({ token: TOKEN, port: 10191 });
+  const res: any = {
+    statusCode: 200,
+    body: undefined,
+    status(code: number) {
+      this.statusCode = code;
+      return this;
+    },
+    json(body: any) {
+      this.body = body;
+      return this;
+    }
+  };
+  const next = jest.fn();
+
+  middleware(request as any, res, next);
+
+  return { status: res.statusCode, body: res.body, passed: next.mock.calls.length === 1 };
+}
+
+describe('admin-auth', () => {
+  describe('loadOrCreateAdminToken', () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'navigrator-auth-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should create a private token file once and reuse it', () => {
+      const tokenFile = path.join(tempDir, 'nested', 'token');
+
+      const token = loadOrCreateAdminToken(tokenFile);
+
+      expect(token).toMatch(/^[0-9a-f]{64}$/);
+      expect(loadOrCreateAdminToken(tokenFile)).toBe(token);
+      expect(readAdminToken(tokenFile)).toBe(token);
+      if (process.platform !== 'win32') {
+        expect(fs.statSync(tokenFile).mode & 0o777).toBe(0o600);
+      }
+    });
+
+    it('should return null when there is no token file', () => {
+      expect(readAdminToken(path.join(tempDir, 'missing'))).toBeNull();
+    });
+  });
+
+  describe('getAllowedHosts', () => {
+    it('should allow loopback names plus a specific bind address', () => {
+      expect(getAllowedHosts(10191)).toEqual(['localhost:10191', '127.0.0.1:10191', '[::1]:10191']);
+      expect(getAllowedHosts(10191, '0.0.0.0')).toHaveLength(3);
+      expect(getAllowedHosts(10191, '192.168.1.10')).toContain('192.168.1.10:10191');
+    });
+  });
+
+  describe('createAdminAuthMiddleware', () => {
+    it('should let API requests with the token through', () => {
+      expect(runMiddleware({ path: '/api/hosts', headers: { host: 'localhost:10191', 'x-navigrator-token': TOKEN } }).passed).toBe(true);
+      expect(runMiddleware({ path: '/api/hosts', headers: { host: '127.0.0.1:10191', authorization: `Bearer ${TOKEN}` } }).passed).toBe(true);
+    });
+
+    it('should reject API requests without a valid token', () => {
+      expect(runMiddleware({ path: '/api/hosts', headers: { host: 'localhost:10191' } }).status).toBe(401);
+      expect(runMiddleware({ path: '/api/hosts', headers: { host: 'localhost:10191', 'x-navigrator-token': 'wrong' } }).status).toBe(401);
+    });
+
+    it('should require the token whatever the case of the API path', () => {
+      expect(runMiddleware({ path: '/API/hosts', headers: { host: 'localhost:10191' } }).status).toBe(401);
+      expect(runMiddleware({ path: '/Api', headers: { host: 'localhost:10191' } }).status).toBe(401);
+    });
+
+    it('should serve the user interface without a token', () => {
+      expect(runMiddleware({ path: '/', headers: { host: 'localhost:10191' } }).passed).toBe(true);
+    });
+
+    it('should reject unexpected hosts to prevent DNS rebinding', () => {
+      const result = runMiddleware({ path: '/', headers: { host: 'evil.example:10191' } });
+
+      expect(result.status).toBe(403);
+      expect(result.body.error).toContain('evil.example');
+    });
+
+    it('should reject cross-origin requests even with the token', () => {
+      const result = runMiddleware({
+        path: '/api/hosts',
+        headers: { host: 'localhost:10191', origin: 'https://evil.example', 'x-navigrator-token': TOKEN }
+      });
+
+      expect(result.status).toBe(403);
+      expect(runMiddleware({
+        path: '/api/hosts',
+        headers: { host: 'localhost:10191', origin: 'http://localhost:10191', 'x-navigrator-token': TOKEN }
+      }).passed).toBe(true);
+    });
+  });
+});
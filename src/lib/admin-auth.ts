@@ -0,0 +1,116 @@
+import * as crypto from 'crypto';
+import express from 'express';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+/**
+ * Header carrying the session token on admin API requests; `Authorization: Bearer <token>` works too
+ */
+export const ADMIN_TOKEN_HEADER = 'x-navigrator-token';
+
+export const DEFAULT_TOKEN_FILE = path.join(os.homedir(), '.navigrator', 'token');
+
+/**
+ * Hostnames the admin server answers to on top of the address it is bound to
+ */
+const LOOPBACK_HOSTNAMES = ['localhost', '127.0.0.1', '[::1]'];
+
+export interface AdminAuthOptions {
+  token: string;
+  port: number;
+  /** Address the server is bound to; a specific one (e.g. a LAN IP) is accepted as a Host as well */
+  host?: string;
+}
+
+/**
+ * Read the token CLI clients use to call the admin API, or null when the server hasn't created one yet
+ */
+export function readAdminToken(tokenFile: string = DEFAULT_TOKEN_FILE): string | null {
+  try {
+    const token = fs.readFileSync(tokenFile, 'utf8').trim();
+    return token || null;
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Read the admin token, creating it (readable by the owner only) on first use
+ */
+export function loadOrCreateAdminToken(tokenFile: string = DEFAULT_TOKEN_FILE): string {
+  const existing = readAdminToken(tokenFile);
+  if (existing) {
+    // Tighten permissions in case the file was copied around
+    fs.chmodSync(tokenFile, 0o600);
+    return existing;
+  }
+
+  const token = crypto.randomBytes(32).toString('hex');
+  fs.mkdirSync(path.dirname(tokenFile), { recursive: true });
+  fs.writeFileSync(tokenFile, `${token}\n`, { mode: 0o600 });
+  return token;
+}
+
+/**
+ * The `host:port` values accepted in the Host header, guarding against DNS rebinding
+ */
+export function getAllowedHosts(port: number, host?: string): string[] {
+  const hostnames = [...LOOPBACK_HOSTNAMES];
+  if (host && !['0.0.0.0', '::', '127.0.0.1', '::1', 'localhost'].includes(host)) {
+    hostnames.push(host.includes(':') ? `[${host}]` : host);
+  }
+  return hostnames.map(hostname => `${hostname}:${port}`);
+}
+
+function tokensMatch(expected: string, received: unknown): boolean {
+  if (typeof received !== 'string') return false;
+
+  const a = Buffer.from(expected);
+  const b = Buffer.from(received);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+/**
+ * Get the token sent with a request, from the Navigrator header or a bearer Authorization header
+ */
+function getRequestToken(req: express.Request): string | undefined {
+  const header = req.headers[ADMIN_TOKEN_HEADER];
+  if (typeof header === 'string') return header;
+
+  const authorization = req.headers.authorization;
+  if (authorization?.startsWith('Bearer ')) return authorization.slice(7).trim();
+
+  return undefined;
+}
+
+/**
+ * Reject requests for unexpected hosts or from other origins, and API requests without the session token
+ */
+export function createAdminAuthMiddleware(options: AdminAuthOptions): express.RequestHandler {
+  const allowedHosts = getAllowedHosts(options.port, options.host);
+  const allowedOrigins = allowedHosts.map(host => `http://${host}`);
+
+  return (req, res, next) => {
+    const host = (req.headers.host || '').toLowerCase();
+    if (!allowedHosts.includes(host)) {
+      res.status(403).json({ success: false, error: `Host ${req.headers.host || '(none)'} is not allowed` });
+      return;
+    }
+
+    // Browsers send Origin on cross-site requests; only the UI itself may call in
+    const origin = req.headers.origin;
+    if (origin !== undefined && !allowedOrigins.includes(origin.toLowerCase())) {
+      res.status(403).json({ success: false, error: `Origin ${origin} is not allowed` });
+      return;
+    }
+
+    // Express matches routes case-insensitively, so /API/hosts reaches the same handler as /api/hosts
+    if (/^\/api(\/|$)/i.test(req.path) && !tokensMatch(options.token, getRequestToken(req))) {
+      res.status(401).json({ success: false, error: 'Missing or invalid Navigrator token' });
+      return;
+    }
+
+    next();
+  };
+}
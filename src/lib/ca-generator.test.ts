@@ -0,0 +1,115 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CAGenerator } from './ca-generator';
+import { CAOptions, CertificateBackend } from './certificate-backend';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('CAGenerator', () => {
+  let certsDir: string;
+  let caDir: string;
+  let intermediateValidTo: Date;
+  let backend: { [method in keyof CertificateBackend]: jest.Mock } & CertificateBackend;
+
+  // The backend writes the name of the CA into its files
+  const write = async (options: CAOptions) => {
+    fs.writeFileSync(options.keyPath, `key of ${options.subject.commonName}`);
+    fs.writeFileSync(options.certPath, `certificate of ${options.subject.commonName}`);
+  };
+
+  beforeEach(() => {
+    certsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'navigrator-ca-'));
+    caDir = path.join(certsDir, 'ca');
+    fs.mkdirSync(caDir);
+    intermediateValidTo = new Date(Date.now() + 1825 * DAY);
+
+    backend = {
+      name: 'node',
+      label: 'Test',
+      isAvailable: jest.fn().mockResolvedValue(true),
+      generateCA: jest.fn().mockImplementation(write),
+      generateIntermediateCA: jest.fn().mockImplementation(write),
+      issueCertificate: jest.fn(),
+      readCertificate: jest.fn().mockImplementation(async () => ({
+        validFrom: new Date(),
+        validTo: intermediateValidTo,
+        issuer: 'Navigrator Local CA',
+        subjectAltNames: [],
+        chain: []
+      }))
+    } as any;
+
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    fs.rmSync(certsDir, { recursive: true, force: true });
+    jest.restoreAllMocks();
+    delete process.env.NAVIGRATOR_CA_PASSPHRASE;
+  });
+
+  const read = (file: string) => fs.readFileSync(path.join(caDir, file), 'utf-8');
+
+  it('should create the root CA and an intermediate CA signed by it', async () => {
+    process.env.NAVIGRATOR_CA_PASSPHRASE = 'correct horse';
+    const generator = new CAGenerator(certsDir, backend);
+
+    await generator.generateCA();
+
+    expect(backend.generateCA).toHaveBeenCalledWith(expect.objectContaining({
+      keyPath: path.join(caDir, 'rootCA.key'), days: 3650, passphrase: 'correct horse'
+    }));
+    expect(backend.generateIntermediateCA).toHaveBeenCalledWith(expect.objectContaining({
+      caKeyPath: path.join(caDir, 'rootCA.key'), caKeyPassphrase: 'correct horse', days: 1825
+    }));
+    expect(backend.generateIntermediateCA.mock.calls[0][0].passphrase).toBeUndefined();
+    expect(read('intermediateCA.crt')).toBe('certificate of Navigrator Intermediate CA');
+    expect(fs.readdirSync(caDir).sort()).toEqual(['intermediateCA.crt', 'intermediateCA.key', 'rootCA.crt', 'rootCA.key']);
+  });
+
+  it('should keep an intermediate CA that outlives any certificate it can issue', async () => {
+    const generator = new CAGenerator(certsDir, backend);
+    await generator.generateCA();
+    jest.spyOn(generator, 'isIssuedByRoot').mockResolvedValue(true);
+
+    expect(await generator.ensureIntermediateCA()).toBe(false);
+
+    intermediateValidTo = new Date(Date.now() + 400 * DAY);
+    expect(await generator.ensureIntermediateCA()).toBe(true);
+    expect(backend.generateIntermediateCA).toHaveBeenCalledTimes(2);
+  });
+
+  it('should replace an intermediate CA that the root CA didn\'t sign', async () => {
+    const generator = new CAGenerator(certsDir, backend);
+    await generator.generateCA();
+    const isIssuedByRoot = jest.spyOn(generator, 'isIssuedByRoot').mockResolvedValue(false);
+
+    expect(await generator.ensureIntermediateCA()).toBe(true);
+    expect(isIssuedByRoot).toHaveBeenCalledWith(path.join(caDir, 'intermediateCA.crt'));
+  });
+
+  it('should work with the root CA key kept offline until the intermediate CA needs replacing', async () => {
+    const generator = new CAGenerator(certsDir, backend);
+    await generator.generateCA();
+    fs.unlinkSync(path.join(caDir, 'rootCA.key'));
+
+    expect(await generator.checkCAExists()).toBe(true);
+    await expect(generator.rotateIntermediateCA()).rejects.toThrow('The root CA key');
+    expect(read('intermediateCA.crt')).toBe('certificate of Navigrator Intermediate CA');
+  });
+
+  it('should keep the current intermediate CA when creating a new one fails', async () => {
+    const generator = new CAGenerator(certsDir, backend);
+    await generator.generateCA();
+    backend.generateIntermediateCA.mockImplementationOnce(async (options: CAOptions) => {
+      fs.writeFileSync(options.keyPath, 'half-written key');
+      throw new Error('disk full');
+    });
+
+    await expect(generator.rotateIntermediateCA()).rejects.toThrow('Failed to create the intermediate CA: disk full');
+
+    expect(read('intermediateCA.key')).toBe('key of Navigrator Intermediate CA');
+    expect(fs.readdirSync(caDir).sort()).toEqual(['intermediateCA.crt', 'intermediateCA.key', 'rootCA.crt', 'rootCA.key']);
+  });
+});
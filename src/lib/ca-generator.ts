@@ -1,34 +1,53 @@
-import { exec } from 'child_process';
 import * as fs from 'fs/promises';
 import * as os from 'os';
 import * as path from 'path';
-import { promisify } from 'util';
+import {
+  CA_COMMON_NAME, CertificateBackend, createCertificateBackend, createSubject, getCAPassphrase, INTERMEDIATE_CA_COMMON_NAME,
+  verifyCertificateChain
+} from './certificate-backend';
+import { CA_PROFILE, getProfileKeyOptions, INTERMEDIATE_CA_PROFILE, MAX_VALIDITY_DAYS } from './certificate-profiles';
 
-const execAsync = promisify(exec);
+const DAY = 24 * 60 * 60 * 1000;
+
+export interface CAPaths {
+  keyPath: string;
+  certPath: string;
+  /** The intermediate CA signed by the root, which issues the server certificates */
+  intermediateKeyPath: string;
+  intermediateCertPath: string;
+}
 
 export class CAGenerator {
   private certsDir: string;
   private caDir: string;
   private caKeyPath: string;
   private caCertPath: string;
+  private intermediateKeyPath: string;
+  private intermediateCertPath: string;
+  private backend: CertificateBackend;
 
-  constructor(certsDir?: string) {
+  constructor(certsDir?: string, backend: CertificateBackend = createCertificateBackend()) {
     this.certsDir = certsDir || path.join(os.homedir(), '.navigrator', 'certs');
     this.caDir = path.join(this.certsDir, 'ca');
     this.caKeyPath = path.join(this.caDir, 'rootCA.key');
     this.caCertPath = path.join(this.caDir, 'rootCA.crt');
+    this.intermediateKeyPath = path.join(this.caDir, 'intermediateCA.key');
+    this.intermediateCertPath = path.join(this.caDir, 'intermediateCA.crt');
+    this.backend = backend;
   }
 
   /**
-   * Check if OpenSSL is installed on the system
+   * Check if the certificate backend can run (OpenSSL must be installed to use it)
    */
-  public async checkOpenSSLInstalled(): Promise<boolean> {
-    try {
-      await execAsync('openssl version');
-      return true;
-    } catch (error) {
-      return false;
-    }
+  public async checkBackendAvailable(): Promise<boolean> {
+    return this.backend.isAvailable();
+  }
+
+  /**
+   * Human-readable name of the certificate backend, for messages
+   */
+  public getBackendLabel(): string {
+    return this.backend.label;
   }
 
   /**
@@ -46,37 +65,45 @@ export class CAGenerator {
   }
 
   /**
-   * Check if the CA certificate exists
+   * Check if the CA certificate exists. Its key may be kept offline once the intermediate CA exists
    */
   public async checkCAExists(): Promise<boolean> {
     try {
-      await fs.access(this.caKeyPath);
       await fs.access(this.caCertPath);
-      return true;
     } catch (error) {
       return false;
     }
+
+    return await this.fileExists(this.caKeyPath) || await this.checkIntermediateCAExists();
   }
 
   /**
-   * Generate a local CA to sign certificates
+   * Check if the intermediate CA key and certificate exist
+   */
+  public async checkIntermediateCAExists(): Promise<boolean> {
+    return await this.fileExists(this.intermediateKeyPath) && await this.fileExists(this.intermediateCertPath);
+  }
+
+  /**
+   * Generate a local CA to sign certificates, along with the intermediate CA that issues them
    */
   public async generateCA(): Promise<{ keyPath: string; certPath: string }> {
     try {
       // Check if CA already exists
       const caExists = await this.checkCAExists();
-      if (caExists) {
-        return { keyPath: this.caKeyPath, certPath: this.caCertPath };
+      if (!caExists) {
+        // Create the CA key and certificate (valid for 10 years), encrypted if a passphrase is set
+        await this.backend.generateCA({
+          keyPath: this.caKeyPath,
+          certPath: this.caCertPath,
+          subject: createSubject(CA_COMMON_NAME, CA_PROFILE.organization, CA_PROFILE.organizationalUnit),
+          days: CA_PROFILE.validityDays,
+          key: getProfileKeyOptions(CA_PROFILE),
+          passphrase: getCAPassphrase()
+        });
       }
 
-      // Create private key for the CA
-      await execAsync(`openssl genrsa -out "${this.caKeyPath}" 4096`);
-
-      // Create certificate for the CA (valid for 10 years)
-      await execAsync(
-        `openssl req -x509 -new -nodes -key "${this.caKeyPath}" -sha256 -days 3650 ` +
-        `-out "${this.caCertPath}" -subj "/CN=Navigrator Local CA/O=Axlotl Lab/OU=Development"`
-      );
+      await this.ensureIntermediateCA();
 
       return { keyPath: this.caKeyPath, certPath: this.caCertPath };
     } catch (error: any) {
@@ -85,10 +112,103 @@ export class CAGenerator {
     }
   }
 
+  /**
+   * Replace the root CA and its intermediate with new ones. Certificates issued by the current ones must be re-issued
+   */
+  public async replaceCA(): Promise<{ keyPath: string; certPath: string }> {
+    for (const file of [this.caKeyPath, this.caCertPath, this.intermediateKeyPath, this.intermediateCertPath]) {
+      await fs.unlink(file).catch(() => undefined);
+    }
+
+    return this.generateCA();
+  }
+
+  /**
+   * Whether a certificate file (a certificate followed by its chain) was issued, directly or through the chain, by the
+   * current root CA
+   */
+  public async isIssuedByRoot(certPath: string): Promise<boolean> {
+    try {
+      return verifyCertificateChain(await fs.readFile(certPath, 'utf-8'), await fs.readFile(this.caCertPath, 'utf-8'));
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Create the intermediate CA if it is missing, unreadable, signed by another root CA or too close to expiring to
+   * outlive the certificates it would issue. Returns whether a new one was created
+   */
+  public async ensureIntermediateCA(): Promise<boolean> {
+    if (await this.checkIntermediateCAExists()) {
+      try {
+        const { validTo } = await this.backend.readCertificate(this.intermediateCertPath);
+        if (await this.isIssuedByRoot(this.intermediateCertPath) && validTo.getTime() - Date.now() > MAX_VALIDITY_DAYS * DAY) {
+          return false;
+        }
+      } catch (error) {
+        console.error('Error reading the intermediate CA certificate:', error);
+      }
+    }
+
+    await this.rotateIntermediateCA();
+    return true;
+  }
+
+  /**
+   * Replace the intermediate CA with a new one signed by the root CA. Certificates issued by the previous one stay
+   * valid, as they carry it in their chain
+   */
+  public async rotateIntermediateCA(): Promise<CAPaths> {
+    if (!await this.fileExists(this.caKeyPath)) {
+      throw new Error(`The root CA key (${this.caKeyPath}) is needed to create the intermediate CA. Restore it and try again`);
+    }
+
+    // Write next to the current files and swap them in once both exist, so a failure leaves the current one in place
+    const keyPath = `${this.intermediateKeyPath}.new`;
+    const certPath = `${this.intermediateCertPath}.new`;
+
+    try {
+      await this.backend.generateIntermediateCA({
+        keyPath,
+        certPath,
+        caKeyPath: this.caKeyPath,
+        caCertPath: this.caCertPath,
+        caKeyPassphrase: getCAPassphrase(),
+        subject: createSubject(INTERMEDIATE_CA_COMMON_NAME, INTERMEDIATE_CA_PROFILE.organization, INTERMEDIATE_CA_PROFILE.organizationalUnit),
+        days: INTERMEDIATE_CA_PROFILE.validityDays,
+        key: getProfileKeyOptions(INTERMEDIATE_CA_PROFILE)
+      });
+
+      await fs.rename(keyPath, this.intermediateKeyPath);
+      await fs.rename(certPath, this.intermediateCertPath);
+    } catch (error: any) {
+      await fs.unlink(keyPath).catch(() => undefined);
+      await fs.unlink(certPath).catch(() => undefined);
+      throw new Error(`Failed to create the intermediate CA: ${error?.message}`);
+    }
+
+    return this.getCAPaths();
+  }
+
   /**
    * Get the paths to the CA files
    */
-  public getCAPaths(): { keyPath: string; certPath: string } {
-    return { keyPath: this.caKeyPath, certPath: this.caCertPath };
+  public getCAPaths(): CAPaths {
+    return {
+      keyPath: this.caKeyPath,
+      certPath: this.caCertPath,
+      intermediateKeyPath: this.intermediateKeyPath,
+      intermediateCertPath: this.intermediateCertPath
+    };
+  }
+
+  private async fileExists(filePath: string): Promise<boolean> {
+    try {
+      await fs.access(filePath);
+      return true;
+    } catch (error) {
+      return false;
+    }
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,208 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CAInstaller } from './ca-installer';
+import { createSubject, getCertificateFingerprint } from './certificate-backend';
+import { NodeCertificateBackend } from './node-certificate-backend';
+
+jest.mock('os', () => ({
+  ...jest.requireActual('os'),
+  platform: jest.fn(),
+  homedir: jest.fn()
+}));
+
+describe('CAInstaller', () => {
+  let homeDir: string;
+
+  const createInstaller = (run: jest.Mock) => new CAInstaller(path.join(homeDir, 'certs'), run, {} as any);
+
+  /**
+   * A root CA like the one Navigrator creates, at certs/ca/rootCA.crt
+   */
+  const createCA = async () => {
+    const caDir = path.join(homeDir, 'certs', 'ca');
+    fs.mkdirSync(caDir, { recursive: true });
+    await new NodeCertificateBackend().generateCA({
+      keyPath: path.join(caDir, 'rootCA.key'),
+      certPath: path.join(caDir, 'rootCA.crt'),
+      subject: createSubject('Navigrator Local CA'),
+      days: 1,
+      key: { type: 'ecdsa', curve: 'P-256' }
+    });
+    return fs.readFileSync(path.join(caDir, 'rootCA.crt'), 'utf-8');
+  };
+
+  beforeEach(() => {
+    homeDir = fs.mkdtempSync(path.join(os.tmpdir(), 'navigrator-installer-'));
+    (os.homedir as jest.Mock).mockReturnValue(homeDir);
+  });
+
+  afterEach(() => {
+    fs.rmSync(homeDir, { recursive: true, force: true });
+  });
+
+  describe('uninstallCA', () => {
+    it('should delete every Navigrator CA from the macOS System Keychain', async () => {
+      (os.platform as jest.Mock).mockReturnValue('darwin');
+      const run = jest.fn().mockImplementation(async (command: string, args: string[]) => ({
+        stdout: args[0] === 'find-certificate'
+          ? 'SHA-256 hash: 00FF\nSHA-1 hash: 9a8b7c\nkeychain: "/Library/Keychains/System.keychain"\nSHA-1 hash: 1A2B3C\n'
+          : '',
+        stderr: ''
+      }));
+
+      const result = await createInstaller(run).uninstallCA();
+
+      expect(result.success).toBe(true);
+      expect(run).toHaveBeenCalledWith('security', ['find-certificate', '-a', '-Z', '-c', 'Navigrator Local CA', '/Library/Keychains/System.keychain']);
+      expect(run).toHaveBeenCalledWith('sudo', ['security', 'delete-certificate', '-Z', '9A8B7C', '/Library/Keychains/System.keychain'], { timeout: 0 });
+      expect(run).toHaveBeenCalledWith('sudo', ['security', 'delete-certificate', '-Z', '1A2B3C', '/Library/Keychains/System.keychain'], { timeout: 0 });
+    });
+
+    it('should succeed without changes when Windows doesn\'t trust the CA', async () => {
+      (os.platform as jest.Mock).mockReturnValue('win32');
+      const run = jest.fn().mockRejectedValue(new Error('certutil failed with exit code 1'));
+
+      const result = await createInstaller(run).uninstallCA();
+
+      expect(result.success).toBe(true);
+      expect(run).toHaveBeenCalledTimes(1);
+      expect(run).toHaveBeenCalledWith('certutil', ['-store', 'ROOT', 'Navigrator Local CA']);
+    });
+
+    it('should ask for administrator privileges when certutil is denied', async () => {
+      (os.platform as jest.Mock).mockReturnValue('win32');
+      const run = jest.fn()
+        .mockResolvedValueOnce({ stdout: '', stderr: '' })
+        .mockRejectedValueOnce(new Error('certutil failed with exit code 5: Access is denied.'));
+
+      const result = await createInstaller(run).uninstallCA();
+
+      expect(result).toEqual({ success: false, message: expect.stringContaining('Administrator privileges required'), browsers: [] });
+      expect(run).toHaveBeenLastCalledWith('certutil', ['-delstore', 'ROOT', 'Navigrator Local CA']);
+    });
+  });
+
+  describe('uninstallCertificate', () => {
+    it('should only delete the keychain entry of the given certificate', async () => {
+      const certificate = await createCA();
+      const fingerprint = getCertificateFingerprint(certificate);
+      (os.platform as jest.Mock).mockReturnValue('darwin');
+      const run = jest.fn().mockResolvedValue({ stdout: `SHA-1 hash: ${fingerprint}\nSHA-1 hash: 1A2B3C\n`, stderr: '' });
+
+      await createInstaller(run).uninstallCertificate(certificate);
+
+      expect(fingerprint).toMatch(/^[0-9A-F]{40}$/);
+      expect(run).toHaveBeenCalledTimes(2);
+      expect(run).toHaveBeenLastCalledWith('sudo', ['security', 'delete-certificate', '-Z', fingerprint, '/Library/Keychains/System.keychain'], { timeout: 0 });
+    });
+  });
+
+  describe('browsers', () => {
+    const nssdb = () => `sql:${path.join(homeDir, '.pki', 'nssdb')}`;
+
+    beforeEach(() => {
+      (os.platform as jest.Mock).mockReturnValue('linux');
+      fs.mkdirSync(path.join(homeDir, '.pki', 'nssdb'), { recursive: true });
+      fs.writeFileSync(path.join(homeDir, '.pki', 'nssdb', 'cert9.db'), '');
+    });
+
+    it('should replace a previous CA in the Chromium database', async () => {
+      const previous = await createCA();
+      const current = await createCA();
+      const list = jest.fn().mockResolvedValue({ stdout: previous, stderr: '' });
+      const run = jest.fn().mockImplementation(async (command: string, args: string[]) =>
+        args[0] === '-L' ? list() : { stdout: '', stderr: '' });
+
+      const results = await createInstaller(run).installInBrowsers();
+
+      expect(results).toEqual([{
+        browser: 'Chromium', profile: 'nssdb', directory: path.join(homeDir, '.pki', 'nssdb'), success: true, message: 'CA certificate installed'
+      }]);
+      expect(run).toHaveBeenCalledWith('certutil', ['-D', '-d', nssdb(), '-n', 'Navigrator Local CA']);
+      expect(run).toHaveBeenLastCalledWith('certutil', [
+        '-A', '-d', nssdb(), '-t', 'C,,', '-n', 'Navigrator Local CA', '-i', path.join(homeDir, 'certs', 'ca', 'rootCA.crt')
+      ]);
+
+      expect(await createInstaller(run).getBrowserTrustStatus()).toEqual([expect.objectContaining({ status: 'fingerprint-mismatch' })]);
+      list.mockResolvedValue({ stdout: previous + current, stderr: '' });
+      expect(await createInstaller(run).getBrowserTrustStatus()).toEqual([expect.objectContaining({ status: 'installed' })]);
+      list.mockRejectedValue(new Error('certutil: could not find certificate named "Navigrator Local CA"'));
+      expect(await createInstaller(run).getBrowserTrustStatus()).toEqual([expect.objectContaining({ status: 'missing' })]);
+    });
+
+    it('should report each profile when certutil is not installed', async () => {
+      const run = jest.fn().mockRejectedValue(new Error('which failed with exit code 1'));
+
+      const results = await createInstaller(run).uninstallFromBrowsers();
+
+      expect(results).toEqual([expect.objectContaining({ profile: 'nssdb', success: false, message: expect.stringContaining('libnss3-tools') })]);
+      expect(run).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('installMissing', () => {
+    beforeEach(() => {
+      (os.platform as jest.Mock).mockReturnValue('darwin');
+    });
+
+    it('should not ask for privileges when the keychain already trusts the CA', async () => {
+      const fingerprint = getCertificateFingerprint(await createCA());
+      const run = jest.fn().mockResolvedValue({ stdout: `SHA-1 hash: ${fingerprint}\n`, stderr: '' });
+
+      const result = await createInstaller(run).installMissing();
+
+      expect(result).toEqual({ success: true, message: 'CA certificate is already trusted by the system.' });
+      expect(run).not.toHaveBeenCalledWith('sudo', expect.anything(), expect.anything());
+    });
+
+    it('should install a CA that replaced the one in the keychain', async () => {
+      await createCA();
+      const run = jest.fn().mockResolvedValue({ stdout: 'SHA-1 hash: 1A2B3C\n', stderr: '' });
+      const installer = createInstaller(run);
+
+      const { stores } = await installer.getTrustStatus();
+      await installer.installMissing();
+
+      expect(stores[0]).toEqual({ kind: 'system', name: 'macOS System Keychain', status: 'fingerprint-mismatch', path: '/Library/Keychains/System.keychain' });
+      expect(run).toHaveBeenCalledWith('sudo', expect.arrayContaining(['add-trusted-cert']), { timeout: 0 });
+    });
+  });
+
+  describe('installRuntimeTrust', () => {
+    beforeEach(() => {
+      (os.platform as jest.Mock).mockReturnValue('linux');
+    });
+
+    it('should write a CA bundle and a shell file pointing the runtimes at it', async () => {
+      const certificate = await createCA();
+      const run = jest.fn();
+
+      const result = await createInstaller(run).installRuntimeTrust();
+
+      const bundlePath = path.join(homeDir, 'trust', 'ca-bundle.pem');
+      expect(result).toEqual(expect.objectContaining({ success: true, bundlePath, envFilePath: path.join(homeDir, 'trust', 'env.sh') }));
+      expect(fs.readFileSync(bundlePath, 'utf-8').endsWith(certificate)).toBe(true);
+      expect(fs.readFileSync(path.join(homeDir, 'trust', 'env.sh'), 'utf-8')).toContain(
+        `export NODE_EXTRA_CA_CERTS='${path.join(homeDir, 'certs', 'ca', 'rootCA.crt')}'\nexport REQUESTS_CA_BUNDLE='${bundlePath}'`
+      );
+      expect(run).not.toHaveBeenCalled();
+    });
+
+    it('should import the CA into a Java keystore without passing the password as an argument', async () => {
+      await createCA();
+      const run = jest.fn().mockImplementation(async (command: string, args: string[]) => {
+        if (args[0] === '-delete') throw new Error('keytool error: Alias <navigrator-local-ca> does not exist');
+        return { stdout: '', stderr: '' };
+      });
+
+      const result = await createInstaller(run).installRuntimeTrust({ javaKeystore: '/opt/jdk/lib/security/cacerts', keystorePassword: 's3cret' });
+
+      expect(result.javaKeystore).toEqual({ success: true, message: 'CA certificate imported into /opt/jdk/lib/security/cacerts as "navigrator-local-ca"' });
+      expect(run).toHaveBeenLastCalledWith('keytool', [
+        '-importcert', '-noprompt', '-trustcacerts', '-file', path.join(homeDir, 'certs', 'ca', 'rootCA.crt'),
+        '-alias', 'navigrator-local-ca', '-keystore', '/opt/jdk/lib/security/cacerts', '-storepass:env', 'NAVIGRATOR_KEYSTORE_PASSWORD'
+      ], { env: { NAVIGRATOR_KEYSTORE_PASSWORD: 's3cret' } });
+    });
+  });
+});
@@ -1,49 +1,140 @@
-import { exec } from 'child_process';
 import * as fs from 'fs';
 import * as os from 'os';
 import * as path from 'path';
-import { promisify } from 'util';
 import { CAGenerator } from './ca-generator';
+import {
+  CA_COMMON_NAME, CertificateBackend, createCertificateBackend, getCertificateFingerprint, splitPemCertificates
+} from './certificate-backend';
+import { CommandOptions, commandSucceeds, CommandRunner, runCommand } from './command-runner';
+import { findNSSDatabases, getCertutilDatabaseArgument, NSSDatabase } from './nss-databases';
+import { buildCABundle, formatEnvFile, getRuntimeTrustStatus, readSystemCABundle, RUNTIME_TRUST_VARIABLES } from './runtime-trust';
 
-const execAsync = promisify(exec);
+/**
+ * Where the CA is installed on Linux, and the command that rebuilds the trusted bundle from it
+ */
+const LINUX_TRUST_ANCHORS = [
+  { path: '/usr/local/share/ca-certificates/navigrator-root-ca.crt', update: 'update-ca-certificates' },
+  { path: '/etc/pki/ca-trust/source/anchors/navigrator-root-ca.crt', update: 'update-ca-trust' }
+];
+
+const MACOS_SYSTEM_KEYCHAIN = '/Library/Keychains/System.keychain';
+
+/**
+ * sudo may wait at its password prompt for as long as the user takes, so privileged commands run without a timeout
+ */
+const PRIVILEGED_COMMAND_OPTIONS: CommandOptions = { timeout: 0 };
+
+/**
+ * Alias of the CA in Java keystores
+ */
+export const JAVA_KEYSTORE_ALIAS = 'navigrator-local-ca';
+
+/**
+ * keytool reads the keystore password from this variable, so it doesn't show up in the process list
+ */
+const KEYSTORE_PASSWORD_ENV = 'NAVIGRATOR_KEYSTORE_PASSWORD';
+
+/**
+ * Whether a trust store holds the current CA. A store holding only another Navigrator CA, e.g. one that was rotated
+ * out, is a fingerprint mismatch; "unknown" means it couldn't be checked
+ */
+export type TrustState = 'installed' | 'missing' | 'fingerprint-mismatch' | 'unknown';
+
+/**
+ * Result of installing or removing the CA in one browser profile
+ */
+export interface BrowserTrustResult {
+  browser: NSSDatabase['browser'];
+  profile: string;
+  directory: string;
+  success: boolean;
+  message: string;
+}
+
+export interface BrowserTrustStatus {
+  browser: NSSDatabase['browser'];
+  profile: string;
+  directory: string;
+  status: TrustState;
+  message?: string;
+}
+
+export interface TrustStoreStatus {
+  kind: 'system' | 'browser' | 'runtime';
+  /** e.g. "macOS System Keychain", "Firefox (default-release)" or "Node.js (NODE_EXTRA_CA_CERTS)" */
+  name: string;
+  status: TrustState;
+  /** File or directory of the store, when it has one */
+  path?: string;
+  message?: string;
+}
+
+export interface TrustStatus {
+  /** SHA-1 fingerprint of the current root CA, null if it doesn't exist */
+  fingerprint: string | null;
+  stores: TrustStoreStatus[];
+}
+
+export interface CAInstallResult {
+  success: boolean;
+  message: string;
+  /** Firefox profiles and the Chromium database, which keep their own trust stores */
+  browsers?: BrowserTrustResult[];
+}
+
+export interface RuntimeTrustOptions {
+  /** Java keystore to import the CA into, e.g. $JAVA_HOME/lib/security/cacerts */
+  javaKeystore?: string;
+  /** Password of the keystore; "changeit" by default, as for the cacerts of the JDK */
+  keystorePassword?: string;
+}
+
+export interface RuntimeTrustResult {
+  success: boolean;
+  message: string;
+  /** System roots plus the CA, for runtimes that trust only the bundle they are given */
+  bundlePath?: string;
+  /** Shell file exporting the variables */
+  envFilePath?: string;
+  variables?: { [name: string]: string };
+  javaKeystore?: { success: boolean; message: string };
+}
 
 export class CAInstaller {
   private caPath: string;
-  private caKeyPath: string;
+  /** Where the CA bundle and environment file for language runtimes are written */
+  private trustDir: string;
   private caGenerator: CAGenerator;
+  private run: CommandRunner;
 
-  constructor(certsDir?: string) {
+  constructor(certsDir?: string, run: CommandRunner = runCommand, backend: CertificateBackend = createCertificateBackend(undefined, run)) {
     const rootDir = certsDir || path.join(os.homedir(), '.navigrator', 'certs');
     const caDir = path.join(rootDir, 'ca');
     this.caPath = path.join(caDir, 'rootCA.crt');
-    this.caKeyPath = path.join(caDir, 'rootCA.key');
-    this.caGenerator = new CAGenerator(rootDir);
+    this.trustDir = path.join(path.dirname(rootDir), 'trust');
+    this.caGenerator = new CAGenerator(rootDir, backend);
+    this.run = run;
   }
 
   /**
-   * Check if the CA certificate exists
+   * Check if the CA certificate exists. Its key may be kept offline once the intermediate CA exists
    */
   public async checkCAExists(): Promise<boolean> {
-    try {
-      await fs.promises.access(this.caPath);
-      await fs.promises.access(this.caKeyPath);
-      return true;
-    } catch (error) {
-      return false;
-    }
+    return this.caGenerator.checkCAExists();
   }
 
   /**
    * Generate and install the CA certificate
    */
-  public async generateAndInstallCA(): Promise<{ success: boolean; message: string }> {
+  public async generateAndInstallCA(): Promise<CAInstallResult> {
     try {
-      // First check if OpenSSL is installed
-      const hasOpenSSL = await this.caGenerator.checkOpenSSLInstalled();
-      if (!hasOpenSSL) {
+      // First check if the certificate backend can run (OpenSSL must be installed to use it)
+      const backendAvailable = await this.caGenerator.checkBackendAvailable();
+      if (!backendAvailable) {
+        const label = this.caGenerator.getBackendLabel();
         return {
           success: false,
-          message: 'OpenSSL is not installed or not available in the PATH. Please install OpenSSL to continue.'
+          message: `${label} is not installed or not available in the PATH. Please install ${label} to continue.`
         };
       }
 
@@ -64,9 +155,9 @@ export class CAInstaller {
   }
 
   /**
-   * Install the CA certificate based on the platform
+   * Install the CA certificate based on the platform, and in the browsers with their own trust store
    */
-  public async installCA(): Promise<{ success: boolean; message: string }> {
+  public async installCA(): Promise<CAInstallResult> {
     // First check if the CA exists
     const caExists = await this.checkCAExists();
     if (!caExists) {
@@ -76,6 +167,41 @@ export class CAInstaller {
       };
     }
 
+    return { ...await this.installInSystem(), browsers: await this.installInBrowsers() };
+  }
+
+  /**
+   * Install the CA only in the stores that don't trust it yet, so an installed CA doesn't ask for privileges again
+   */
+  public async installMissing(): Promise<CAInstallResult> {
+    const caExists = await this.checkCAExists();
+    if (!caExists) {
+      return {
+        success: false,
+        message: 'CA certificate not found. Please run "navigrator init-ca" first to generate it.'
+      };
+    }
+
+    const { stores } = await this.getTrustStatus();
+    const needsInstall = (store: TrustStoreStatus) => store.status === 'missing' || store.status === 'fingerprint-mismatch';
+    const system = stores.find(store => store.kind === 'system');
+    const browserDirectories = stores.filter(store => store.kind === 'browser' && needsInstall(store)).map(store => store.path!);
+
+    const result: CAInstallResult = system && system.status !== 'installed'
+      ? await this.installInSystem()
+      : { success: true, message: 'CA certificate is already trusted by the system.' };
+
+    if (browserDirectories.length > 0) {
+      result.browsers = await this.installInBrowsers(browserDirectories);
+    }
+
+    return result;
+  }
+
+  /**
+   * Install the CA in the system store of the platform
+   */
+  private async installInSystem(): Promise<{ success: boolean; message: string }> {
     const platform = os.platform();
 
     try {
@@ -99,16 +225,94 @@ export class CAInstaller {
     }
   }
 
+  /**
+   * Check every store that can trust the CA: the system store, the browser profiles and the CA bundles of language
+   * runtimes. Nothing is changed and no privileges are needed
+   */
+  public async getTrustStatus(): Promise<TrustStatus> {
+    const fingerprint = await this.readFingerprint(this.caPath);
+
+    const browsers = await this.getBrowserTrustStatus();
+    const runtimes = await getRuntimeTrustStatus(fingerprint);
+
+    return {
+      fingerprint,
+      stores: [
+        await this.getSystemTrustStatus(fingerprint),
+        ...browsers.map(browser => ({
+          kind: 'browser' as const,
+          name: `${browser.browser} (${browser.profile})`,
+          status: browser.status,
+          path: browser.directory,
+          message: browser.message
+        })),
+        ...runtimes.map(runtime => ({
+          kind: 'runtime' as const,
+          name: `${runtime.runtime} (${runtime.variable})`,
+          status: runtime.status,
+          path: runtime.path,
+          message: runtime.message
+        }))
+      ]
+    };
+  }
+
+  /**
+   * Check the store installInSystem() uses
+   */
+  private async getSystemTrustStatus(fingerprint: string | null): Promise<TrustStoreStatus> {
+    const platform = os.platform();
+    const status = (found: string[]): TrustState =>
+      found.length === 0 ? 'missing' : fingerprint && found.includes(fingerprint) ? 'installed' : 'fingerprint-mismatch';
+
+    try {
+      if (platform === 'win32') {
+        // certutil -store fails when the store has no matching certificate
+        const installed = !!fingerprint && await commandSucceeds(this.run, 'certutil', ['-store', 'ROOT', fingerprint]);
+        const found = installed || await commandSucceeds(this.run, 'certutil', ['-store', 'ROOT', CA_COMMON_NAME]);
+        return {
+          kind: 'system',
+          name: 'Windows Trusted Root CA store',
+          status: installed ? 'installed' : found ? 'fingerprint-mismatch' : 'missing'
+        };
+      } else if (platform === 'darwin') {
+        return {
+          kind: 'system',
+          name: 'macOS System Keychain',
+          status: status(await this.findKeychainCertificates()),
+          path: MACOS_SYSTEM_KEYCHAIN
+        };
+      } else if (platform === 'linux') {
+        const anchors = LINUX_TRUST_ANCHORS.filter(anchor => fs.existsSync(anchor.path));
+        const found: string[] = [];
+        for (const anchor of anchors) {
+          const anchorFingerprint = await this.readFingerprint(anchor.path);
+          if (anchorFingerprint) found.push(anchorFingerprint);
+        }
+        return {
+          kind: 'system',
+          name: 'Linux trust anchors',
+          status: status(found),
+          path: (anchors[0] || LINUX_TRUST_ANCHORS[0]).path
+        };
+      }
+
+      return { kind: 'system', name: 'System store', status: 'unknown', message: `Unsupported platform: ${platform}` };
+    } catch (error: any) {
+      return { kind: 'system', name: 'System store', status: 'unknown', message: error?.message };
+    }
+  }
+
   /**
    * Install CA on Windows using certutil
    */
   private async installOnWindows(): Promise<{ success: boolean; message: string }> {
     try {
       // Check if certutil is available
-      await execAsync('certutil -?');
+      await this.run('certutil', ['-?']);
 
       // Install the certificate to the Trusted Root CA store
-      await execAsync(`certutil -addstore -f "ROOT" "${this.caPath}"`);
+      await this.run('certutil', ['-addstore', '-f', 'ROOT', this.caPath]);
 
       return {
         success: true,
@@ -131,10 +335,7 @@ export class CAInstaller {
   private async installOnMacOS(): Promise<{ success: boolean; message: string }> {
     try {
       // Add to system keychain
-      await execAsync(`sudo security add-trusted-cert -d -r trustRoot -k /Library/Keychains/System.keychain "${this.caPath}"`);
-
-      // Also add to Firefox if installed (Firefox uses its own certificate store)
-      await this.installOnFirefox();
+      await this.run('sudo', ['security', 'add-trusted-cert', '-d', '-r', 'trustRoot', '-k', MACOS_SYSTEM_KEYCHAIN, this.caPath], PRIVILEGED_COMMAND_OPTIONS);
 
       return {
         success: true,
@@ -165,12 +366,12 @@ export class CAInstaller {
 
       if (hasApt || hasUpdateCACerts) {
         // Debian/Ubuntu style
-        await execAsync(`sudo cp "${this.caPath}" /usr/local/share/ca-certificates/navigrator-root-ca.crt`);
-        await execAsync('sudo update-ca-certificates');
+        await this.run('sudo', ['cp', this.caPath, LINUX_TRUST_ANCHORS[0].path], PRIVILEGED_COMMAND_OPTIONS);
+        await this.run('sudo', [LINUX_TRUST_ANCHORS[0].update], PRIVILEGED_COMMAND_OPTIONS);
       } else if (hasYum || hasDnf || hasUpdateCATrust) {
         // RHEL/Fedora style
-        await execAsync(`sudo cp "${this.caPath}" /etc/pki/ca-trust/source/anchors/navigrator-root-ca.crt`);
-        await execAsync('sudo update-ca-trust');
+        await this.run('sudo', ['cp', this.caPath, LINUX_TRUST_ANCHORS[1].path], PRIVILEGED_COMMAND_OPTIONS);
+        await this.run('sudo', [LINUX_TRUST_ANCHORS[1].update], PRIVILEGED_COMMAND_OPTIONS);
       } else {
         return {
           success: false,
@@ -178,11 +379,6 @@ export class CAInstaller {
         };
       }
 
-      // Also add to Firefox if installed
-      await this.installOnFirefox();
-
-      // Chrome on Linux typically uses the system store so no additional steps needed
-
       return {
         success: true,
         message: 'CA certificate has been installed in the system certificate store. You may need to restart browsers for changes to take effect.'
@@ -199,92 +395,325 @@ export class CAInstaller {
   }
 
   /**
-   * Install CA in Firefox (all platforms)
-   * This is a complex process as Firefox uses its own certificate store
+   * Remove every Navigrator root CA from the stores installCA() uses: the Windows Trusted Root CA store, the macOS
+   * System Keychain or the Linux trust anchors, and the browser profiles
    */
-  private async installOnFirefox(): Promise<void> {
-    try {
-      // Check if Firefox is installed
-      let firefoxPath = '';
+  public async uninstallCA(): Promise<CAInstallResult> {
+    const result = await this.removeFromSystem(
+      CA_COMMON_NAME,
+      hashes => hashes,
+      async () => true,
+      'Navigrator CA certificates have been removed from the system certificate store. You may need to restart browsers for changes to take effect.'
+    );
+
+    return { ...result, browsers: await this.uninstallFromBrowsers() };
+  }
+
+  /**
+   * Remove a CA certificate from the system trust store, e.g. a CA that was replaced. Stores that don't have it
+   * are left alone
+   */
+  public async uninstallCertificate(certificate: string | Buffer): Promise<{ success: boolean; message: string }> {
+    const fingerprint = getCertificateFingerprint(certificate);
+
+    return this.removeFromSystem(
+      fingerprint,
+      hashes => hashes.filter(hash => hash === fingerprint),
+      async anchorPath => await this.readFingerprint(anchorPath) === fingerprint,
+      'CA certificate has been removed from the system certificate store.'
+    );
+  }
+
+  /**
+   * Remove certificates from the system trust store: on Windows those certutil finds by `certId` (a name or hash), on
+   * macOS the keychain entries named Navigrator Local CA that `selectHashes` keeps, and on Linux the anchors `matchesAnchor`
+   * accepts
+   */
+  private async removeFromSystem(
+    certId: string,
+    selectHashes: (hashes: string[]) => string[],
+    matchesAnchor: (anchorPath: string) => Promise<boolean>,
+    successMessage: string
+  ): Promise<{ success: boolean; message: string }> {
+    const platform = os.platform();
 
-      const platform = os.platform();
+    try {
       if (platform === 'win32') {
-        const programFiles = process.env['ProgramFiles'] || 'C:\\Program Files';
-        const programFilesX86 = process.env['ProgramFiles(x86)'] || 'C:\\Program Files (x86)';
-
-        const possiblePaths = [
-          path.join(programFiles, 'Mozilla Firefox', 'firefox.exe'),
-          path.join(programFilesX86, 'Mozilla Firefox', 'firefox.exe')
-        ];
-
-        for (const p of possiblePaths) {
-          try {
-            await fs.promises.access(p);
-            firefoxPath = p;
-            break;
-          } catch (e) {
-            // Path doesn't exist
-          }
+        // certutil -store fails when the store has no matching certificate
+        if (await commandSucceeds(this.run, 'certutil', ['-store', 'ROOT', certId])) {
+          await this.run('certutil', ['-delstore', 'ROOT', certId]);
         }
       } else if (platform === 'darwin') {
-        const possiblePaths = [
-          '/Applications/Firefox.app/Contents/MacOS/firefox'
-        ];
-
-        for (const p of possiblePaths) {
-          try {
-            await fs.promises.access(p);
-            firefoxPath = p;
-            break;
-          } catch (e) {
-            // Path doesn't exist
-          }
+        for (const hash of selectHashes(await this.findKeychainCertificates())) {
+          await this.run('sudo', ['security', 'delete-certificate', '-Z', hash, MACOS_SYSTEM_KEYCHAIN], PRIVILEGED_COMMAND_OPTIONS);
         }
       } else if (platform === 'linux') {
-        // Check if Firefox is in PATH
-        try {
-          await execAsync('which firefox');
-          firefoxPath = 'firefox';
-        } catch (e) {
-          // Firefox not in PATH
+        for (const anchor of LINUX_TRUST_ANCHORS) {
+          if (fs.existsSync(anchor.path) && await matchesAnchor(anchor.path)) {
+            await this.run('sudo', ['rm', '-f', anchor.path], PRIVILEGED_COMMAND_OPTIONS);
+            await this.run('sudo', [anchor.update], PRIVILEGED_COMMAND_OPTIONS);
+          }
         }
+      } else {
+        return {
+          success: false,
+          message: `Unsupported platform: ${platform}. Please remove the CA manually.`
+        };
       }
 
-      if (!firefoxPath) {
-        // Firefox not found or not supported on this platform
-        return;
+      return { success: true, message: successMessage };
+    } catch (error: any) {
+      if (error?.message?.includes('Access is denied')) {
+        return {
+          success: false,
+          message: 'Administrator privileges required. Please run the command as administrator.'
+        };
+      }
+      if (error?.message?.includes('password') || error?.message?.includes('permission')) {
+        return {
+          success: false,
+          message: 'Sudo privileges required. Please run with sudo: sudo navigrator uninstall-ca'
+        };
       }
+      return {
+        success: false,
+        message: `Error removing CA: ${error?.message}`
+      };
+    }
+  }
 
-      // Firefox installation detected, but we won't attempt to modify its cert store
-      // as it's complex and requires restarting Firefox or creating a new profile
-      console.log(
-        'Firefox detected. Please import the CA certificate manually in Firefox:\n' +
-        '1. Open Firefox and go to Settings/Preferences\n' +
-        '2. Search for "certificates" and click "View Certificates"\n' +
-        '3. Go to the "Authorities" tab and click "Import"\n' +
-        `4. Select the certificate file at: ${this.caPath}\n` +
-        '5. Check "Trust this CA to identify websites" and click OK'
-      );
+  /**
+   * SHA-1 hashes of the Navigrator root CAs in the macOS System Keychain
+   */
+  private async findKeychainCertificates(): Promise<string[]> {
+    try {
+      const { stdout } = await this.run('security', ['find-certificate', '-a', '-Z', '-c', CA_COMMON_NAME, MACOS_SYSTEM_KEYCHAIN]);
+      return Array.from(stdout.matchAll(/SHA-1 hash:\s*([0-9A-F]+)/gi), match => match[1].toUpperCase());
     } catch (error) {
-      // Ignore errors with Firefox detection/installation
-      console.log('Note: Could not detect Firefox installation.');
+      // security fails when nothing matches
+      return [];
     }
   }
 
   /**
-   * Check if a command exists in the PATH
+   * Fingerprint of the certificate in a file, or null if it can't be read
    */
-  private async commandExists(command: string): Promise<boolean> {
+  private async readFingerprint(filePath: string): Promise<string | null> {
     try {
-      const platform = os.platform();
-      if (platform === 'win32') {
-        await execAsync(`where ${command}`);
-      } else {
-        await execAsync(`which ${command}`);
+      return getCertificateFingerprint(await fs.promises.readFile(filePath));
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * Add the CA to every Firefox profile and the Chromium database, or only those in `directories`, replacing
+   * Navigrator CAs they already trust
+   */
+  public async installInBrowsers(directories?: string[]): Promise<BrowserTrustResult[]> {
+    return this.forEachBrowserDatabase(directories, async database => {
+      await this.removeFromDatabase(database);
+      await this.run('certutil', [
+        '-A', '-d', getCertutilDatabaseArgument(database), '-t', 'C,,', '-n', CA_COMMON_NAME, '-i', this.caPath
+      ]);
+      return 'CA certificate installed';
+    });
+  }
+
+  /**
+   * Remove every Navigrator CA from the Firefox profiles and the Chromium database
+   */
+  public async uninstallFromBrowsers(): Promise<BrowserTrustResult[]> {
+    return this.forEachBrowserDatabase(undefined, async database => {
+      const removed = await this.removeFromDatabase(database);
+      return removed > 0 ? 'CA certificate removed' : 'CA certificate was not installed';
+    });
+  }
+
+  /**
+   * Make language runtimes trust the CA: write a bundle of the system roots and the CA, a shell file pointing
+   * NODE_EXTRA_CA_CERTS, REQUESTS_CA_BUNDLE, SSL_CERT_FILE and friends at it, and import the CA into a Java keystore
+   * if one is given
+   */
+  public async installRuntimeTrust(options: RuntimeTrustOptions = {}): Promise<RuntimeTrustResult> {
+    const caExists = await this.checkCAExists();
+    if (!caExists) {
+      return {
+        success: false,
+        message: 'CA certificate not found. Please run "navigrator init-ca" first to generate it.'
+      };
+    }
+
+    try {
+      const caCertificate = await fs.promises.readFile(this.caPath, 'utf-8');
+      const system = await readSystemCABundle();
+
+      await fs.promises.mkdir(this.trustDir, { recursive: true });
+      const bundlePath = path.join(this.trustDir, 'ca-bundle.pem');
+      await fs.promises.writeFile(bundlePath, buildCABundle(system.certificates, caCertificate));
+
+      const variables: { [name: string]: string } = {};
+      for (const { variable, extra } of RUNTIME_TRUST_VARIABLES) {
+        variables[variable] = extra ? this.caPath : bundlePath;
       }
-      return true;
+
+      const shell = os.platform() === 'win32' ? 'powershell' : 'sh';
+      const envFilePath = path.join(this.trustDir, shell === 'powershell' ? 'env.ps1' : 'env.sh');
+      await fs.promises.writeFile(envFilePath, formatEnvFile(variables, shell));
+
+      const result: RuntimeTrustResult = {
+        success: true,
+        message: `CA bundle written with ${system.path ? `the roots of ${system.path}` : 'the Mozilla roots of Node.js'}`,
+        bundlePath,
+        envFilePath,
+        variables
+      };
+
+      if (options.javaKeystore) {
+        result.javaKeystore = await this.importIntoJavaKeystore(options.javaKeystore, options.keystorePassword || 'changeit');
+        result.success = result.javaKeystore.success;
+      }
+
+      return result;
+    } catch (error: any) {
+      return {
+        success: false,
+        message: `Error setting up runtime trust: ${error?.message}`
+      };
+    }
+  }
+
+  /**
+   * Import the CA into a Java keystore with keytool, replacing a CA imported before
+   */
+  private async importIntoJavaKeystore(keystorePath: string, password: string): Promise<{ success: boolean; message: string }> {
+    if (!await this.commandExists('keytool')) {
+      return { success: false, message: 'keytool was not found. Install a JDK or add its bin directory to the PATH' };
+    }
+
+    const storeArgs = ['-alias', JAVA_KEYSTORE_ALIAS, '-keystore', keystorePath, '-storepass:env', KEYSTORE_PASSWORD_ENV];
+    const env = { [KEYSTORE_PASSWORD_ENV]: password };
+
+    try {
+      await this.run('keytool', ['-delete', ...storeArgs], { env });
     } catch (error) {
-      return false;
+      // Nothing imported yet; a wrong password makes the import below fail too
     }
+
+    try {
+      await this.run('keytool', ['-importcert', '-noprompt', '-trustcacerts', '-file', this.caPath, ...storeArgs], { env });
+      return { success: true, message: `CA certificate imported into ${keystorePath} as "${JAVA_KEYSTORE_ALIAS}"` };
+    } catch (error: any) {
+      return { success: false, message: `Could not import the CA into ${keystorePath}: ${error?.message}` };
+    }
+  }
+
+  /**
+   * Check which browser profiles trust the current CA
+   */
+  public async getBrowserTrustStatus(): Promise<BrowserTrustStatus[]> {
+    const databases = await findNSSDatabases();
+    const unavailable = databases.length > 0 ? await this.getCertutilUnavailableReason() : null;
+    const fingerprint = await this.readFingerprint(this.caPath);
+    const statuses: BrowserTrustStatus[] = [];
+
+    for (const database of databases) {
+      const profile = { browser: database.browser, profile: database.profile, directory: database.directory };
+
+      if (unavailable) {
+        statuses.push({ ...profile, status: 'unknown', message: unavailable });
+        continue;
+      }
+
+      const fingerprints = await this.listDatabaseFingerprints(database);
+      const status = fingerprints.length === 0
+        ? 'missing'
+        : fingerprint && fingerprints.includes(fingerprint) ? 'installed' : 'fingerprint-mismatch';
+      statuses.push({ ...profile, status });
+    }
+
+    return statuses;
+  }
+
+  /**
+   * Run an action on each browser database, or those in `directories`, collecting its outcome per profile
+   */
+  private async forEachBrowserDatabase(
+    directories: string[] | undefined,
+    action: (database: NSSDatabase) => Promise<string>
+  ): Promise<BrowserTrustResult[]> {
+    const databases = (await findNSSDatabases()).filter(database => !directories || directories.includes(database.directory));
+    const unavailable = databases.length > 0 ? await this.getCertutilUnavailableReason() : null;
+    const results: BrowserTrustResult[] = [];
+
+    for (const database of databases) {
+      const profile = { browser: database.browser, profile: database.profile, directory: database.directory };
+
+      if (unavailable) {
+        results.push({ ...profile, success: false, message: unavailable });
+        continue;
+      }
+
+      try {
+        results.push({ ...profile, success: true, message: await action(database) });
+      } catch (error: any) {
+        results.push({ ...profile, success: false, message: error?.message });
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Fingerprints of the Navigrator CAs in a browser database
+   */
+  private async listDatabaseFingerprints(database: NSSDatabase): Promise<string[]> {
+    try {
+      const { stdout } = await this.run('certutil', ['-L', '-d', getCertutilDatabaseArgument(database), '-n', CA_COMMON_NAME, '-a']);
+      return splitPemCertificates(stdout).map(certificate => getCertificateFingerprint(certificate));
+    } catch (error) {
+      // certutil fails when no certificate has the nickname
+      return [];
+    }
+  }
+
+  /**
+   * Delete the Navigrator CAs from a browser database. CAs that were rotated out share the nickname, and certutil
+   * deletes one per call
+   */
+  private async removeFromDatabase(database: NSSDatabase): Promise<number> {
+    const count = (await this.listDatabaseFingerprints(database)).length;
+
+    for (let i = 0; i < count; i++) {
+      await this.run('certutil', ['-D', '-d', getCertutilDatabaseArgument(database), '-n', CA_COMMON_NAME]);
+    }
+
+    return count;
+  }
+
+  /**
+   * Why browser databases can't be changed, or null when the NSS certutil is available
+   */
+  private async getCertutilUnavailableReason(): Promise<string | null> {
+    const manualImport = `import ${this.caPath} under Settings > Certificates > Authorities`;
+
+    switch (os.platform()) {
+      case 'win32':
+        // The certutil of Windows is a different program from the one of NSS
+        return `Firefox trusts the Windows store when security.enterprise_roots.enabled is set; otherwise ${manualImport}`;
+      case 'darwin':
+        return await this.commandExists('certutil') ? null : `certutil was not found (brew install nss); ${manualImport}`;
+      default:
+        return await this.commandExists('certutil')
+          ? null
+          : `certutil was not found (install libnss3-tools or nss-tools); ${manualImport}`;
+    }
+  }
+
+  /**
+   * Check if a command exists in the PATH
+   */
+  private async commandExists(command: string): Promise<boolean> {
+    return commandSucceeds(this.run, os.platform() === 'win32' ? 'where' : 'which', [command]);
   }
 }
\ No newline at end of file
@@ -0,0 +1,131 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CARotator } from './ca-rotation';
+import { CAOptions, CertificateBackend, IssueCertificateOptions } from './certificate-backend';
+import { CertificateManager } from './certificates';
+
+describe('CARotator', () => {
+  let certsDir: string;
+  let backend: { [method in keyof CertificateBackend]: jest.Mock } & CertificateBackend;
+  let caInstaller: { installCA: jest.Mock; uninstallCertificate: jest.Mock };
+  let proxyService: { reloadCertificate: jest.Mock };
+  let certManager: CertificateManager;
+  let generation: number;
+
+  // Files name the CA generation that wrote them, so tests can tell the old CA from the new one
+  const writeCA = async (options: CAOptions) => {
+    fs.writeFileSync(options.keyPath, `key of ${options.subject.commonName} #${generation}`, { mode: 0o600 });
+    fs.writeFileSync(options.certPath, `${options.subject.commonName} #${generation}\n`);
+  };
+
+  const read = (file: string) => fs.readFileSync(path.join(certsDir, file), 'utf-8');
+
+  const readAll = () => {
+    const files: { [file: string]: string } = {};
+    for (const dir of ['', 'ca']) {
+      for (const file of fs.readdirSync(path.join(certsDir, dir))) {
+        if (fs.statSync(path.join(certsDir, dir, file)).isFile()) {
+          files[path.join(dir, file)] = read(path.join(dir, file));
+        }
+      }
+    }
+    return files;
+  };
+
+  beforeEach(async () => {
+    certsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'navigrator-rotation-'));
+    generation = 1;
+
+    backend = {
+      name: 'node',
+      label: 'Test',
+      isAvailable: jest.fn().mockResolvedValue(true),
+      generateCA: jest.fn().mockImplementation(writeCA),
+      generateIntermediateCA: jest.fn().mockImplementation(writeCA),
+      issueCertificate: jest.fn().mockImplementation(async (options: IssueCertificateOptions) => {
+        fs.writeFileSync(options.keyPath, `key of ${options.subject.commonName} #${generation}`);
+        fs.writeFileSync(options.certPath, `${options.subject.commonName} #${generation}\n`);
+      }),
+      readCertificate: jest.fn().mockImplementation(async (certPath: string) => ({
+        validFrom: new Date(),
+        validTo: new Date(Date.now() + 1825 * 24 * 60 * 60 * 1000),
+        issuer: certPath.includes('intermediateCA') ? 'Navigrator Local CA' : 'Navigrator Intermediate CA',
+        subjectAltNames: [path.basename(certPath, '.crt'), 'api.myapp.local'],
+        chain: [{ subject: 'Navigrator Intermediate CA', issuer: 'Navigrator Local CA', validTo: new Date() }]
+      }))
+    } as any;
+
+    caInstaller = {
+      installCA: jest.fn().mockResolvedValue({ success: true, message: 'installed' }),
+      uninstallCertificate: jest.fn().mockResolvedValue({ success: true, message: 'removed' })
+    };
+    proxyService = { reloadCertificate: jest.fn().mockImplementation(() => ['myapp.local']) };
+
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    certManager = new CertificateManager(certsDir, backend);
+    await certManager.initialize();
+    await certManager.createCertificate('myapp.local', { aliases: ['api.myapp.local'] });
+    generation = 2;
+  });
+
+  afterEach(() => {
+    fs.rmSync(certsDir, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  const createRotator = () => new CARotator(certManager, caInstaller as any, proxyService as any);
+
+  it('should re-issue every certificate from a new CA and trust only the new CA', async () => {
+    const result = await createRotator().rotate();
+
+    expect(result).toEqual(expect.objectContaining({ success: true, reissued: ['myapp.local'], reloadedProxies: ['myapp.local'] }));
+    expect(read('ca/rootCA.crt')).toBe('Navigrator Local CA #2\n');
+    expect(read('myapp.local.crt')).toBe('myapp.local #2\nNavigrator Intermediate CA #2\n');
+    expect(backend.issueCertificate).toHaveBeenLastCalledWith(expect.objectContaining({ dnsNames: ['myapp.local', 'api.myapp.local'] }));
+    expect(caInstaller.installCA).toHaveBeenCalledTimes(1);
+    expect(caInstaller.uninstallCertificate).toHaveBeenCalledWith(Buffer.from('Navigrator Local CA #1\n'));
+    expect(proxyService.reloadCertificate).toHaveBeenCalledWith(path.join(certsDir, 'myapp.local.crt'), path.join(certsDir, 'myapp.local.key'));
+  });
+
+  it('should restore every file when re-issuing a certificate fails', async () => {
+    const before = readAll();
+    backend.issueCertificate.mockImplementationOnce(async (options: IssueCertificateOptions) => {
+      fs.writeFileSync(options.keyPath, 'half-written key');
+      throw new Error('disk full');
+    });
+
+    const result = await createRotator().rotate();
+
+    expect(result.success).toBe(false);
+    expect(result.message).toContain('rolled back: Failed to create certificate: disk full');
+    expect(readAll()).toEqual(before);
+    expect(fs.statSync(path.join(certsDir, 'ca', 'rootCA.key')).mode & 0o777).toBe(0o600);
+    expect(caInstaller.installCA).not.toHaveBeenCalled();
+    expect(caInstaller.uninstallCertificate).not.toHaveBeenCalled();
+  });
+
+  it('should trust the old CA again when removing it from the trust store fails', async () => {
+    caInstaller.uninstallCertificate.mockResolvedValueOnce({ success: false, message: 'Error removing CA: sudo failed' });
+
+    const result = await createRotator().rotate();
+
+    expect(result.success).toBe(false);
+    expect(result.message).toContain('sudo failed');
+    expect(read('ca/rootCA.crt')).toBe('Navigrator Local CA #1\n');
+    expect(read('myapp.local.crt')).toBe('myapp.local #1\nNavigrator Intermediate CA #1\n');
+    expect(caInstaller.uninstallCertificate).toHaveBeenLastCalledWith(Buffer.from('Navigrator Local CA #2\n'));
+    expect(caInstaller.installCA).toHaveBeenCalledTimes(2);
+    expect(proxyService.reloadCertificate).toHaveBeenCalled();
+  });
+
+  it('should leave the trust store alone when asked to', async () => {
+    const result = await createRotator().rotate({ installTrust: false });
+
+    expect(result.success).toBe(true);
+    expect(caInstaller.installCA).not.toHaveBeenCalled();
+    expect(caInstaller.uninstallCertificate).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,181 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { CAInstaller } from './ca-installer';
+import { CertificateInfo, CertificateManager } from './certificates';
+import { ProxyService } from './proxy-service';
+
+export interface CARotationOptions {
+  /** Trust the new CA and remove the old one from the system store */
+  installTrust?: boolean;
+}
+
+export interface CARotationResult {
+  success: boolean;
+  message: string;
+  /** Domains whose certificates were re-issued by the new CA */
+  reissued: string[];
+  /** Running proxies now serving a certificate from the new CA */
+  reloadedProxies: string[];
+}
+
+interface FileSnapshot {
+  content: Buffer;
+  mode: number;
+}
+
+/**
+ * Replaces the local CA with a new one, e.g. after its key leaked. Every certificate is re-issued, running proxies
+ * switch to the new certificates and the system trusts the new CA instead of the old one. If any step fails, the
+ * certificate files and the trust store are put back as they were
+ */
+export class CARotator {
+  private certManager: CertificateManager;
+  private caInstaller: CAInstaller;
+  private proxyService?: ProxyService;
+
+  constructor(certManager: CertificateManager, caInstaller: CAInstaller, proxyService?: ProxyService) {
+    this.certManager = certManager;
+    this.caInstaller = caInstaller;
+    this.proxyService = proxyService;
+  }
+
+  /**
+   * Rotate the CA once any certificate renewal in progress is done, since both rewrite the certificate files
+   */
+  public rotate(options: CARotationOptions = {}): Promise<CARotationResult> {
+    return this.certManager.runExclusive(() => this.rotateCA(options));
+  }
+
+  private async rotateCA(options: CARotationOptions): Promise<CARotationResult> {
+    const installTrust = options.installTrust !== false;
+    const caGenerator = this.certManager.getCAGenerator();
+    const { certPath: rootCertPath } = caGenerator.getCAPaths();
+    const certificates = await this.certManager.listCertificates();
+    const directories = [this.certManager.getCertsDir(), path.dirname(rootCertPath)];
+    const snapshot = await this.takeSnapshot(directories);
+    const oldRootCertificate = snapshot.get(rootCertPath)?.content;
+    const reissued: string[] = [];
+    let trustChanged = false;
+
+    try {
+      await caGenerator.replaceCA();
+
+      for (const certificate of certificates) {
+        // Re-issuing keeps the aliases and profile of the certificate
+        await this.certManager.createCertificate(certificate.domain);
+        reissued.push(certificate.domain);
+      }
+
+      if (installTrust) {
+        trustChanged = true;
+        await this.check(this.caInstaller.installCA());
+        if (oldRootCertificate) {
+          await this.check(this.caInstaller.uninstallCertificate(oldRootCertificate));
+        }
+      }
+
+      return {
+        success: true,
+        message: `CA rotated; ${reissued.length} certificate(s) re-issued`,
+        reissued,
+        reloadedProxies: this.reloadProxies(certificates)
+      };
+    } catch (error: any) {
+      console.error('Error rotating the CA:', error);
+      await this.rollback(directories, snapshot, trustChanged, oldRootCertificate);
+
+      return {
+        success: false,
+        message: `CA rotation failed and was rolled back: ${error?.message}`,
+        reissued: [],
+        reloadedProxies: this.reloadProxies(certificates)
+      };
+    }
+  }
+
+  /**
+   * Put the certificate files back as they were and trust the old CA again
+   */
+  private async rollback(
+    directories: string[],
+    snapshot: Map<string, FileSnapshot>,
+    trustChanged: boolean,
+    oldRootCertificate: Buffer | undefined
+  ): Promise<void> {
+    const { certPath: rootCertPath } = this.certManager.getCAGenerator().getCAPaths();
+
+    if (trustChanged) {
+      const newRootCertificate = await fs.readFile(rootCertPath).catch(() => null);
+      if (newRootCertificate && !newRootCertificate.equals(oldRootCertificate || Buffer.alloc(0))) {
+        await this.caInstaller.uninstallCertificate(newRootCertificate);
+      }
+    }
+
+    for (const directory of directories) {
+      for (const file of await this.listFiles(directory)) {
+        if (!snapshot.has(file)) {
+          await fs.unlink(file).catch(() => undefined);
+        }
+      }
+    }
+
+    for (const [file, { content, mode }] of snapshot) {
+      await fs.writeFile(file, content, { mode });
+      await fs.chmod(file, mode);
+    }
+
+    if (trustChanged && oldRootCertificate) {
+      const { success, message } = await this.caInstaller.installCA();
+      if (!success) {
+        console.error(`Could not trust the previous CA again: ${message}`);
+      }
+    }
+  }
+
+  /**
+   * Swap the certificates of running proxies for the ones on disk
+   */
+  private reloadProxies(certificates: CertificateInfo[]): string[] {
+    const reloaded: string[] = [];
+    if (!this.proxyService) {
+      return reloaded;
+    }
+
+    for (const { domain, certFilePath, keyFilePath } of certificates) {
+      if (!certFilePath || !keyFilePath) continue;
+
+      try {
+        reloaded.push(...this.proxyService.reloadCertificate(certFilePath, keyFilePath));
+      } catch (error) {
+        console.error(`Error reloading the certificate for ${domain}:`, error);
+      }
+    }
+
+    return reloaded;
+  }
+
+  private async check(result: Promise<{ success: boolean; message: string }>): Promise<void> {
+    const { success, message } = await result;
+    if (!success) {
+      throw new Error(message);
+    }
+  }
+
+  private async takeSnapshot(directories: string[]): Promise<Map<string, FileSnapshot>> {
+    const snapshot = new Map<string, FileSnapshot>();
+
+    for (const directory of directories) {
+      for (const file of await this.listFiles(directory)) {
+        const stats = await fs.stat(file);
+        snapshot.set(file, { content: await fs.readFile(file), mode: stats.mode & 0o777 });
+      }
+    }
+
+    return snapshot;
+  }
+
+  private async listFiles(directory: string): Promise<string[]> {
+    const entries = await fs.readdir(directory, { withFileTypes: true }).catch(() => []);
+    return entries.filter(entry => entry.isFile()).map(entry => path.join(directory, entry.name));
+  }
+}
@@ -0,0 +1,40 @@
+import { CERTIFICATE_BACKEND_ENV, createCertificateBackend, parseSubjectAltNames } from './certificate-backend';
+import { NodeCertificateBackend } from './node-certificate-backend';
+import { OpenSSLCertificateBackend } from './openssl-certificate-backend';
+
+describe('certificate-backend', () => {
+  describe('createCertificateBackend', () => {
+    const originalBackend = process.env[CERTIFICATE_BACKEND_ENV];
+
+    afterEach(() => {
+      if (originalBackend === undefined) {
+        delete process.env[CERTIFICATE_BACKEND_ENV];
+      } else {
+        process.env[CERTIFICATE_BACKEND_ENV] = originalBackend;
+      }
+    });
+
+    it('should use the built-in backend by default', () => {
+      delete process.env[CERTIFICATE_BACKEND_ENV];
+
+      expect(createCertificateBackend()).toBeInstanceOf(NodeCertificateBackend);
+    });
+
+    it('should use OpenSSL when the environment asks for it', () => {
+      process.env[CERTIFICATE_BACKEND_ENV] = 'OpenSSL';
+
+      expect(createCertificateBackend()).toBeInstanceOf(OpenSSLCertificateBackend);
+    });
+
+    it('should reject unknown backends', () => {
+      expect(() => createCertificateBackend('libressl')).toThrow('Unknown certificate backend "libressl" (use node or openssl)');
+    });
+  });
+
+  describe('parseSubjectAltNames', () => {
+    it('should read DNS names and canonical IP addresses', () => {
+      expect(parseSubjectAltNames('X509v3 Subject Alternative Name:\n    DNS:MyApp.local, IP Address:0:0:0:0:0:0:0:1, IP Address:127.0.0.1\n'))
+        .toEqual(['myapp.local', '::1', '127.0.0.1']);
+    });
+  });
+});
@@ -0,0 +1,229 @@
+import * as crypto from 'crypto';
+import * as net from 'net';
+import { CommandRunner, runCommand } from './command-runner';
+import { NodeCertificateBackend } from './node-certificate-backend';
+import { OpenSSLCertificateBackend } from './openssl-certificate-backend';
+
+export type CertificateBackendName = 'node' | 'openssl';
+
+export const CERTIFICATE_BACKENDS: CertificateBackendName[] = ['node', 'openssl'];
+
+/**
+ * Environment variable selecting the certificate backend; the built-in Node.js one is used by default
+ */
+export const CERTIFICATE_BACKEND_ENV = 'NAVIGRATOR_CERT_BACKEND';
+
+/**
+ * Environment variable with the passphrase encrypting the root CA key. Without it the key is stored unencrypted
+ */
+export const CA_PASSPHRASE_ENV = 'NAVIGRATOR_CA_PASSPHRASE';
+
+export type EllipticCurve = 'P-256' | 'P-384';
+
+export type ExtendedKeyUsage = 'serverAuth' | 'clientAuth';
+
+export type KeyOptions = { type: 'rsa'; bits: number } | { type: 'ecdsa'; curve: EllipticCurve };
+
+export interface CertificateSubject {
+  commonName: string;
+  organization: string;
+  organizationalUnit: string;
+}
+
+export interface CAOptions {
+  keyPath: string;
+  certPath: string;
+  subject: CertificateSubject;
+  days: number;
+  key: KeyOptions;
+  /** Encrypt the new key with this passphrase */
+  passphrase?: string;
+}
+
+/**
+ * An intermediate CA signed by the root CA, which then issues the server certificates
+ */
+export interface IntermediateCAOptions extends CAOptions {
+  caKeyPath: string;
+  caCertPath: string;
+  /** Passphrase of the root CA key, if it is encrypted */
+  caKeyPassphrase?: string;
+}
+
+export interface IssueCertificateOptions {
+  keyPath: string;
+  certPath: string;
+  caKeyPath: string;
+  caCertPath: string;
+  subject: CertificateSubject;
+  /** Hostnames (including wildcard patterns) and IP addresses the certificate covers */
+  dnsNames: string[];
+  ipAddresses: string[];
+  days: number;
+  key: KeyOptions;
+  extendedKeyUsages: ExtendedKeyUsage[];
+}
+
+/**
+ * A CA certificate served along with a certificate
+ */
+export interface CertificateChainEntry {
+  /** Common names of the certificate and its issuer */
+  subject: string;
+  issuer: string;
+  validTo: Date;
+}
+
+/**
+ * What Navigrator needs to know about an existing certificate
+ */
+export interface CertificateDetails {
+  validFrom: Date;
+  validTo: Date;
+  /** Common name of the issuer */
+  issuer: string;
+  /** DNS names (lowercase) and IP addresses (canonical form) in the subject alternative names */
+  subjectAltNames: string[];
+  /** The certificates following it in its file, from its issuer towards the root */
+  chain: CertificateChainEntry[];
+}
+
+/**
+ * Creates keys and certificates for the local CA and reads them back. Used by CertificateManager and CAGenerator
+ */
+export interface CertificateBackend {
+  readonly name: CertificateBackendName;
+  /** Human-readable name for messages */
+  readonly label: string;
+  /** Whether the backend can run, e.g. whether its program is installed */
+  isAvailable(): Promise<boolean>;
+  /** Create a self-signed CA key and certificate */
+  generateCA(options: CAOptions): Promise<void>;
+  /** Create an intermediate CA key and certificate signed by the root CA */
+  generateIntermediateCA(options: IntermediateCAOptions): Promise<void>;
+  /** Create a key and a server certificate signed by the CA */
+  issueCertificate(options: IssueCertificateOptions): Promise<void>;
+  readCertificate(certPath: string): Promise<CertificateDetails>;
+}
+
+export const DEFAULT_ORGANIZATION = 'Axlotl Lab';
+export const DEFAULT_ORGANIZATIONAL_UNIT = 'Development';
+
+export const CA_COMMON_NAME = 'Navigrator Local CA';
+export const INTERMEDIATE_CA_COMMON_NAME = 'Navigrator Intermediate CA';
+
+/**
+ * The passphrase for the root CA key, from the NAVIGRATOR_CA_PASSPHRASE environment variable
+ */
+export function getCAPassphrase(): string | undefined {
+  return process.env[CA_PASSPHRASE_ENV] || undefined;
+}
+
+/**
+ * The subject of a certificate issued by Navigrator
+ */
+export function createSubject(
+  commonName: string,
+  organization: string = DEFAULT_ORGANIZATION,
+  organizationalUnit: string = DEFAULT_ORGANIZATIONAL_UNIT
+): CertificateSubject {
+  return { commonName, organization, organizationalUnit };
+}
+
+/**
+ * Canonical form of an IP address, so 0:0:0:0:0:0:0:1 (as printed by OpenSSL) matches ::1
+ */
+export function canonicalIP(ip: string): string {
+  return net.isIPv6(ip) ? new URL(`http://[${ip}]`).hostname.slice(1, -1) : ip;
+}
+
+/**
+ * Extract the DNS names and IP addresses from a subject alternative name listing such as
+ * `DNS:myapp.local, IP Address:127.0.0.1`, as printed by OpenSSL and Node.js
+ */
+export function parseSubjectAltNames(output: string): string[] {
+  const names: string[] = [];
+
+  for (const entry of output.split(/[,\n]/).map(part => part.trim())) {
+    const dnsMatch = entry.match(/^DNS:(.+)$/);
+    const ipMatch = entry.match(/^IP Address:(.+)$/);
+
+    if (dnsMatch) names.push(dnsMatch[1].toLowerCase());
+    if (ipMatch) names.push(canonicalIP(ipMatch[1].toLowerCase()));
+  }
+
+  return names;
+}
+
+/**
+ * The PEM certificates in a file, in order
+ */
+export function splitPemCertificates(pem: string): string[] {
+  return pem.match(/-----BEGIN CERTIFICATE-----[\s\S]+?-----END CERTIFICATE-----/g) || [];
+}
+
+/**
+ * The common name in a distinguished name as printed by Node.js (one `KEY=value` per line)
+ */
+export function getCommonName(name: string): string {
+  const match = name.match(/^CN=(.+)$/m);
+  return match ? match[1].trim() : 'Unknown';
+}
+
+/**
+ * The SHA-1 fingerprint of a certificate as hex without separators, as the keychain and certutil print it
+ */
+export function getCertificateFingerprint(certificate: string | Buffer): string {
+  return new crypto.X509Certificate(certificate).fingerprint.replace(/:/g, '').toUpperCase();
+}
+
+/**
+ * Describe the certificates after the first one in a PEM file: the chain served along with it
+ */
+export function readCertificateChain(pem: string): CertificateChainEntry[] {
+  return splitPemCertificates(pem).slice(1).map(block => {
+    const certificate = new crypto.X509Certificate(block);
+    return {
+      subject: getCommonName(certificate.subject),
+      issuer: getCommonName(certificate.issuer),
+      validTo: new Date(certificate.validTo)
+    };
+  });
+}
+
+/**
+ * Whether the certificates in a PEM file lead to the root CA: each one must be issued and signed by the next, and the
+ * last one by the root. Names alone aren't enough, as a replaced root CA keeps the same name
+ */
+export function verifyCertificateChain(pem: string, rootPem: string): boolean {
+  try {
+    const root = new crypto.X509Certificate(rootPem);
+    const certificates = splitPemCertificates(pem).map(block => new crypto.X509Certificate(block));
+    if (certificates.length === 0) return false;
+
+    const issuers = [...certificates.slice(1), root];
+    return certificates.every((certificate, i) =>
+      !!certificate.checkIssued(issuers[i]) && certificate.verify(issuers[i].publicKey));
+  } catch (error) {
+    // Certificates Node.js can't parse lead nowhere
+    return false;
+  }
+}
+
+/**
+ * Create the certificate backend with the given name, defaulting to the NAVIGRATOR_CERT_BACKEND environment
+ * variable and then to the built-in Node.js backend, which needs nothing installed
+ */
+export function createCertificateBackend(
+  name: string | undefined = process.env[CERTIFICATE_BACKEND_ENV],
+  run: CommandRunner = runCommand
+): CertificateBackend {
+  switch ((name || 'node').toLowerCase()) {
+    case 'node':
+      return new NodeCertificateBackend();
+    case 'openssl':
+      return new OpenSSLCertificateBackend(run);
+    default:
+      throw new Error(`Unknown certificate backend "${name}" (use ${CERTIFICATE_BACKENDS.join(' or ')})`);
+  }
+}
@@ -0,0 +1,47 @@
+import { CERTIFICATE_PROFILES, getProfileKeyOptions, resolveCertificateProfile, validateCertificateProfile } from './certificate-profiles';
+import { ValidationError } from './validation';
+
+describe('certificate-profiles', () => {
+  describe('validateCertificateProfile', () => {
+    it('should accept every built-in profile', () => {
+      for (const profile of Object.values(CERTIFICATE_PROFILES)) {
+        expect(validateCertificateProfile(profile)).toBeNull();
+      }
+    });
+
+    it('should reject invalid profiles', () => {
+      const profile = CERTIFICATE_PROFILES.default;
+
+      expect(validateCertificateProfile(null)).toContain('must be an object');
+      expect(validateCertificateProfile({ ...profile, name: 'a b' })).toContain('name must contain');
+      expect(validateCertificateProfile({ ...profile, rsaBits: 1024 })).toContain('RSA key size');
+      expect(validateCertificateProfile({ ...profile, keyType: 'ecdsa', curve: 'P-521' })).toContain('ECDSA curve');
+      expect(validateCertificateProfile({ ...profile, keyType: 'dsa' })).toContain('Key type');
+      expect(validateCertificateProfile({ ...profile, validityDays: 900 })).toContain('between 1 and 825');
+      expect(validateCertificateProfile({ ...profile, extendedKeyUsages: ['codeSigning'] })).toContain('Extended key usages');
+      expect(validateCertificateProfile({ ...profile, organization: 'Evil/CN=other' })).toContain('organization');
+    });
+  });
+
+  describe('resolveCertificateProfile', () => {
+    it('should resolve built-in profiles by name', () => {
+      expect(resolveCertificateProfile('ecdsa-p256')).toEqual(CERTIFICATE_PROFILES['ecdsa-p256']);
+    });
+
+    it('should fill custom profiles in from the default profile', () => {
+      const profile = resolveCertificateProfile('edge', { edge: { keyType: 'ecdsa', curve: 'P-384', validityDays: 90 } });
+
+      expect(profile).toEqual(expect.objectContaining({
+        name: 'edge', keyType: 'ecdsa', curve: 'P-384', validityDays: 90, extendedKeyUsages: ['serverAuth']
+      }));
+      expect(profile.rsaBits).toBeUndefined();
+      expect(getProfileKeyOptions(profile)).toEqual({ type: 'ecdsa', curve: 'P-384' });
+    });
+
+    it('should reject unknown and invalid profiles', () => {
+      expect(() => resolveCertificateProfile('missing')).toThrow('Unknown certificate profile "missing"');
+      expect(() => resolveCertificateProfile(42)).toThrow(ValidationError);
+      expect(() => resolveCertificateProfile('weak', { weak: { rsaBits: 512 } })).toThrow('RSA key size');
+    });
+  });
+});
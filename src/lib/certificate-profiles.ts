@@ -0,0 +1,165 @@
+import { DEFAULT_ORGANIZATION, DEFAULT_ORGANIZATIONAL_UNIT, EllipticCurve, ExtendedKeyUsage, KeyOptions } from './certificate-backend';
+import { ValidationError } from './validation';
+
+/**
+ * How a certificate is issued: its key, validity, extended key usages and subject organization
+ */
+export interface CertificateProfile {
+  name: string;
+  description?: string;
+  keyType: 'rsa' | 'ecdsa';
+  /** RSA modulus length in bits */
+  rsaBits?: number;
+  curve?: EllipticCurve;
+  validityDays: number;
+  extendedKeyUsages: ExtendedKeyUsage[];
+  organization: string;
+  organizationalUnit: string;
+}
+
+export const DEFAULT_PROFILE_NAME = 'default';
+
+const RSA_BITS = [2048, 3072, 4096];
+const CURVES: EllipticCurve[] = ['P-256', 'P-384'];
+const EXTENDED_KEY_USAGES: ExtendedKeyUsage[] = ['serverAuth', 'clientAuth'];
+
+/**
+ * Browsers reject server certificates valid for longer than 825 days
+ */
+export const MAX_VALIDITY_DAYS = 825;
+
+const BASE_PROFILE = {
+  validityDays: 365,
+  extendedKeyUsages: ['serverAuth'] as ExtendedKeyUsage[],
+  organization: DEFAULT_ORGANIZATION,
+  organizationalUnit: DEFAULT_ORGANIZATIONAL_UNIT
+};
+
+/**
+ * Built-in profiles, selectable by name from the API, the CLI and navigrator.config.json
+ */
+export const CERTIFICATE_PROFILES: { [name: string]: CertificateProfile } = {
+  default: { ...BASE_PROFILE, name: 'default', description: 'RSA 2048, valid for a year', keyType: 'rsa', rsaBits: 2048 },
+  'rsa-4096': { ...BASE_PROFILE, name: 'rsa-4096', description: 'RSA 4096, valid for a year', keyType: 'rsa', rsaBits: 4096 },
+  'ecdsa-p256': { ...BASE_PROFILE, name: 'ecdsa-p256', description: 'ECDSA P-256, valid for a year', keyType: 'ecdsa', curve: 'P-256' },
+  'ecdsa-p384': { ...BASE_PROFILE, name: 'ecdsa-p384', description: 'ECDSA P-384, valid for a year', keyType: 'ecdsa', curve: 'P-384' },
+  'short-lived': { ...BASE_PROFILE, name: 'short-lived', description: 'RSA 2048, valid for 7 days', keyType: 'rsa', rsaBits: 2048, validityDays: 7 },
+  mtls: {
+    ...BASE_PROFILE,
+    name: 'mtls',
+    description: 'RSA 2048 for both servers and clients (mutual TLS)',
+    keyType: 'rsa',
+    rsaBits: 2048,
+    extendedKeyUsages: ['serverAuth', 'clientAuth']
+  }
+};
+
+/**
+ * The local CA is always RSA 4096, valid for 10 years
+ */
+export const CA_PROFILE: CertificateProfile = {
+  ...BASE_PROFILE,
+  name: 'ca',
+  keyType: 'rsa',
+  rsaBits: 4096,
+  validityDays: 3650,
+  extendedKeyUsages: []
+};
+
+/**
+ * The intermediate CA issuing server certificates is valid for 5 years, and replaced while it can still outlive
+ * any certificate it issues
+ */
+export const INTERMEDIATE_CA_PROFILE: CertificateProfile = {
+  ...CA_PROFILE,
+  name: 'intermediate-ca',
+  validityDays: 1825
+};
+
+/**
+ * Validate a custom profile definition, e.g. from the `profiles` of navigrator.config.json
+ */
+export function validateCertificateProfile(profile: any): string | null {
+  if (!profile || typeof profile !== 'object') {
+    return 'Certificate profile must be an object';
+  }
+
+  if (typeof profile.name !== 'string' || !/^[a-z0-9][a-z0-9_-]*$/i.test(profile.name)) {
+    return 'Certificate profile name must contain only letters, digits, "-" and "_"';
+  }
+
+  if (profile.keyType === 'rsa') {
+    if (!RSA_BITS.includes(profile.rsaBits)) {
+      return `RSA key size must be one of ${RSA_BITS.join(', ')}`;
+    }
+  } else if (profile.keyType === 'ecdsa') {
+    if (!CURVES.includes(profile.curve)) {
+      return `ECDSA curve must be one of ${CURVES.join(', ')}`;
+    }
+  } else {
+    return 'Key type must be "rsa" or "ecdsa"';
+  }
+
+  if (!Number.isInteger(profile.validityDays) || profile.validityDays < 1 || profile.validityDays > MAX_VALIDITY_DAYS) {
+    return `Validity must be a whole number of days between 1 and ${MAX_VALIDITY_DAYS}`;
+  }
+
+  if (!Array.isArray(profile.extendedKeyUsages) || profile.extendedKeyUsages.length === 0 ||
+    profile.extendedKeyUsages.some((usage: unknown) => !EXTENDED_KEY_USAGES.includes(usage as ExtendedKeyUsage))) {
+    return `Extended key usages must be a list of ${EXTENDED_KEY_USAGES.join(', ')}`;
+  }
+
+  for (const field of ['organization', 'organizationalUnit']) {
+    // Subject fields end up in OpenSSL's -subj argument, where "/" separates fields
+    if (typeof profile[field] !== 'string' || !profile[field].trim() || /[\/\n\r=]/.test(profile[field])) {
+      return `Certificate profile ${field} must be a non-empty name without "/" or "="`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Turn a profile name or a custom profile into a validated profile. Custom profiles can leave out any field,
+ * which then comes from the default profile
+ */
+export function resolveCertificateProfile(
+  profile: unknown,
+  customProfiles: { [name: string]: Partial<CertificateProfile> } = {},
+  field: string = 'profile'
+): CertificateProfile {
+  const definition = typeof profile === 'string'
+    ? customProfiles[profile] ? { ...customProfiles[profile], name: profile } : CERTIFICATE_PROFILES[profile]
+    : profile && typeof profile === 'object' ? profile : undefined;
+
+  if (!definition) {
+    const names = [...Object.keys(CERTIFICATE_PROFILES), ...Object.keys(customProfiles)];
+    throw new ValidationError(`Unknown certificate profile "${profile}" (use ${names.join(', ')})`, field, 'invalid_profile');
+  }
+
+  const resolved = {
+    ...CERTIFICATE_PROFILES[DEFAULT_PROFILE_NAME],
+    name: undefined,
+    description: undefined,
+    ...(definition as object)
+  } as unknown as CertificateProfile;
+  // An ECDSA profile has no RSA size and vice versa
+  if (resolved.keyType === 'ecdsa') delete resolved.rsaBits;
+  if (resolved.keyType === 'rsa') delete resolved.curve;
+
+  const error = validateCertificateProfile(resolved);
+  if (error) {
+    throw new ValidationError(error, field, 'invalid_profile');
+  }
+
+  return resolved;
+}
+
+/**
+ * The key a profile asks for
+ */
+export function getProfileKeyOptions(profile: CertificateProfile): KeyOptions {
+  return profile.keyType === 'ecdsa'
+    ? { type: 'ecdsa', curve: profile.curve! }
+    : { type: 'rsa', bits: profile.rsaBits! };
+}
@@ -0,0 +1,132 @@
+import { CertificateRenewer, validateCertificateRenewalSettings } from './certificate-renewer';
+import { CertificateInfo } from './certificates';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function certificate(domain: string, expiresInDays: number): CertificateInfo {
+  return {
+    domain,
+    validFrom: new Date(Date.now() - 300 * DAY),
+    validTo: new Date(Date.now() + expiresInDays * DAY),
+    issuer: 'Navigrator Local CA',
+    isValid: expiresInDays > 0,
+    certFilePath: `/certs/${domain}.crt`,
+    keyFilePath: `/certs/${domain}.key`
+  };
+}
+
+describe('CertificateRenewer', () => {
+  let certManager: { listCertificates: jest.Mock; createCertificate: jest.Mock; runExclusive: jest.Mock };
+  let proxyService: { reloadCertificate: jest.Mock };
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    certManager = {
+      listCertificates: jest.fn().mockResolvedValue([
+        certificate('fresh.local', 200),
+        certificate('expiring.local', 10),
+        certificate('expired.local', -1)
+      ]),
+      createCertificate: jest.fn().mockImplementation(async (domain: string) => certificate(domain, 365)),
+      runExclusive: jest.fn().mockImplementation((task: () => Promise<unknown>) => task())
+    };
+    proxyService = { reloadCertificate: jest.fn().mockReturnValue([]) };
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const createRenewer = (settings = {}) => new CertificateRenewer(certManager as any, proxyService as any, settings);
+
+  it('should renew certificates expiring within the window with the names they have', async () => {
+    proxyService.reloadCertificate.mockImplementation((certPath: string) => certPath.includes('expiring') ? ['expiring.local'] : []);
+
+    const renewals = await createRenewer().checkNow();
+
+    // No aliases are passed, so the recorded ones are kept
+    expect(certManager.createCertificate.mock.calls).toEqual([['expiring.local'], ['expired.local']]);
+    expect(proxyService.reloadCertificate).toHaveBeenCalledWith('/certs/expiring.local.crt', '/certs/expiring.local.key');
+    expect(renewals.map(renewal => [renewal.domain, renewal.success, renewal.reloadedProxies])).toEqual([
+      ['expiring.local', true, ['expiring.local']],
+      ['expired.local', true, []]
+    ]);
+  });
+
+  it('should honor a custom renewal window', async () => {
+    await createRenewer({ renewBeforeDays: 5 }).checkNow();
+
+    expect(certManager.createCertificate.mock.calls).toEqual([['expired.local']]);
+  });
+
+  it('should renew short-lived certificates once a third of their lifetime is left', async () => {
+    const shortLived = (domain: string, expiresInDays: number) => ({
+      ...certificate(domain, expiresInDays),
+      validFrom: new Date(Date.now() - (7 - expiresInDays) * DAY)
+    });
+    certManager.listCertificates.mockResolvedValue([shortLived('week.local', 5), shortLived('ending.local', 2)]);
+
+    await createRenewer().checkNow();
+
+    expect(certManager.createCertificate.mock.calls).toEqual([['ending.local']]);
+  });
+
+  it('should record failed renewals, newest first', async () => {
+    certManager.createCertificate.mockRejectedValueOnce(new Error('CA key not found'));
+    const renewer = createRenewer();
+
+    await renewer.checkNow();
+
+    expect(renewer.getRenewals().map(renewal => [renewal.domain, renewal.success, renewal.error])).toEqual([
+      ['expired.local', true, undefined],
+      ['expiring.local', false, 'CA key not found']
+    ]);
+    expect(proxyService.reloadCertificate).toHaveBeenCalledTimes(1);
+  });
+
+  it('should share a single run between overlapping checks', async () => {
+    const renewer = createRenewer();
+
+    await Promise.all([renewer.checkNow(), renewer.checkNow()]);
+
+    expect(certManager.listCertificates).toHaveBeenCalledTimes(1);
+  });
+
+  it('should wait for other tasks rewriting certificate files, such as a CA rotation', async () => {
+    let finishRotation = () => undefined as void;
+    const rotation = new Promise<void>(resolve => finishRotation = resolve);
+    certManager.runExclusive.mockImplementation((task: () => Promise<unknown>) => rotation.then(task));
+
+    const check = createRenewer().checkNow();
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(certManager.listCertificates).not.toHaveBeenCalled();
+    finishRotation();
+    expect(await check).toHaveLength(2);
+  });
+
+  it('should not schedule anything when disabled', () => {
+    const renewer = createRenewer({ enabled: false });
+
+    renewer.start();
+
+    expect(certManager.listCertificates).not.toHaveBeenCalled();
+    expect(renewer.getSettings().enabled).toBe(false);
+  });
+
+  describe('validateCertificateRenewalSettings', () => {
+    it('should accept valid settings', () => {
+      expect(validateCertificateRenewalSettings({ enabled: true, renewBeforeDays: 14, checkInterval: 60000 })).toBeNull();
+    });
+
+    it('should reject invalid settings', () => {
+      expect(validateCertificateRenewalSettings(30)).toContain('must be an object');
+      expect(validateCertificateRenewalSettings([])).toContain('must be an object');
+      expect(validateCertificateRenewalSettings({ enabled: 'yes' })).toContain('enabled flag');
+      expect(validateCertificateRenewalSettings({ renewBeforeDays: 0 })).toContain('positive number of days');
+      expect(validateCertificateRenewalSettings({ checkInterval: 10 })).toContain('at least 1000');
+    });
+  });
+});
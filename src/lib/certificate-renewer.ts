@@ -0,0 +1,183 @@
+import { CertificateInfo, CertificateManager } from './certificates';
+import { ProxyService } from './proxy-service';
+import { isRecord } from './validation';
+
+export interface CertificateRenewalSettings {
+  /** Renewal runs unless disabled */
+  enabled?: boolean;
+  /** Certificates expiring within this many days are re-issued */
+  renewBeforeDays?: number;
+  /** How often certificates are scanned, in milliseconds */
+  checkInterval?: number;
+}
+
+export interface CertificateRenewal {
+  domain: string;
+  renewedAt: string;
+  /** Expiry of the certificate that was replaced */
+  previousValidTo: string;
+  /** Expiry of the new certificate, when renewal succeeded */
+  validTo?: string;
+  success: boolean;
+  error?: string;
+  /** Running proxies now serving the new certificate */
+  reloadedProxies: string[];
+}
+
+export const DEFAULT_RENEW_BEFORE_DAYS = 30;
+export const DEFAULT_RENEWAL_CHECK_INTERVAL = 12 * 60 * 60 * 1000;
+
+/**
+ * Number of renewals kept for the web interface
+ */
+const MAX_RENEWAL_HISTORY = 50;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Validate certificate renewal settings received from the CLI or a config file
+ */
+export function validateCertificateRenewalSettings(settings: unknown): string | null {
+  if (!isRecord(settings)) {
+    return 'Certificate renewal settings must be an object';
+  }
+
+  if (settings.enabled !== undefined && typeof settings.enabled !== 'boolean') {
+    return 'Certificate renewal enabled flag must be a boolean';
+  }
+
+  if (settings.renewBeforeDays !== undefined && (typeof settings.renewBeforeDays !== 'number' || !(settings.renewBeforeDays > 0))) {
+    return 'Certificate renewal window must be a positive number of days';
+  }
+
+  if (settings.checkInterval !== undefined && (typeof settings.checkInterval !== 'number' || !(settings.checkInterval >= 1000))) {
+    return 'Certificate renewal check interval must be at least 1000 milliseconds';
+  }
+
+  return null;
+}
+
+/**
+ * Re-issues certificates before they expire and hot-swaps them into the running proxies. New TLS connections get
+ * the new certificate while open ones keep going
+ */
+export class CertificateRenewer {
+  private certManager: CertificateManager;
+  private proxyService: ProxyService;
+  private settings: Required<CertificateRenewalSettings>;
+  private renewals: CertificateRenewal[] = [];
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<CertificateRenewal[]> | null = null;
+
+  constructor(certManager: CertificateManager, proxyService: ProxyService, settings: CertificateRenewalSettings = {}) {
+    this.certManager = certManager;
+    this.proxyService = proxyService;
+    this.settings = {
+      enabled: settings.enabled !== false,
+      renewBeforeDays: settings.renewBeforeDays ?? DEFAULT_RENEW_BEFORE_DAYS,
+      checkInterval: settings.checkInterval ?? DEFAULT_RENEWAL_CHECK_INTERVAL
+    };
+  }
+
+  /**
+   * Check right away and then periodically, unless renewal is disabled
+   */
+  public start(): void {
+    if (!this.settings.enabled || this.timer) return;
+
+    this.checkNow().catch(error => console.error('Error renewing certificates:', error));
+    this.timer = setInterval(() => {
+      this.checkNow().catch(error => console.error('Error renewing certificates:', error));
+    }, this.settings.checkInterval);
+
+    // The schedule alone shouldn't keep the process alive
+    this.timer.unref();
+  }
+
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  public getSettings(): Required<CertificateRenewalSettings> {
+    return { ...this.settings };
+  }
+
+  /**
+   * Recent renewals, newest first
+   */
+  public getRenewals(): CertificateRenewal[] {
+    return [...this.renewals];
+  }
+
+  /**
+   * Whether a certificate expires within the renewal window (or already expired). Short-lived certificates renew
+   * once a third of their lifetime is left, so they aren't re-issued on every check
+   */
+  public needsRenewal(certificate: CertificateInfo, now: Date = new Date()): boolean {
+    const validTo = new Date(certificate.validTo).getTime();
+    const lifetime = validTo - new Date(certificate.validFrom).getTime();
+    const window = Math.min(this.settings.renewBeforeDays * DAY, lifetime / 3);
+
+    return validTo - now.getTime() < window;
+  }
+
+  /**
+   * Renew every certificate that is about to expire. Overlapping checks share a single run, which waits for a CA
+   * rotation in progress rather than writing the same files
+   */
+  public checkNow(): Promise<CertificateRenewal[]> {
+    if (!this.running) {
+      this.running = this.certManager.runExclusive(() => this.renewExpiring()).finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  private async renewExpiring(): Promise<CertificateRenewal[]> {
+    const certificates = await this.certManager.listCertificates();
+    const renewals: CertificateRenewal[] = [];
+
+    for (const certificate of certificates.filter(certificate => this.needsRenewal(certificate))) {
+      renewals.push(await this.renew(certificate));
+    }
+
+    return renewals;
+  }
+
+  /**
+   * Re-issue a certificate with the same names and reload it into the proxies using it
+   */
+  private async renew(certificate: CertificateInfo): Promise<CertificateRenewal> {
+    const renewal: CertificateRenewal = {
+      domain: certificate.domain,
+      renewedAt: new Date().toISOString(),
+      previousValidTo: new Date(certificate.validTo).toISOString(),
+      success: false,
+      reloadedProxies: []
+    };
+
+    try {
+      // Without aliases, the certificate keeps the names it was issued for
+      const renewed = await this.certManager.createCertificate(certificate.domain);
+
+      renewal.success = true;
+      renewal.validTo = new Date(renewed.validTo).toISOString();
+      if (renewed.certFilePath && renewed.keyFilePath) {
+        renewal.reloadedProxies = this.proxyService.reloadCertificate(renewed.certFilePath, renewed.keyFilePath);
+      }
+
+      console.log(`Renewed certificate for ${certificate.domain} (valid until ${renewal.validTo})` +
+        (renewal.reloadedProxies.length > 0 ? `, reloaded by ${renewal.reloadedProxies.join(', ')}` : ''));
+    } catch (error: any) {
+      renewal.error = error?.message || 'Unknown error';
+      console.error(`Error renewing certificate for ${certificate.domain}:`, renewal.error);
+    }
+
+    this.renewals = [renewal, ...this.renewals].slice(0, MAX_RENEWAL_HISTORY);
+    return renewal;
+  }
+}
@@ -1,8 +1,10 @@
-import { exec } from 'child_process';
 import * as fs from 'fs/promises';
 import * as os from 'os';
 import * as path from 'path';
+import { CERTIFICATE_PROFILES } from './certificate-profiles';
 import { CertificateManager } from './certificates';
+import { OpenSSLCertificateBackend } from './openssl-certificate-backend';
+import { CommandError } from './command-runner';
 
 jest.mock('fs/promises', () => ({
   mkdir: jest.fn().mockResolvedValue(undefined),
@@ -10,38 +12,45 @@ jest.mock('fs/promises', () => ({
   writeFile: jest.fn().mockResolvedValue(undefined),
   readdir: jest.fn(),
   access: jest.fn(),
-  unlink: jest.fn().mockResolvedValue(undefined)
+  unlink: jest.fn().mockResolvedValue(undefined),
+  appendFile: jest.fn().mockResolvedValue(undefined),
+  rename: jest.fn().mockResolvedValue(undefined),
+  copyFile: jest.fn().mockResolvedValue(undefined)
 }));
 
-jest.mock('child_process', () => ({
-  exec: jest.fn()
-}));
-
-// Helper to mock the exec callback pattern
-const mockExecImplementation = (stdout = '') => {
-  (exec as unknown as jest.Mock).mockImplementation((cmd, callback) => {
-    if (callback) {
-      callback(null, { stdout, stderr: '' });
-    }
-    return {
-      stdout,
-      stderr: ''
-    };
-  });
-};
+const INTERMEDIATE_PEM = '-----BEGIN CERTIFICATE-----\nintermediate\n-----END CERTIFICATE-----\n';
 
 describe('CertificateManager', () => {
   let certManager: CertificateManager;
-  const testDir = path.join(os.tmpdir(), 'test-certs');
+  let run: jest.Mock;
+  // A home directory with spaces and quotes must reach OpenSSL untouched
+  const testDir = path.join(os.tmpdir(), "test certs 'quoted'");
   const testCADir = path.join(testDir, 'ca');
 
   beforeEach(() => {
     jest.clearAllMocks();
-    certManager = new CertificateManager(testDir);
-    mockExecImplementation('OpenSSL 1.1.1f');
+    run = jest.fn().mockResolvedValue({ stdout: 'OpenSSL 1.1.1f', stderr: '' });
+    // No metadata recorded unless a test provides it; certificates hold a single PEM block
+    (fs.readFile as jest.Mock).mockImplementation(async (file: string) => {
+      if (file.endsWith('.crt')) return INTERMEDIATE_PEM;
+      throw new Error('ENOENT');
+    });
+    certManager = new CertificateManager(testDir, new OpenSSLCertificateBackend(run));
   });
 
   describe('initialize', () => {
+    // Only the files OpenSSL writes exist
+    const simulateCreatedFiles = () => {
+      const created = new Set<string>();
+      run.mockImplementation(async (command: string, args: string[]) => {
+        if (args.includes('-out')) created.add(args[args.indexOf('-out') + 1]);
+        return { stdout: '', stderr: '' };
+      });
+      (fs.access as jest.Mock).mockImplementation(async (file: string) => {
+        if (!created.has(file)) throw new Error('File not found');
+      });
+    };
+
     it('should create certificates and CA directories', async () => {
       await certManager.initialize();
 
@@ -50,45 +59,103 @@ describe('CertificateManager', () => {
     });
 
     it('should create local CA if it does not exist', async () => {
-      (fs.access as jest.Mock).mockRejectedValue(new Error('File not found'));
+      simulateCreatedFiles();
 
       await certManager.initialize();
 
       // Check that CA creation commands were executed
-      expect(exec).toHaveBeenCalledWith(
-        expect.stringContaining('openssl genrsa -out'),
-        expect.any(Function)
-      );
-      expect(exec).toHaveBeenCalledWith(
-        expect.stringContaining('openssl req -x509'),
-        expect.any(Function)
-      );
+      expect(run).toHaveBeenCalledWith('openssl', ['genrsa', '-out', path.join(testCADir, 'rootCA.key'), '4096']);
+      expect(run).toHaveBeenCalledWith('openssl', [
+        'req', '-x509', '-new', '-nodes', '-key', path.join(testCADir, 'rootCA.key'), '-sha256', '-days', '3650',
+        '-out', path.join(testCADir, 'rootCA.crt'), '-subj', '/CN=Navigrator Local CA/O=Axlotl Lab/OU=Development'
+      ]);
+
+      // The root CA signs an intermediate CA, written next to the current one and then swapped in
+      const intermediateKeyPath = path.join(testCADir, 'intermediateCA.key');
+      const intermediateCertPath = path.join(testCADir, 'intermediateCA.crt');
+      expect(run).toHaveBeenCalledWith('openssl', ['genrsa', '-out', `${intermediateKeyPath}.new`, '4096']);
+      expect(run).toHaveBeenCalledWith('openssl', [
+        'x509', '-req', '-in', `${intermediateCertPath}.csr`, '-CA', path.join(testCADir, 'rootCA.crt'),
+        '-CAkey', path.join(testCADir, 'rootCA.key'), '-CAcreateserial',
+        '-out', `${intermediateCertPath}.new`, '-days', '1825', '-sha256',
+        '-extensions', 'v3_intermediate_ca', '-extfile', `${intermediateCertPath}.cnf`
+      ]);
+      expect(fs.writeFile).toHaveBeenCalledWith(`${intermediateCertPath}.cnf`, expect.stringContaining('CA:TRUE, pathlen:0'));
+      expect(fs.rename).toHaveBeenCalledWith(`${intermediateKeyPath}.new`, intermediateKeyPath);
+      expect(fs.rename).toHaveBeenCalledWith(`${intermediateCertPath}.new`, intermediateCertPath);
+    });
+
+    it('should encrypt the root CA key when a passphrase is set', async () => {
+      process.env.NAVIGRATOR_CA_PASSPHRASE = 'correct horse';
+      simulateCreatedFiles();
+
+      try {
+        await certManager.initialize();
+      } finally {
+        delete process.env.NAVIGRATOR_CA_PASSPHRASE;
+      }
+
+      // The passphrase reaches OpenSSL through its environment, never its arguments
+      const options = { env: { NAVIGRATOR_CA_PASSPHRASE: 'correct horse' } };
+      expect(run).toHaveBeenCalledWith('openssl', [
+        'genrsa', '-aes256', '-passout', 'env:NAVIGRATOR_CA_PASSPHRASE', '-out', path.join(testCADir, 'rootCA.key'), '4096'
+      ], options);
+      expect(run).toHaveBeenCalledWith('openssl', expect.arrayContaining(['-CAkey', path.join(testCADir, 'rootCA.key'), '-passin']), options);
+
+      // The intermediate CA key is used for every certificate, so it isn't encrypted
+      expect(run).toHaveBeenCalledWith('openssl', ['genrsa', '-out', `${path.join(testCADir, 'intermediateCA.key')}.new`, '4096']);
     });
 
     it('should skip CA creation if it already exists', async () => {
       (fs.access as jest.Mock).mockResolvedValue(undefined);
+      jest.spyOn(certManager.getCAGenerator(), 'isIssuedByRoot').mockResolvedValue(true);
+      run.mockImplementation(async (command: string, args: string[]) => {
+        const outputs: { [flag: string]: string } = {
+          '-dates': 'notBefore=Jan  1 00:00:00 2020 GMT\nnotAfter=Jan  1 00:00:00 2999 GMT\n',
+          '-issuer': 'issuer=CN = Navigrator Local CA, O = Axlotl Lab\n'
+        };
+        return { stdout: outputs[args[4]] || '', stderr: '' };
+      });
 
       await certManager.initialize();
 
-      // Verify exec was only called once for OpenSSL version check
-      expect(exec).toHaveBeenCalledTimes(1);
+      // Verify OpenSSL was only run for the version check and to read the intermediate CA
+      const intermediateCertPath = path.join(testCADir, 'intermediateCA.crt');
+      expect(run.mock.calls).toEqual([
+        ['openssl', ['version']],
+        ['openssl', ['x509', '-in', intermediateCertPath, '-noout', '-dates']],
+        ['openssl', ['x509', '-in', intermediateCertPath, '-noout', '-issuer']],
+        ['openssl', ['x509', '-in', intermediateCertPath, '-noout', '-ext', 'subjectAltName']]
+      ]);
     });
 
-    it('should throw error if OpenSSL is not installed', async () => {
-      (exec as unknown as jest.Mock).mockImplementation((cmd, callback) => {
-        if (callback) {
-          callback(new Error('Command not found'), { stdout: '', stderr: 'Command not found' });
-        }
-        throw new Error('Command not found');
+    it('should replace an intermediate CA that could expire before the certificates it issues', async () => {
+      (fs.access as jest.Mock).mockResolvedValue(undefined);
+      jest.spyOn(certManager.getCAGenerator(), 'isIssuedByRoot').mockResolvedValue(true);
+      run.mockImplementation(async (command: string, args: string[]) => {
+        const outputs: { [flag: string]: string } = {
+          '-dates': `notBefore=Jan  1 00:00:00 2020 GMT\nnotAfter=${new Date(Date.now() + 400 * 24 * 60 * 60 * 1000).toUTCString()}\n`,
+          '-issuer': 'issuer=CN = Navigrator Local CA, O = Axlotl Lab\n'
+        };
+        return { stdout: outputs[args[4]] || '', stderr: '' };
       });
 
+      await certManager.initialize();
+
+      expect(run).toHaveBeenCalledWith('openssl', ['genrsa', '-out', `${path.join(testCADir, 'intermediateCA.key')}.new`, '4096']);
+      expect(run).not.toHaveBeenCalledWith('openssl', expect.arrayContaining([path.join(testCADir, 'rootCA.key'), '4096']));
+    });
+
+    it('should throw error if OpenSSL is not installed', async () => {
+      run.mockRejectedValue(new CommandError('openssl was not found in the PATH', 'openssl', ['version'], null, ''));
+
       await expect(certManager.initialize()).rejects.toThrow('OpenSSL is not installed');
     });
   });
 
   describe('createCertificate', () => {
     beforeEach(async () => {
-      (certManager as any).hasOpenSSL = true;
+      (certManager as any).backendAvailable = true;
       (certManager as any).certsDir = testDir;
       (certManager as any).caDir = testCADir;
 
@@ -107,27 +174,40 @@ describe('CertificateManager', () => {
     it('should create certificate files with OpenSSL', async () => {
       const result = await certManager.createCertificate('test.local');
 
-      // Check that OpenSSL commands were executed
-      expect(fs.writeFile).toHaveBeenCalledWith(
-        expect.stringContaining('test.local.cnf'),
-        expect.stringContaining('[req]')
-      );
-      expect(exec).toHaveBeenCalledWith(
-        expect.stringContaining('openssl genrsa'),
-        expect.any(Function)
-      );
-      expect(exec).toHaveBeenCalledWith(
-        expect.stringContaining('openssl req -new'),
-        expect.any(Function)
-      );
-      expect(exec).toHaveBeenCalledWith(
-        expect.stringContaining('openssl x509 -req'),
-        expect.any(Function)
-      );
+      // The new files are written next to the current ones and swapped in once complete
+      const keyPath = path.join(testDir, 'test.local.key.new');
+      const certPath = path.join(testDir, 'test.local.crt.new');
+      const csrPath = path.join(testDir, 'test.local.crt.csr');
+      const configPath = path.join(testDir, 'test.local.crt.cnf');
+
+      // Check that OpenSSL commands were executed with exact arguments
+      expect(fs.writeFile).toHaveBeenCalledWith(configPath, expect.stringContaining('[req]'));
+      expect(run.mock.calls).toEqual([
+        ['openssl', ['genrsa', '-out', keyPath, '2048']],
+        ['openssl', [
+          'req', '-new', '-key', keyPath, '-out', csrPath,
+          '-config', configPath, '-subj', '/CN=test.local/O=Axlotl Lab/OU=Development'
+        ]],
+        ['openssl', [
+          'x509', '-req', '-in', csrPath, '-CA', path.join(testCADir, 'intermediateCA.crt'),
+          '-CAkey', path.join(testCADir, 'intermediateCA.key'), '-CAcreateserial',
+          '-out', certPath, '-days', '365', '-sha256',
+          '-extensions', 'v3_req', '-extfile', configPath
+        ]]
+      ]);
+
+      // The intermediate CA is served along with the certificate
+      expect(fs.appendFile).toHaveBeenCalledWith(certPath, INTERMEDIATE_PEM);
+      expect((fs.rename as jest.Mock).mock.calls).toEqual([
+        [certPath, path.join(testDir, 'test.local.crt')],
+        [keyPath, path.join(testDir, 'test.local.key')],
+        [path.join(testDir, 'test.local.json.new'), path.join(testDir, 'test.local.json')]
+      ]);
+      expect(fs.unlink).toHaveBeenCalledWith(path.join(testDir, 'test.local.crt.bak'));
 
       // Check that temporary files were cleaned up
-      expect(fs.unlink).toHaveBeenCalledWith(expect.stringContaining('test.local.csr'));
-      expect(fs.unlink).toHaveBeenCalledWith(expect.stringContaining('test.local.cnf'));
+      expect(fs.unlink).toHaveBeenCalledWith(csrPath);
+      expect(fs.unlink).toHaveBeenCalledWith(configPath);
 
       // Check that certificate was verified
       expect(certManager['parseCertificate']).toHaveBeenCalledWith('test.local');
@@ -139,34 +219,138 @@ describe('CertificateManager', () => {
       }));
     });
 
+    it('should include aliases as DNS and IP names and record them', async () => {
+      await certManager.createCertificate('test.local', { aliases: ['API.test.local', 'localhost', '127.0.0.1', '::1', 'test.local'] });
+
+      const config = (fs.writeFile as jest.Mock).mock.calls.find(([file]) => file.endsWith('.cnf'))[1];
+      expect(config).toContain('DNS.1 = test.local\nDNS.2 = api.test.local\nDNS.3 = localhost\nIP.1 = 127.0.0.1\nIP.2 = ::1');
+      expect(fs.writeFile).toHaveBeenCalledWith(
+        path.join(testDir, 'test.local.json.new'),
+        JSON.stringify({
+          domain: 'test.local',
+          aliases: ['api.test.local', 'localhost', '127.0.0.1', '::1'],
+          profile: CERTIFICATE_PROFILES.default
+        }, null, 2)
+      );
+    });
+
+    it('should store wildcard certificates under a safe file name', async () => {
+      await certManager.createCertificate('*.MyApp.test');
+
+      const configPath = path.join(testDir, '_wildcard.myapp.test.crt.cnf');
+      expect(fs.writeFile).toHaveBeenCalledWith(configPath, expect.stringContaining('DNS.1 = *.myapp.test\n'));
+      expect(run).toHaveBeenCalledWith('openssl', ['genrsa', '-out', path.join(testDir, '_wildcard.myapp.test.key.new'), '2048']);
+      expect(run).toHaveBeenCalledWith('openssl', expect.arrayContaining(['-subj', '/CN=*.myapp.test/O=Axlotl Lab/OU=Development']));
+      expect(fs.rename).toHaveBeenCalledWith(path.join(testDir, '_wildcard.myapp.test.crt.new'), path.join(testDir, '_wildcard.myapp.test.crt'));
+    });
+
+    it('should reject wildcards covering a whole top-level domain', async () => {
+      await expect(certManager.createCertificate('*.test')).rejects.toThrow('Invalid wildcard domain: *.test');
+      expect(run).not.toHaveBeenCalled();
+    });
+
+    it('should keep the recorded aliases when renewing without any', async () => {
+      (fs.readFile as jest.Mock).mockResolvedValue(JSON.stringify({ domain: 'test.local', aliases: ['localhost'] }));
+
+      await certManager.createCertificate('test.local');
+
+      expect(fs.writeFile).toHaveBeenCalledWith(expect.stringContaining('test.local.crt.cnf'), expect.stringContaining('DNS.2 = localhost'));
+    });
+
+    it('should issue ECDSA certificates for ECDSA profiles', async () => {
+      await certManager.createCertificate('test.local', { profile: 'ecdsa-p256' });
+
+      const keyPath = path.join(testDir, 'test.local.key.new');
+      const config = (fs.writeFile as jest.Mock).mock.calls.find(([file]) => file.endsWith('.cnf'))[1];
+      expect(run).toHaveBeenCalledWith('openssl', ['genpkey', '-algorithm', 'EC', '-pkeyopt', 'ec_paramgen_curve:P-256', '-out', keyPath]);
+      expect(config).toContain('keyUsage = digitalSignature\nextendedKeyUsage = serverAuth\n');
+      expect(config).not.toContain('default_bits');
+    });
+
+    it('should apply the validity, usages and organization of custom profiles', async () => {
+      await certManager.createCertificate('test.local', {
+        profile: { ...CERTIFICATE_PROFILES.mtls, name: 'corp', validityDays: 30, organization: 'Corp' }
+      });
+
+      const config = (fs.writeFile as jest.Mock).mock.calls.find(([file]) => file.endsWith('.cnf'))[1];
+      expect(config).toContain('extendedKeyUsage = serverAuth, clientAuth\n');
+      expect(run).toHaveBeenCalledWith('openssl', expect.arrayContaining(['-subj', '/CN=test.local/O=Corp/OU=Development']));
+      expect(run).toHaveBeenCalledWith('openssl', expect.arrayContaining(['-days', '30']));
+    });
+
+    it('should keep the recorded profile when renewing without one', async () => {
+      (fs.readFile as jest.Mock).mockResolvedValue(JSON.stringify({
+        domain: 'test.local', aliases: [], profile: CERTIFICATE_PROFILES['short-lived']
+      }));
+
+      await certManager.createCertificate('test.local');
+
+      expect(run).toHaveBeenCalledWith('openssl', expect.arrayContaining(['-days', '7']));
+    });
+
+    it('should reject unknown profiles', async () => {
+      await expect(certManager.createCertificate('test.local', { profile: 'dsa' })).rejects.toThrow('Unknown certificate profile "dsa"');
+      expect(run).not.toHaveBeenCalled();
+    });
+
+    it('should reject invalid aliases', async () => {
+      await expect(certManager.createCertificate('test.local', { aliases: ['bad name'] })).rejects.toThrow('Invalid hostname or IP address');
+      expect(run).not.toHaveBeenCalled();
+    });
+
     it('should throw error if OpenSSL is not available', async () => {
-      (certManager as any).hasOpenSSL = false;
+      (certManager as any).backendAvailable = false;
 
       await expect(certManager.createCertificate('test.local')).rejects.toThrow('OpenSSL is not available');
     });
 
-    it('should handle errors during certificate creation', async () => {
-      (exec as unknown as jest.Mock).mockImplementation((cmd, callback) => {
-        if (cmd.includes('openssl genrsa')) {
-          if (callback) {
-            callback(new Error('Failed to generate key'), { stdout: '', stderr: 'Failed to generate key' });
-          }
-          throw new Error('Failed to generate key');
-        }
-        if (callback) {
-          callback(null, { stdout: '', stderr: '' });
+    it('should reject domains that would inject shell commands', async () => {
+      await expect(certManager.createCertificate('test.local"; rm -rf ~; "')).rejects.toThrow('Invalid domain');
+
+      expect(run).not.toHaveBeenCalled();
+      expect(fs.writeFile).not.toHaveBeenCalled();
+    });
+
+    it('should surface OpenSSL errors during certificate creation', async () => {
+      run.mockImplementation(async (command: string, args: string[]) => {
+        if (args[0] === 'genrsa') {
+          throw new CommandError('openssl genrsa failed with exit code 1: unable to write key', command, args, 1, 'unable to write key');
         }
         return { stdout: '', stderr: '' };
       });
 
-      await expect(certManager.createCertificate('test.local')).rejects.toThrow('Failed to create certificate');
+      await expect(certManager.createCertificate('test.local')).rejects.toThrow('Failed to create certificate: openssl genrsa failed with exit code 1: unable to write key');
+
+      // The current certificate and key are left in place
+      expect(fs.rename).not.toHaveBeenCalled();
+      expect(fs.unlink).toHaveBeenCalledWith(path.join(testDir, 'test.local.key.new'));
+      expect(fs.unlink).toHaveBeenCalledWith(path.join(testDir, 'test.local.crt.new'));
+    });
+
+    it('should put the current files back when swapping in the new ones fails', async () => {
+      const certPath = path.join(testDir, 'test.local.crt');
+      const keyPath = path.join(testDir, 'test.local.key');
+      (fs.rename as jest.Mock)
+        .mockResolvedValueOnce(undefined)
+        .mockRejectedValueOnce(Object.assign(new Error('EIO: i/o error'), { code: 'EIO' }));
+
+      await expect(certManager.createCertificate('test.local')).rejects.toThrow('Failed to create certificate: EIO: i/o error');
+
+      expect(fs.copyFile).toHaveBeenCalledWith(certPath, `${certPath}.bak`);
+      expect(fs.copyFile).toHaveBeenCalledWith(keyPath, `${keyPath}.bak`);
+      expect(fs.rename).toHaveBeenCalledWith(`${certPath}.bak`, certPath);
+      expect(fs.rename).toHaveBeenCalledWith(`${keyPath}.bak`, keyPath);
+      expect(fs.unlink).toHaveBeenCalledWith(path.join(testDir, 'test.local.json.new'));
     });
   });
 
   describe('verifyCertificate', () => {
+    let isIssuedByRoot: jest.SpyInstance;
+
     beforeEach(() => {
       (certManager as any).certsDir = testDir;
       (fs.access as jest.Mock).mockResolvedValue(undefined);
+      isIssuedByRoot = jest.spyOn(certManager.getCAGenerator(), 'isIssuedByRoot').mockResolvedValue(true);
     });
 
     it('should return null if certificate files do not exist', async () => {
@@ -176,6 +360,86 @@ describe('CertificateManager', () => {
 
       expect(result).toBeNull();
     });
+
+    it('should read the dates, issuer and names of the certificate', async () => {
+      const certPath = path.join(testDir, 'test.local.crt');
+      run.mockImplementation(async (command: string, args: string[]) => {
+        const outputs: { [flag: string]: string } = {
+          '-dates': 'notBefore=Jan  1 00:00:00 2020 GMT\nnotAfter=Jan  1 00:00:00 2999 GMT\n',
+          '-issuer': 'issuer=CN = Navigrator Local CA, O = Axlotl Lab\n',
+          '-ext': 'X509v3 Subject Alternative Name:\n    DNS:test.local\n'
+        };
+        return { stdout: outputs[args[4]] || '', stderr: '' };
+      });
+
+      const result = await certManager.verifyCertificate('test.local');
+
+      expect(run).toHaveBeenCalledWith('openssl', ['x509', '-in', certPath, '-noout', '-dates']);
+      expect(run).toHaveBeenCalledWith('openssl', ['x509', '-in', certPath, '-noout', '-issuer']);
+      expect(run).toHaveBeenCalledWith('openssl', ['x509', '-in', certPath, '-noout', '-ext', 'subjectAltName']);
+      expect(result).toEqual(expect.objectContaining({ domain: 'test.local', issuer: 'Navigrator Local CA', isValid: true }));
+    });
+
+    it('should require every recorded alias to be in the certificate', async () => {
+      (fs.readFile as jest.Mock).mockResolvedValue(JSON.stringify({ domain: 'test.local', aliases: ['localhost', '::1', '127.0.0.1'] }));
+      run.mockImplementation(async (command: string, args: string[]) => {
+        const outputs: { [flag: string]: string } = {
+          '-dates': 'notBefore=Jan  1 00:00:00 2020 GMT\nnotAfter=Jan  1 00:00:00 2999 GMT\n',
+          '-ext': 'X509v3 Subject Alternative Name:\n    DNS:test.local, DNS:localhost, IP Address:0:0:0:0:0:0:0:1\n'
+        };
+        return { stdout: outputs[args[4]] || '', stderr: '' };
+      });
+
+      const result = await certManager.verifyCertificate('test.local');
+
+      expect(result?.isValid).toBe(false);
+      expect(result?.aliases).toEqual(['localhost', '::1', '127.0.0.1']);
+      expect(result?.missingNames).toEqual(['127.0.0.1']);
+    });
+
+    it('should report the chain and require it to lead to the current root CA', async () => {
+      const readCertificate = jest.spyOn((certManager as any).backend, 'readCertificate');
+      const details = {
+        validFrom: new Date('2020-01-01'),
+        validTo: new Date('2999-01-01'),
+        issuer: 'Navigrator Intermediate CA',
+        subjectAltNames: ['test.local']
+      };
+      const intermediate = { subject: 'Navigrator Intermediate CA', issuer: 'Navigrator Local CA', validTo: new Date('2999-01-01') };
+
+      readCertificate.mockResolvedValue({ ...details, chain: [intermediate] });
+      const complete = await certManager.verifyCertificate('test.local');
+
+      // Same names, but signed by a root CA that was since replaced
+      isIssuedByRoot.mockResolvedValue(false);
+      const incomplete = await certManager.verifyCertificate('test.local');
+
+      expect(isIssuedByRoot).toHaveBeenCalledWith(path.join(testDir, 'test.local.crt'));
+      expect(complete).toEqual(expect.objectContaining({ isValid: true, chain: [intermediate] }));
+      expect(complete?.incompleteChain).toBeUndefined();
+      expect(incomplete).toEqual(expect.objectContaining({ isValid: false, incompleteChain: true }));
+    });
+  });
+
+  describe('runExclusive', () => {
+    it('should run tasks one after another, even when one fails', async () => {
+      const events: string[] = [];
+      const task = (name: string, fail: boolean = false) => async () => {
+        events.push(`${name} started`);
+        await new Promise(resolve => setImmediate(resolve));
+        events.push(`${name} done`);
+        if (fail) throw new Error(`${name} failed`);
+        return name;
+      };
+
+      const results = await Promise.allSettled([
+        certManager.runExclusive(task('rotation', true)),
+        certManager.runExclusive(task('renewal'))
+      ]);
+
+      expect(events).toEqual(['rotation started', 'rotation done', 'renewal started', 'renewal done']);
+      expect(results.map(result => result.status)).toEqual(['rejected', 'fulfilled']);
+    });
   });
 
   describe('deleteCertificate', () => {
@@ -216,6 +480,32 @@ describe('CertificateManager', () => {
     });
   });
 
+  describe('findCertificate', () => {
+    const certificateFor = (domain: string, isValid: boolean = true) => ({
+      domain,
+      validFrom: new Date(),
+      validTo: new Date(),
+      issuer: 'Navigrator Local CA',
+      isValid,
+      certFilePath: path.join(testDir, `${domain}.crt`),
+      keyFilePath: path.join(testDir, `${domain}.key`)
+    });
+
+    it('should prefer the certificate of the hostname itself', async () => {
+      jest.spyOn(certManager, 'verifyCertificate').mockImplementation(async (domain) => certificateFor(domain));
+
+      expect((await certManager.findCertificate('feature.myapp.test'))?.domain).toBe('feature.myapp.test');
+    });
+
+    it('should fall back to a wildcard certificate covering the hostname', async () => {
+      jest.spyOn(certManager, 'verifyCertificate').mockImplementation(async (domain) =>
+        domain === '*.myapp.test' ? certificateFor(domain) : null);
+
+      expect((await certManager.findCertificate('feature.myapp.test'))?.domain).toBe('*.myapp.test');
+      expect(await certManager.findCertificate('deep.feature.myapp.test')).toBeNull();
+    });
+  });
+
   describe('listCertificates', () => {
     beforeEach(() => {
       (fs.readdir as jest.Mock).mockResolvedValue([
@@ -268,6 +558,14 @@ describe('CertificateManager', () => {
       expect(certificates[0].domain).toBe('test2.local');
     });
 
+    it('should map wildcard file names back to their domain', async () => {
+      (fs.readdir as jest.Mock).mockResolvedValue(['_wildcard.myapp.test.crt', '_wildcard.myapp.test.key']);
+
+      const certificates = await certManager.listCertificates();
+
+      expect(certificates.map(certificate => certificate.domain)).toEqual(['*.myapp.test']);
+    });
+
     it('should handle errors when listing certificates', async () => {
       (fs.readdir as jest.Mock).mockRejectedValue(new Error('Permission denied'));
 
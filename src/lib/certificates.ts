@@ -1,10 +1,11 @@
-import { exec } from 'child_process';
 import * as fs from 'fs/promises';
+import * as net from 'net';
 import * as os from 'os';
 import * as path from 'path';
-import { promisify } from 'util';
-
-const execAsync = promisify(exec);
+import { CAGenerator } from './ca-generator';
+import { canonicalIP, CertificateBackend, CertificateChainEntry, createCertificateBackend, createSubject } from './certificate-backend';
+import { CertificateProfile, DEFAULT_PROFILE_NAME, getProfileKeyOptions, resolveCertificateProfile } from './certificate-profiles';
+import { getWildcardDomain, isWildcardDomain, parseDomainPattern, parseHostnameOrIP, validateDomainPattern, ValidationError } from './validation';
 
 export interface CertificateInfo {
   domain: string;
@@ -14,40 +15,111 @@ export interface CertificateInfo {
   isValid: boolean;
   certFilePath?: string;
   keyFilePath?: string;
+  /** Other names the certificate covers besides the domain: hostnames and IP addresses */
+  aliases?: string[];
+  /** Names the certificate should cover but doesn't, which makes it invalid */
+  missingNames?: string[];
+  /** Name of the profile the certificate was issued with */
+  profile?: string;
+  /** CA certificates served along with it, from its issuer towards the root */
+  chain?: CertificateChainEntry[];
+  /** Set when the chain doesn't lead to the current root CA, which makes it invalid */
+  incompleteChain?: boolean;
+}
+
+export interface CertificateOptions {
+  /** Hostnames and IP addresses to cover besides the domain (e.g. api.myapp.local, localhost, 127.0.0.1) */
+  aliases?: string[];
+  /** Profile name or custom profile to issue with */
+  profile?: string | CertificateProfile;
+}
+
+/**
+ * Stored next to each certificate as `<file name>.json`, recording the names it was issued for
+ */
+interface CertificateMetadata {
+  domain: string;
+  aliases: string[];
+  /** Missing for certificates created before profiles existed */
+  profile?: CertificateProfile;
+}
+
+const WILDCARD_FILE_PREFIX = '_wildcard.';
+
+/**
+ * File name (without extension) for a domain's certificate files. `*` isn't safe in file names, so
+ * *.myapp.test is stored as _wildcard.myapp.test
+ */
+export function getCertificateFileName(domain: string): string {
+  return isWildcardDomain(domain) ? `${WILDCARD_FILE_PREFIX}${domain.slice(2)}` : domain;
+}
+
+/**
+ * The domain a certificate file name belongs to, reversing getCertificateFileName
+ */
+export function getDomainFromCertificateFileName(fileName: string): string {
+  return fileName.startsWith(WILDCARD_FILE_PREFIX) ? `*.${fileName.slice(WILDCARD_FILE_PREFIX.length)}` : fileName;
+}
+
+/**
+ * Validate and normalize certificate aliases, dropping duplicates and the domain itself
+ */
+export function normalizeCertificateAliases(domain: string, aliases: unknown): string[] {
+  if (!Array.isArray(aliases)) {
+    throw new ValidationError('Aliases must be a list of hostnames or IP addresses', 'aliases', 'invalid_aliases');
+  }
+
+  const names = aliases.map(alias => parseHostnameOrIP(alias, 'aliases'));
+  return Array.from(new Set(names)).filter(name => name !== domain);
 }
 
 export class CertificateManager {
   private certsDir: string;
   private caDir: string;
-  private hasOpenSSL: boolean;
+  private backendAvailable: boolean;
+  private backend: CertificateBackend;
+  private caGenerator: CAGenerator;
+  /** Settles when the last task passed to runExclusive is done */
+  private exclusiveTask: Promise<unknown> = Promise.resolve();
 
-  constructor(certsDir?: string) {
+  constructor(certsDir?: string, backend: CertificateBackend = createCertificateBackend()) {
     this.certsDir = certsDir || path.join(os.homedir(), '.navigrator', 'certs');
     this.caDir = path.join(this.certsDir, 'ca');
-    this.hasOpenSSL = false; // Will be validated in initialize()
+    this.backendAvailable = false; // Will be validated in initialize()
+    this.backend = backend;
+    this.caGenerator = new CAGenerator(this.certsDir, backend);
+  }
+
+  public getCertsDir(): string {
+    return this.certsDir;
   }
 
   /**
-   * Check if OpenSSL is installed on the system
+   * The generator managing the CA that signs this manager's certificates
    */
-  private async checkOpenSSLInstalled(): Promise<boolean> {
-    try {
-      await execAsync('openssl version');
-      return true;
-    } catch (error) {
-      return false;
-    }
+  public getCAGenerator(): CAGenerator {
+    return this.caGenerator;
+  }
+
+  /**
+   * Run a task that rewrites many certificate files (renewal, CA rotation) once the previous one is done, so two of
+   * them never write the same files at the same time
+   */
+  public runExclusive<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.exclusiveTask.then(task);
+    this.exclusiveTask = result.catch(() => undefined);
+    return result;
   }
 
   /**
-   * Initialize the certificate directory and validate OpenSSL
+   * Initialize the certificate directory and validate the certificate backend
    */
   public async initialize(): Promise<void> {
     try {
-      // Verify OpenSSL
-      this.hasOpenSSL = await this.checkOpenSSLInstalled();
-      if (!this.hasOpenSSL) {
-        throw new Error('OpenSSL is not installed. Please install OpenSSL to continue.');
+      // Verify the backend can run (OpenSSL must be installed to use it)
+      this.backendAvailable = await this.backend.isAvailable();
+      if (!this.backendAvailable) {
+        throw new Error(`${this.backend.label} is not installed. Please install ${this.backend.label} to continue.`);
       }
 
       // Create required directories
@@ -64,74 +136,74 @@ export class CertificateManager {
   }
 
   /**
-   * Initialize a local CA to sign certificates
+   * Initialize a local CA to sign certificates, and the intermediate CA that issues them
    */
   private async initLocalCA(): Promise<void> {
-    const caKeyPath = path.join(this.caDir, 'rootCA.key');
-    const caCertPath = path.join(this.caDir, 'rootCA.crt');
-
-    // Check if CA already exists
-    try {
-      await fs.access(caKeyPath);
-      await fs.access(caCertPath);
-      return; // CA already exists
-    } catch (error) {
-      // Doesn't exist, need to create it
+    if (!await this.caGenerator.checkCAExists()) {
+      await this.caGenerator.generateCA();
+      console.log('Local CA created successfully');
+      return;
     }
 
-    // Create private key for the CA
-    await execAsync(`openssl genrsa -out "${caKeyPath}" 4096`);
-
-    // Create certificate for the CA (valid for 10 years)
-    await execAsync(
-      `openssl req -x509 -new -nodes -key "${caKeyPath}" -sha256 -days 3650 ` +
-      `-out "${caCertPath}" -subj "/CN=Navigrator Local CA/O=Axlotl Lab/OU=Development"`
-    );
-
-    console.log('Local CA created successfully');
+    if (await this.caGenerator.ensureIntermediateCA()) {
+      console.log('Intermediate CA created successfully');
+    }
   }
 
   /**
-   * Create a certificate for a domain using OpenSSL
+   * Create a certificate for a domain signed by the local CA. Without aliases or a profile, a renewed certificate keeps
+   * the names and profile it had
    */
-  public async createCertificate(domain: string): Promise<CertificateInfo> {
-    if (!this.hasOpenSSL) {
-      throw new Error('OpenSSL is not available');
+  public async createCertificate(domain: string, options: CertificateOptions = {}): Promise<CertificateInfo> {
+    // The domain ends up in file paths and, with OpenSSL, commands and config files, so it must be a hostname or wildcard pattern
+    domain = parseDomainPattern(domain);
+    const previous = await this.readMetadata(domain);
+    const aliases = options.aliases !== undefined
+      ? normalizeCertificateAliases(domain, options.aliases)
+      : previous?.aliases || [];
+    const profile = resolveCertificateProfile(options.profile ?? previous?.profile ?? DEFAULT_PROFILE_NAME);
+
+    if (!this.backendAvailable) {
+      throw new Error(`${this.backend.label} is not available`);
     }
 
+    const fileName = getCertificateFileName(domain);
+    const keyPath = path.join(this.certsDir, `${fileName}.key`);
+    const certPath = path.join(this.certsDir, `${fileName}.crt`);
+
+    const metadataPath = this.getMetadataPath(domain);
+
+    // Write next to the current files and swap them in once all are complete, so a failure leaves the current pair
+    // in place and running proxies can still restart with it
+    const newKeyPath = `${keyPath}.new`;
+    const newCertPath = `${certPath}.new`;
+    const newMetadataPath = `${metadataPath}.new`;
+
     try {
-      const keyPath = path.join(this.certsDir, `${domain}.key`);
-      const csrPath = path.join(this.certsDir, `${domain}.csr`);
-      const certPath = path.join(this.certsDir, `${domain}.crt`);
-      const configPath = path.join(this.certsDir, `${domain}.cnf`);
-
-      // Create configuration file for the certificate
-      const configContent = this.generateOpenSSLConfig(domain);
-      await fs.writeFile(configPath, configContent);
-
-      // Generate private key for the domain
-      await execAsync(`openssl genrsa -out "${keyPath}" 2048`);
-
-      // Create CSR (Certificate Signing Request)
-      await execAsync(
-        `openssl req -new -key "${keyPath}" -out "${csrPath}" ` +
-        `-config "${configPath}" -subj "/CN=${domain}/O=Axlotl Lab/OU=Development"`
-      );
-
-      // Sign the certificate with our CA
-      const caKeyPath = path.join(this.caDir, 'rootCA.key');
-      const caCertPath = path.join(this.caDir, 'rootCA.crt');
-
-      await execAsync(
-        `openssl x509 -req -in "${csrPath}" -CA "${caCertPath}" ` +
-        `-CAkey "${caKeyPath}" -CAcreateserial ` +
-        `-out "${certPath}" -days 365 -sha256 ` +
-        `-extensions v3_req -extfile "${configPath}"`
-      );
-
-      // Remove temporary files
-      await fs.unlink(csrPath);
-      await fs.unlink(configPath);
+      const { intermediateKeyPath, intermediateCertPath } = this.caGenerator.getCAPaths();
+
+      // Issue a certificate for the domain and its aliases as the profile says, signed by our intermediate CA
+      await this.backend.issueCertificate({
+        keyPath: newKeyPath,
+        certPath: newCertPath,
+        caKeyPath: intermediateKeyPath,
+        caCertPath: intermediateCertPath,
+        subject: createSubject(domain, profile.organization, profile.organizationalUnit),
+        dnsNames: [domain, ...aliases.filter(name => !net.isIP(name))],
+        ipAddresses: aliases.filter(name => net.isIP(name)),
+        days: profile.validityDays,
+        key: getProfileKeyOptions(profile),
+        extendedKeyUsages: profile.extendedKeyUsages
+      });
+
+      // Serve the intermediate along with the certificate, so clients can build the path to the trusted root
+      await fs.appendFile(newCertPath, await fs.readFile(intermediateCertPath, 'utf-8'));
+
+      // Record the names so verification can check every one of them, and the profile so renewals reuse it
+      const metadata: CertificateMetadata = { domain, aliases, profile };
+      await fs.writeFile(newMetadataPath, JSON.stringify(metadata, null, 2));
+
+      await this.replaceFiles([[newCertPath, certPath], [newKeyPath, keyPath], [newMetadataPath, metadataPath]]);
 
       // Verify the created certificate
       const certInfo = await this.parseCertificate(domain);
@@ -141,41 +213,76 @@ export class CertificateManager {
       return certInfo;
 
     } catch (error: any) {
+      await fs.unlink(newKeyPath).catch(() => undefined);
+      await fs.unlink(newCertPath).catch(() => undefined);
+      await fs.unlink(newMetadataPath).catch(() => undefined);
       console.error(`Error creating certificate for ${domain}:`, error);
       throw new Error(`Failed to create certificate: ${error?.message}`);
     }
   }
 
   /**
-   * Generate an OpenSSL configuration file for the certificate
+   * Move new files over the current ones, given as [new, current] pairs. The current files are backed up first and
+   * put back if any move fails, so a certificate never ends up next to a key or metadata it doesn't match
    */
-  private generateOpenSSLConfig(domain: string): string {
-    return `[req]
-default_bits = 2048
-distinguished_name = req_distinguished_name
-req_extensions = v3_req
-prompt = no
-
-[req_distinguished_name]
-CN = ${domain}
-O = Axlotl Lab
-OU = Development
-
-[v3_req]
-basicConstraints = CA:FALSE
-keyUsage = digitalSignature, keyEncipherment
-extendedKeyUsage = serverAuth
-subjectAltName = @alt_names
-
-[alt_names]
-DNS.1 = ${domain}
-`;
+  private async replaceFiles(replacements: Array<[string, string]>): Promise<void> {
+    const backups: Array<[string, string | null]> = [];
+
+    try {
+      for (const [, file] of replacements) {
+        const backupPath = `${file}.bak`;
+        try {
+          await fs.copyFile(file, backupPath);
+          backups.push([file, backupPath]);
+        } catch (error: any) {
+          // A first certificate has nothing to back up
+          if (error?.code !== 'ENOENT') {
+            throw error;
+          }
+          backups.push([file, null]);
+        }
+      }
+
+      for (const [newFile, file] of replacements) {
+        await fs.rename(newFile, file);
+      }
+    } catch (error) {
+      for (const [file, backupPath] of backups) {
+        await (backupPath ? fs.rename(backupPath, file) : fs.unlink(file)).catch(() => undefined);
+      }
+      throw error;
+    }
+
+    for (const [, backupPath] of backups) {
+      if (backupPath) {
+        await fs.unlink(backupPath).catch(() => undefined);
+      }
+    }
+  }
+
+  private getMetadataPath(domain: string): string {
+    return path.join(this.certsDir, `${getCertificateFileName(domain)}.json`);
+  }
+
+  /**
+   * Read the names and profile a certificate was issued with; certificates created before aliases existed have none
+   */
+  private async readMetadata(domain: string): Promise<CertificateMetadata | null> {
+    try {
+      const content = await fs.readFile(this.getMetadataPath(domain), 'utf-8');
+      const metadata = JSON.parse(content);
+      return Array.isArray(metadata?.aliases) ? { domain, aliases: metadata.aliases, profile: metadata.profile } : null;
+    } catch (error) {
+      return null;
+    }
   }
 
   /**
    * Delete a certificate for a domain
    */
   public async deleteCertificate(domain: string): Promise<boolean> {
+    domain = parseDomainPattern(domain);
+
     try {
       const certInfo = await this.verifyCertificate(domain);
 
@@ -186,6 +293,7 @@ DNS.1 = ${domain}
       try {
         await fs.unlink(certInfo.certFilePath);
         await fs.unlink(certInfo.keyFilePath);
+        await fs.unlink(this.getMetadataPath(domain)).catch(() => undefined);
         return true;
       } catch (error) {
         console.error(`Error deleting certificate files for ${domain}:`, error);
@@ -201,9 +309,14 @@ DNS.1 = ${domain}
    * Verify if a valid certificate exists for the domain
    */
   public async verifyCertificate(domain: string): Promise<CertificateInfo | null> {
+    // Names that aren't hostnames (e.g. stray files in the certs directory) never have a certificate
+    if (validateDomainPattern(domain)) {
+      return null;
+    }
+
     try {
-      const certPath = path.join(this.certsDir, `${domain}.crt`);
-      const keyPath = path.join(this.certsDir, `${domain}.key`);
+      const certPath = path.join(this.certsDir, `${getCertificateFileName(domain)}.crt`);
+      const keyPath = path.join(this.certsDir, `${getCertificateFileName(domain)}.key`);
 
       // Check if files exist
       try {
@@ -225,8 +338,8 @@ DNS.1 = ${domain}
    */
   private async parseCertificate(domain: string): Promise<CertificateInfo | null> {
     try {
-      const certPath = path.join(this.certsDir, `${domain}.crt`);
-      const keyPath = path.join(this.certsDir, `${domain}.key`);
+      const certPath = path.join(this.certsDir, `${getCertificateFileName(domain)}.crt`);
+      const keyPath = path.join(this.certsDir, `${getCertificateFileName(domain)}.key`);
 
       // Verify that the certificate exists
       try {
@@ -236,41 +349,18 @@ DNS.1 = ${domain}
         return null;
       }
 
-      // Validate certificate dates
-      const { stdout: dates } = await execAsync(
-        `openssl x509 -in "${certPath}" -noout -dates`
-      );
-
-      // Parse dates (format: notBefore=May 30 12:00:00 2023 GMT / notAfter=May 30 12:00:00 2024 GMT)
-      const notBeforeMatch = dates.match(/notBefore=(.+)$/m);
-      const notAfterMatch = dates.match(/notAfter=(.+)$/m);
-
-      if (!notBeforeMatch || !notAfterMatch) {
-        throw new Error('Could not extract dates from certificate');
-      }
-
-      const validFrom = new Date(notBeforeMatch[1]);
-      const validTo = new Date(notAfterMatch[1]);
-
-      // Get issuer name
-      const { stdout: issuerData } = await execAsync(
-        `openssl x509 -in "${certPath}" -noout -issuer`
-      );
-
-      // Extract CN from issuer
-      const issuerCNMatch = issuerData.match(/CN\s*=\s*([^,\/]+)/);
-      const issuer = issuerCNMatch ? issuerCNMatch[1].trim() : 'Unknown';
+      const { validFrom, validTo, issuer, subjectAltNames, chain } = await this.backend.readCertificate(certPath);
 
-      // Verify that the domain is included in the certificate
-      const { stdout: subjectAltNames } = await execAsync(
-        `openssl x509 -in "${certPath}" -noout -ext subjectAltName`
-      );
-
-      const domainIncluded = subjectAltNames.includes(`DNS:${domain}`);
+      // Verify that the domain and every alias it was issued for are included in the certificate
+      const coveredNames = new Set(subjectAltNames);
+      const metadata = await this.readMetadata(domain);
+      const aliases = metadata?.aliases || [];
+      const missingNames = [domain, ...aliases].filter(name => !coveredNames.has(net.isIP(name) ? canonicalIP(name) : name));
 
       // Verify certificate validity
       const now = new Date();
-      const isValid = now >= validFrom && now <= validTo && domainIncluded;
+      const chainComplete = await this.caGenerator.isIssuedByRoot(certPath);
+      const isValid = now >= validFrom && now <= validTo && missingNames.length === 0 && chainComplete;
 
       return {
         domain,
@@ -279,7 +369,12 @@ DNS.1 = ${domain}
         issuer,
         isValid,
         certFilePath: certPath,
-        keyFilePath: keyPath
+        keyFilePath: keyPath,
+        aliases,
+        ...(metadata?.profile && { profile: metadata.profile.name }),
+        chain,
+        ...(missingNames.length > 0 && { missingNames }),
+        ...(!chainComplete && { incompleteChain: true })
       };
     } catch (error: any) {
       console.error(`Error parsing certificate for ${domain}:`, error);
@@ -287,6 +382,24 @@ DNS.1 = ${domain}
     }
   }
 
+  /**
+   * Find a valid certificate for a hostname: its own, or else a wildcard certificate covering it
+   */
+  public async findCertificate(hostname: string): Promise<CertificateInfo | null> {
+    const exact = await this.verifyCertificate(hostname);
+    if (exact?.isValid || isWildcardDomain(hostname)) {
+      return exact;
+    }
+
+    const wildcardDomain = getWildcardDomain(hostname);
+    const wildcard = wildcardDomain ? await this.verifyCertificate(wildcardDomain) : null;
+    if (wildcard?.isValid) {
+      return wildcard;
+    }
+
+    return exact;
+  }
+
   /**
    * List all certificates created by the application
    */
@@ -297,7 +410,7 @@ DNS.1 = ${domain}
       const certificates: CertificateInfo[] = [];
 
       for (const certFile of certFiles) {
-        const domain = certFile.replace('.crt', '');
+        const domain = getDomainFromCertificateFileName(certFile.replace('.crt', ''));
         const certInfo = await this.verifyCertificate(domain);
 
         if (certInfo) {
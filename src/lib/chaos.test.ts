@@ -0,0 +1,89 @@
+import { createThrottle, planChaos, validateChaosSettings } from './chaos';
+
+describe('chaos', () => {
+  describe('planChaos', () => {
+    it('should add fixed latency plus jitter', () => {
+      const plan = planChaos({ enabled: true, latency: { fixed: 100, jitter: 50 } }, '/', () => 0.5);
+
+      expect(plan.delay).toBe(125);
+    });
+
+    it('should only apply faults to matching paths', () => {
+      const settings = { enabled: true, latency: { fixed: 100, paths: ['/api/*'] } };
+
+      expect(planChaos(settings, '/api/users?page=1').delay).toBe(100);
+      expect(planChaos(settings, '/assets/app.js').delay).toBe(0);
+    });
+
+    it('should inject errors by rate with the configured status', () => {
+      const settings = { enabled: true, errors: { rate: 30, status: 500 } };
+
+      expect(planChaos(settings, '/', () => 0.2).errorStatus).toBe(500);
+      expect(planChaos(settings, '/', () => 0.4).errorStatus).toBeNull();
+      expect(planChaos({ enabled: true, errors: { rate: 100 } }, '/').errorStatus).toBe(503);
+    });
+
+    it('should prefer a reset over an error', () => {
+      const plan = planChaos({ enabled: true, errors: { rate: 100 }, resets: { rate: 100 } }, '/');
+
+      expect(plan.reset).toBe(true);
+      expect(plan.errorStatus).toBeNull();
+    });
+
+    it('should convert the bandwidth limit to bytes per second', () => {
+      expect(planChaos({ enabled: true, bandwidth: { kilobytesPerSecond: 2 } }, '/').bytesPerSecond).toBe(2048);
+    });
+  });
+
+  describe('validateChaosSettings', () => {
+    it('should accept valid settings', () => {
+      expect(validateChaosSettings({
+        enabled: true,
+        latency: { fixed: 500, jitter: 200, paths: ['/api/*'] },
+        bandwidth: { kilobytesPerSecond: 10 },
+        errors: { rate: 5, status: 502 },
+        resets: { rate: 1 }
+      })).toBeNull();
+    });
+
+    it('should reject invalid settings', () => {
+      expect(validateChaosSettings({})).toContain('enabled flag');
+      expect(validateChaosSettings({ enabled: true, latency: { fixed: -1 } })).toContain('Latency');
+      expect(validateChaosSettings({ enabled: true, bandwidth: { kilobytesPerSecond: 0 } })).toContain('Bandwidth');
+      expect(validateChaosSettings({ enabled: true, errors: { rate: 150 } })).toContain('Error rate');
+      expect(validateChaosSettings({ enabled: true, errors: { rate: 5, status: 200 } })).toContain('Error status');
+      expect(validateChaosSettings({ enabled: true, resets: { rate: 5, paths: '/api' } })).toContain('path patterns');
+      expect(validateChaosSettings({ enabled: true, latency: 500 })).toContain('must be an object');
+      expect(validateChaosSettings([true])).toContain('enabled flag');
+    });
+  });
+
+  describe('createThrottle', () => {
+    it('should pass data through no faster than the limit', async () => {
+      const throttle = createThrottle(1000);
+      const received: Buffer[] = [];
+      throttle.on('data', (chunk) => received.push(chunk));
+
+      const start = Date.now();
+      throttle.end(Buffer.alloc(300));
+      await new Promise(resolve => throttle.on('end', resolve));
+
+      expect(Buffer.concat(received).length).toBe(300);
+      // 300 bytes at 1000 bytes/s take at least ~300ms
+      expect(Date.now() - start).toBeGreaterThanOrEqual(250);
+    });
+
+    it('should stop releasing data once destroyed', async () => {
+      const throttle = createThrottle(1000);
+      const received: Buffer[] = [];
+      throttle.on('data', (chunk) => received.push(chunk));
+
+      throttle.write(Buffer.alloc(1000));
+      throttle.destroy();
+      await new Promise(resolve => setTimeout(resolve, 250));
+
+      // Only the first slice went out before the stream was destroyed
+      expect(Buffer.concat(received).length).toBe(100);
+    });
+  });
+});
@@ -0,0 +1,161 @@
+import { Transform } from 'stream';
+import { isRecord } from './validation';
+
+/**
+ * Faults injected into a proxy's traffic. Each fault applies to every request unless it lists path patterns,
+ * where `*` matches any characters (e.g. /api/*)
+ */
+export interface ChaosSettings {
+  enabled: boolean;
+  /** Delay in milliseconds before a request is handled, plus a random amount up to `jitter` */
+  latency?: { fixed: number; jitter?: number; paths?: string[] };
+  /** Response speed limit in kilobytes per second */
+  bandwidth?: { kilobytesPerSecond: number; paths?: string[] };
+  /** Percentage of requests answered with an error status (503 by default) instead of reaching the target */
+  errors?: { rate: number; status?: number; paths?: string[] };
+  /** Percentage of requests whose connection is dropped without a response */
+  resets?: { rate: number; paths?: string[] };
+}
+
+/**
+ * The faults drawn for a single request
+ */
+export interface ChaosPlan {
+  delay: number;
+  reset: boolean;
+  errorStatus: number | null;
+  bytesPerSecond: number | null;
+}
+
+const DEFAULT_ERROR_STATUS = 503;
+
+/**
+ * Validate chaos settings received from the API or a config file
+ */
+export function validateChaosSettings(settings: unknown): string | null {
+  if (!isRecord(settings) || typeof settings.enabled !== 'boolean') {
+    return 'Chaos settings require an enabled flag';
+  }
+
+  const isNumber = (value: unknown, min: number, max: number = Infinity) =>
+    typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+
+  const faults = [settings.latency, settings.bandwidth, settings.errors, settings.resets];
+  if (faults.some(fault => fault !== undefined && !isRecord(fault))) {
+    return 'Each chaos fault must be an object';
+  }
+
+  const [latency, bandwidth, errors, resets] = faults as ({ [key: string]: unknown } | undefined)[];
+
+  if (latency !== undefined && (!isNumber(latency.fixed, 0) || (latency.jitter !== undefined && !isNumber(latency.jitter, 0)))) {
+    return 'Latency must be a non-negative number of milliseconds';
+  }
+
+  if (bandwidth !== undefined && !isNumber(bandwidth.kilobytesPerSecond, 0.001)) {
+    return 'Bandwidth must be a positive number of kilobytes per second';
+  }
+
+  for (const [name, fault] of [['Error', errors], ['Reset', resets]] as const) {
+    if (fault !== undefined && !isNumber(fault.rate, 0, 100)) {
+      return `${name} rate must be a percentage between 0 and 100`;
+    }
+  }
+
+  if (errors?.status !== undefined && (!Number.isInteger(errors.status) || !isNumber(errors.status, 400, 599))) {
+    return 'Error status must be between 400 and 599';
+  }
+
+  for (const fault of [latency, bandwidth, errors, resets]) {
+    if (fault?.paths !== undefined && (!Array.isArray(fault.paths) || fault.paths.some(p => typeof p !== 'string' || !p))) {
+      return 'Chaos paths must be a list of path patterns';
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Whether a request path is in scope for a fault
+ */
+function matchesPaths(paths: string[] | undefined, pathname: string): boolean {
+  if (!paths || paths.length === 0) return true;
+
+  return paths.some(pattern => {
+    const source = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+    return new RegExp(`^${source}$`).test(pathname);
+  });
+}
+
+/**
+ * Draw the faults for a request; `random` returns a number in [0, 1) like Math.random
+ */
+export function planChaos(settings: ChaosSettings, url: string = '/', random: () => number = Math.random): ChaosPlan {
+  const queryIndex = url.indexOf('?');
+  const pathname = queryIndex === -1 ? url : url.slice(0, queryIndex);
+  const plan: ChaosPlan = { delay: 0, reset: false, errorStatus: null, bytesPerSecond: null };
+
+  const { latency, bandwidth, errors, resets } = settings;
+
+  if (latency && matchesPaths(latency.paths, pathname)) {
+    plan.delay = Math.round(latency.fixed + (latency.jitter ? random() * latency.jitter : 0));
+  }
+
+  if (resets && matchesPaths(resets.paths, pathname) && random() * 100 < resets.rate) {
+    plan.reset = true;
+  } else if (errors && matchesPaths(errors.paths, pathname) && random() * 100 < errors.rate) {
+    plan.errorStatus = errors.status || DEFAULT_ERROR_STATUS;
+  }
+
+  if (bandwidth && matchesPaths(bandwidth.paths, pathname)) {
+    plan.bytesPerSecond = bandwidth.kilobytesPerSecond * 1024;
+  }
+
+  return plan;
+}
+
+/**
+ * A pass-through stream that releases data no faster than the given rate
+ */
+export function createThrottle(bytesPerSecond: number): Transform {
+  // Release data in small slices (about ten per second) so the rate is smooth rather than bursty
+  const sliceSize = Math.max(1, Math.floor(bytesPerSecond / 10));
+  const start = Date.now();
+  let sent = 0;
+  let timer: NodeJS.Timeout | null = null;
+
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      const slices: Buffer[] = [];
+      for (let offset = 0; offset < chunk.length; offset += sliceSize) {
+        slices.push(chunk.subarray(offset, offset + sliceSize));
+      }
+
+      const pushNext = () => {
+        timer = null;
+        if (this.destroyed) return;
+
+        const slice = slices.shift();
+        if (!slice) {
+          callback();
+          return;
+        }
+
+        sent += slice.length;
+        this.push(slice);
+
+        const wait = (sent / bytesPerSecond) * 1000 - (Date.now() - start);
+        timer = setTimeout(pushNext, Math.max(0, wait));
+      };
+
+      pushNext();
+    },
+    destroy(error, callback) {
+      // A closed connection shouldn't keep slices trickling into a stream nobody reads
+      if (timer) {
+        clearTimeout(timer);
+        timer = null;
+      }
+      callback(error);
+    }
+  });
+}
@@ -0,0 +1,60 @@
+import { CommandError, commandSucceeds, formatCommand, runCommand } from './command-runner';
+
+describe('command-runner', () => {
+  describe('runCommand', () => {
+    it('should pass arguments without a shell', async () => {
+      const { stdout } = await runCommand(process.execPath, ['-e', 'console.log(JSON.stringify(process.argv.slice(1)))', '"$(id)"; rm -rf ~', 'with space']);
+
+      expect(JSON.parse(stdout)).toEqual(['"$(id)"; rm -rf ~', 'with space']);
+    });
+
+    it('should include stderr and the exit code in errors', async () => {
+      const error = await runCommand(process.execPath, ['-e', 'console.error("bad key"); process.exit(3)']).catch(e => e);
+
+      expect(error).toBeInstanceOf(CommandError);
+      expect(error.exitCode).toBe(3);
+      expect(error.stderr).toContain('bad key');
+      expect(error.message).toMatch(/failed with exit code 3: bad key$/);
+    });
+
+    it('should kill commands that exceed the timeout', async () => {
+      const error = await runCommand(process.execPath, ['-e', 'setTimeout(() => {}, 10000)'], { timeout: 200 }).catch(e => e);
+
+      expect(error.message).toContain('timed out after 200ms');
+    });
+
+    it('should let commands run as long as they take when the timeout is 0', async () => {
+      const { stdout } = await runCommand(process.execPath, ['-e', 'setTimeout(() => console.log("done"), 300)'], { timeout: 0 });
+
+      expect(stdout.trim()).toBe('done');
+    });
+
+    it('should add variables to the environment', async () => {
+      const { stdout } = await runCommand(process.execPath, ['-e', 'console.log(process.env.NAVIGRATOR_TEST_SECRET, !!process.env.PATH)'], {
+        env: { NAVIGRATOR_TEST_SECRET: 'hunter2' }
+      });
+
+      expect(stdout.trim()).toBe('hunter2 true');
+    });
+
+    it('should report missing programs', async () => {
+      await expect(runCommand('navigrator-missing-binary', [])).rejects.toThrow('navigrator-missing-binary was not found in the PATH');
+    });
+  });
+
+  describe('commandSucceeds', () => {
+    it('should turn failures into false', async () => {
+      const run = jest.fn().mockRejectedValueOnce(new Error('nope')).mockResolvedValueOnce({ stdout: '', stderr: '' });
+
+      expect(await commandSucceeds(run, 'which', ['firefox'])).toBe(false);
+      expect(await commandSucceeds(run, 'which', ['firefox'])).toBe(true);
+      expect(run).toHaveBeenCalledWith('which', ['firefox']);
+    });
+  });
+
+  describe('formatCommand', () => {
+    it('should quote arguments with spaces', () => {
+      expect(formatCommand('openssl', ['x509', '-in', '/home/my user/a.crt'])).toBe('openssl x509 -in "/home/my user/a.crt"');
+    });
+  });
+});
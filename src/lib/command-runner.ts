@@ -0,0 +1,93 @@
+import { execFile } from 'child_process';
+
+export interface CommandResult {
+  stdout: string;
+  stderr: string;
+}
+
+export interface CommandOptions {
+  /** Milliseconds before the process is killed; defaults to DEFAULT_COMMAND_TIMEOUT, 0 waits as long as the process runs */
+  timeout?: number;
+  cwd?: string;
+  /** Variables added to the environment of the process, e.g. secrets that shouldn't appear in its arguments */
+  env?: { [name: string]: string };
+}
+
+/**
+ * Runs a program with an argument array. Arguments are passed to the program as-is, never through a shell,
+ * so paths and domains need no quoting. Injected into the certificate classes so tests can assert invocations
+ */
+export type CommandRunner = (command: string, args: string[], options?: CommandOptions) => Promise<CommandResult>;
+
+export const DEFAULT_COMMAND_TIMEOUT = 60000;
+
+/**
+ * A command that could not be started, exited with an error or timed out. The message includes its stderr
+ */
+export class CommandError extends Error {
+  public readonly command: string;
+  public readonly args: string[];
+  public readonly exitCode: number | null;
+  public readonly stderr: string;
+
+  constructor(message: string, command: string, args: string[], exitCode: number | null, stderr: string) {
+    super(message);
+    this.name = 'CommandError';
+    this.command = command;
+    this.args = args;
+    this.exitCode = exitCode;
+    this.stderr = stderr;
+  }
+}
+
+/**
+ * Format a command for messages, quoting arguments that contain spaces
+ */
+export function formatCommand(command: string, args: string[]): string {
+  return [command, ...args].map(part => /[\s"']/.test(part) ? JSON.stringify(part) : part).join(' ');
+}
+
+/**
+ * Run a command with execFile, resolving with its output or rejecting with a CommandError
+ */
+export const runCommand: CommandRunner = (command, args, options = {}) => {
+  const timeout = options.timeout ?? DEFAULT_COMMAND_TIMEOUT;
+
+  return new Promise((resolve, reject) => {
+    const env = options.env && { ...process.env, ...options.env };
+
+    execFile(command, args, { timeout, cwd: options.cwd, env, windowsHide: true, maxBuffer: 10 * 1024 * 1024 }, (error, stdout, stderr) => {
+      if (!error) {
+        resolve({ stdout, stderr });
+        return;
+      }
+
+      const description = formatCommand(command, args);
+      const details = stderr.trim();
+      const code = (error as any).code;
+      let message: string;
+
+      if (code === 'ENOENT') {
+        message = `${command} was not found in the PATH`;
+      } else if (error.killed) {
+        message = `${description} timed out after ${timeout}ms`;
+      } else {
+        message = `${description} failed${typeof code === 'number' ? ` with exit code ${code}` : ''}`;
+      }
+
+      reject(new CommandError(details ? `${message}: ${details}` : message, command, args, typeof code === 'number' ? code : null, stderr));
+    });
+  });
+};
+
+/**
+ * Whether a command runs successfully, e.g. to detect installed tools
+ */
+export async function commandSucceeds(runner: CommandRunner, command: string, args: string[]): Promise<boolean> {
+  try {
+    await runner(command, args);
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
@@ -0,0 +1,55 @@
+import { integer, ipAddressBytes, namedBits, objectIdentifier, octetString, readChildren, readElement, sequence, time } from './der';
+
+describe('der', () => {
+  describe('integer', () => {
+    it('should use the minimal two\'s complement encoding', () => {
+      expect(integer(2).toString('hex')).toBe('020102');
+      expect(integer(128).toString('hex')).toBe('02020080');
+      expect(integer(Buffer.from([0x00, 0x00, 0x01])).toString('hex')).toBe('020101');
+      expect(integer(Buffer.from([0xff])).toString('hex')).toBe('020200ff');
+    });
+  });
+
+  it('should encode object identifiers', () => {
+    expect(objectIdentifier('1.2.840.113549.1.1.11').toString('hex')).toBe('06092a864886f70d01010b');
+    expect(objectIdentifier('2.5.29.17').toString('hex')).toBe('0603551d11');
+  });
+
+  it('should encode long lengths', () => {
+    const encoded = octetString(Buffer.alloc(300));
+
+    expect(encoded.subarray(0, 4).toString('hex')).toBe('0482012c');
+  });
+
+  it('should drop trailing zero bits from named bit strings', () => {
+    // digitalSignature and keyEncipherment
+    expect(namedBits([0, 2]).toString('hex')).toBe('030205a0');
+    // keyCertSign and cRLSign
+    expect(namedBits([5, 6]).toString('hex')).toBe('03020106');
+  });
+
+  it('should switch from UTCTime to GeneralizedTime in 2050', () => {
+    expect(time(new Date('2030-01-02T03:04:05Z')).toString('ascii').slice(2)).toBe('300102030405Z');
+    expect(time(new Date('2050-01-02T03:04:05Z')).toString('ascii').slice(2)).toBe('20500102030405Z');
+  });
+
+  it('should convert IP addresses to bytes', () => {
+    expect(ipAddressBytes('127.0.0.1').toString('hex')).toBe('7f000001');
+    expect(ipAddressBytes('::1').toString('hex')).toBe('00000000000000000000000000000001');
+    expect(ipAddressBytes('fe80::1:2').toString('hex')).toBe('fe800000000000000000000000010002');
+    expect(ipAddressBytes('::ffff:10.0.0.1').toString('hex')).toBe('00000000000000000000ffff0a000001');
+  });
+
+  it('should read back what it encodes', () => {
+    const encoded = sequence(integer(5), octetString(Buffer.alloc(200, 1)));
+
+    const element = readElement(encoded);
+    const children = readChildren(element.content);
+
+    expect(element.tag).toBe(0x30);
+    expect(element.raw).toEqual(encoded);
+    expect(children.map(child => child.tag)).toEqual([0x02, 0x04]);
+    expect(children[1].content).toEqual(Buffer.alloc(200, 1));
+    expect(() => readElement(encoded.subarray(0, 10))).toThrow('Truncated DER element');
+  });
+});
@@ -0,0 +1,194 @@
+import * as net from 'net';
+
+/**
+ * A DER element read from a buffer: its tag, its content and its complete encoding
+ */
+export interface DerElement {
+  tag: number;
+  content: Buffer;
+  raw: Buffer;
+}
+
+function encodeLength(length: number): Buffer {
+  if (length < 0x80) {
+    return Buffer.from([length]);
+  }
+
+  const bytes: number[] = [];
+  for (let value = length; value > 0; value = Math.floor(value / 256)) {
+    bytes.unshift(value & 0xff);
+  }
+  return Buffer.from([0x80 | bytes.length, ...bytes]);
+}
+
+/**
+ * Encode a tag-length-value element
+ */
+export function encodeElement(tag: number, content: Buffer): Buffer {
+  return Buffer.concat([Buffer.from([tag]), encodeLength(content.length), content]);
+}
+
+export function sequence(...items: Buffer[]): Buffer {
+  return encodeElement(0x30, Buffer.concat(items));
+}
+
+export function set(...items: Buffer[]): Buffer {
+  return encodeElement(0x31, Buffer.concat(items));
+}
+
+export function boolean(value: boolean): Buffer {
+  return encodeElement(0x01, Buffer.from([value ? 0xff : 0x00]));
+}
+
+/**
+ * Encode a non-negative integer given as a number or as big-endian bytes
+ */
+export function integer(value: number | Buffer): Buffer {
+  let bytes = value;
+  if (typeof bytes === 'number') {
+    const hex = bytes.toString(16);
+    bytes = Buffer.from(hex.length % 2 ? `0${hex}` : hex, 'hex');
+  }
+
+  // Minimal encoding: no redundant leading zeros, plus one when the high bit would make it negative
+  let start = 0;
+  while (start < bytes.length - 1 && bytes[start] === 0 && (bytes[start + 1] & 0x80) === 0) start++;
+  bytes = bytes.subarray(start);
+  if (bytes[0] & 0x80) {
+    bytes = Buffer.concat([Buffer.from([0]), bytes]);
+  }
+
+  return encodeElement(0x02, bytes);
+}
+
+/**
+ * Encode a bit string. Named-bit strings such as key usages drop their trailing zero bits
+ */
+export function bitString(bytes: Buffer, unusedBits: number = 0): Buffer {
+  return encodeElement(0x03, Buffer.concat([Buffer.from([unusedBits]), bytes]));
+}
+
+/**
+ * Encode named bits (bit 0 is the most significant bit of the first byte) as a minimal bit string
+ */
+export function namedBits(bits: number[]): Buffer {
+  const bytes = Buffer.alloc(Math.floor(Math.max(...bits) / 8) + 1);
+  for (const bit of bits) {
+    bytes[Math.floor(bit / 8)] |= 0x80 >> (bit % 8);
+  }
+
+  const last = bytes[bytes.length - 1];
+  let unusedBits = 0;
+  while (unusedBits < 7 && (last & (1 << unusedBits)) === 0) unusedBits++;
+
+  return bitString(bytes, unusedBits);
+}
+
+export function octetString(bytes: Buffer): Buffer {
+  return encodeElement(0x04, bytes);
+}
+
+export function nullValue(): Buffer {
+  return encodeElement(0x05, Buffer.alloc(0));
+}
+
+export function objectIdentifier(oid: string): Buffer {
+  const [first, second, ...rest] = oid.split('.').map(Number);
+  const bytes = [first * 40 + second];
+
+  for (const arc of rest) {
+    const groups = [arc & 0x7f];
+    for (let value = Math.floor(arc / 128); value > 0; value = Math.floor(value / 128)) {
+      groups.unshift((value & 0x7f) | 0x80);
+    }
+    bytes.push(...groups);
+  }
+
+  return encodeElement(0x06, Buffer.from(bytes));
+}
+
+export function utf8String(value: string): Buffer {
+  return encodeElement(0x0c, Buffer.from(value, 'utf8'));
+}
+
+/**
+ * Encode a date as UTCTime until 2049 and as GeneralizedTime after, as X.509 requires
+ */
+export function time(date: Date): Buffer {
+  const iso = date.toISOString();
+  const digits = iso.slice(0, 19).replace(/[-T:]/g, '');
+  const year = date.getUTCFullYear();
+
+  return year >= 1950 && year < 2050
+    ? encodeElement(0x17, Buffer.from(`${digits.slice(2)}Z`, 'ascii'))
+    : encodeElement(0x18, Buffer.from(`${digits}Z`, 'ascii'));
+}
+
+/**
+ * A context-specific [n] element: explicit (wrapping encoded elements) or implicit (raw content)
+ */
+export function contextSpecific(tagNumber: number, content: Buffer, constructed: boolean = true): Buffer {
+  return encodeElement((constructed ? 0xa0 : 0x80) | tagNumber, content);
+}
+
+/**
+ * The 4 or 16 bytes of an IPv4 or IPv6 address
+ */
+export function ipAddressBytes(ip: string): Buffer {
+  if (net.isIPv4(ip)) {
+    return Buffer.from(ip.split('.').map(Number));
+  }
+
+  if (!net.isIPv6(ip)) {
+    throw new Error(`Invalid IP address: ${ip}`);
+  }
+
+  // An embedded IPv4 address (::ffff:127.0.0.1) stands for the last two groups
+  const address = ip.replace(/(\d+)\.(\d+)\.(\d+)\.(\d+)$/, (_match, a, b, c, d) =>
+    `${((+a << 8) | +b).toString(16)}:${((+c << 8) | +d).toString(16)}`);
+
+  const [head, tail] = address.includes('::') ? address.split('::') : [address, undefined];
+  const headGroups = head ? head.split(':') : [];
+  const tailGroups = tail ? tail.split(':') : [];
+  const groups = tail !== undefined
+    ? [...headGroups, ...Array(8 - headGroups.length - tailGroups.length).fill('0'), ...tailGroups]
+    : headGroups;
+
+  return Buffer.from(groups.map(group => group.padStart(4, '0')).join(''), 'hex');
+}
+
+/**
+ * Read the element starting at an offset
+ */
+export function readElement(buffer: Buffer, offset: number = 0): DerElement {
+  const tag = buffer[offset];
+  let length = buffer[offset + 1];
+  let headerLength = 2;
+
+  if (length & 0x80) {
+    const lengthBytes = length & 0x7f;
+    length = 0;
+    for (let i = 0; i < lengthBytes; i++) {
+      length = length * 256 + buffer[offset + 2 + i];
+    }
+    headerLength += lengthBytes;
+  }
+
+  const end = offset + headerLength + length;
+  if (tag === undefined || end > buffer.length) {
+    throw new Error('Truncated DER element');
+  }
+
+  return { tag, content: buffer.subarray(offset + headerLength, end), raw: buffer.subarray(offset, end) };
+}
+
+/**
+ * Read the elements inside a constructed element's content
+ */
+export function readChildren(content: Buffer): DerElement[] {
+  const children: DerElement[] = [];
+  for (let offset = 0; offset < content.length; offset += children[children.length - 1].raw.length) {
+    children.push(readElement(content, offset));
+  }
+  return children;
+}
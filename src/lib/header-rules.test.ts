@@ -0,0 +1,90 @@
+import { applyHeaderRules, corsResponseHeaders, isPreflightRequest, preflightResponseHeaders, validateHeaderRules } from './header-rules';
+
+describe('header rules', () => {
+  describe('validateHeaderRules', () => {
+    it('should accept valid rules', () => {
+      expect(validateHeaderRules([
+        { phase: 'request', action: 'set', name: 'Authorization', value: 'Bearer dev' },
+        { phase: 'response', action: 'remove', name: 'X-Powered-By' }
+      ])).toBeNull();
+    });
+
+    it('should reject invalid names, phases and actions', () => {
+      expect(validateHeaderRules('nope')).toBe('Header rules must be an array');
+      expect(validateHeaderRules([{ phase: 'request', action: 'set', name: 'Bad Name', value: 'x' }])).toContain('Invalid header name');
+      expect(validateHeaderRules([{ phase: 'both', action: 'set', name: 'X-A', value: 'x' }])).toContain('Invalid phase');
+      expect(validateHeaderRules([{ phase: 'request', action: 'rename', name: 'X-A', value: 'x' }])).toContain('Invalid action');
+    });
+
+    it('should reject values with line breaks and body framing headers', () => {
+      expect(validateHeaderRules([{ phase: 'request', action: 'set', name: 'X-A', value: 'a\r\nb' }])).toContain('single-line value');
+      expect(validateHeaderRules([{ phase: 'response', action: 'remove', name: 'Content-Length' }])).toContain("can't be rewritten");
+    });
+  });
+
+  describe('applyHeaderRules', () => {
+    it('should only apply the rules of the given phase, in order', () => {
+      const headers = applyHeaderRules({ 'x-powered-by': 'Express', vary: 'Accept' }, [
+        { phase: 'response', action: 'remove', name: 'X-Powered-By' },
+        { phase: 'response', action: 'append', name: 'Vary', value: 'Cookie' },
+        { phase: 'response', action: 'set', name: 'X-Env', value: 'dev' },
+        { phase: 'request', action: 'set', name: 'X-Ignored', value: 'yes' }
+      ], 'response');
+
+      expect(headers).toEqual({ vary: 'Accept, Cookie', 'x-env': 'dev' });
+    });
+
+    it('should append cookies as separate values', () => {
+      const headers = applyHeaderRules({ 'set-cookie': 'a=1' }, [
+        { phase: 'response', action: 'append', name: 'Set-Cookie', value: 'b=2' }
+      ], 'response');
+
+      expect(headers['set-cookie']).toEqual(['a=1', 'b=2']);
+    });
+
+    it('should not modify the original headers', () => {
+      const original = { host: 'test.local' };
+      applyHeaderRules(original, [{ phase: 'request', action: 'remove', name: 'host' }], 'request');
+
+      expect(original).toEqual({ host: 'test.local' });
+    });
+  });
+
+  describe('CORS preset', () => {
+    it('should recognise preflight requests', () => {
+      expect(isPreflightRequest('OPTIONS', { 'access-control-request-method': 'PUT' })).toBe(true);
+      expect(isPreflightRequest('OPTIONS', {})).toBe(false);
+      expect(isPreflightRequest('GET', { 'access-control-request-method': 'PUT' })).toBe(false);
+    });
+
+    it('should grant what the preflight asks for', () => {
+      const headers = preflightResponseHeaders({
+        origin: 'https://app.local',
+        'access-control-request-method': 'PUT',
+        'access-control-request-headers': 'content-type, x-token'
+      });
+
+      expect(headers).toEqual(expect.objectContaining({
+        'access-control-allow-origin': 'https://app.local',
+        'access-control-allow-credentials': 'true',
+        'access-control-allow-methods': 'PUT',
+        'access-control-allow-headers': 'content-type, x-token'
+      }));
+    });
+
+    it('should echo the origin with credentials and add it to Vary', () => {
+      const headers = corsResponseHeaders({ origin: 'https://app.local' }, { 'content-type': 'text/plain', vary: 'Accept' });
+
+      expect(headers).toEqual({
+        'access-control-allow-origin': 'https://app.local',
+        'access-control-allow-credentials': 'true',
+        'access-control-expose-headers': 'content-type, vary',
+        vary: 'Accept, Origin'
+      });
+    });
+
+    it('should allow any origin without credentials for requests without an Origin', () => {
+      expect(corsResponseHeaders({}, {})['access-control-allow-origin']).toBe('*');
+    });
+  });
+});
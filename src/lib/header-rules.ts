@@ -0,0 +1,150 @@
+import * as http from 'http';
+
+/**
+ * A user-defined change to the headers of proxied requests or responses
+ */
+export interface HeaderRule {
+  /** Whether the rule applies to the request sent upstream or to the response sent to the client */
+  phase: 'request' | 'response';
+  action: 'set' | 'append' | 'remove';
+  name: string;
+  /** Required for set and append */
+  value?: string;
+}
+
+/**
+ * Headers that describe how the body is framed; the proxy streams bodies untouched, so they can't be rewritten
+ */
+const PROTECTED_HEADERS = ['content-length', 'transfer-encoding'];
+
+/**
+ * RFC 9110 token characters allowed in header names
+ */
+export const HEADER_NAME_PATTERN = /^[!#$%&'*+\-.^_`|~0-9A-Za-z]+$/;
+
+/**
+ * Validate header rules received from the API or a config file
+ */
+export function validateHeaderRules(rules: unknown): string | null {
+  if (!Array.isArray(rules)) {
+    return 'Header rules must be an array';
+  }
+
+  for (const rule of rules) {
+    if (!rule || typeof rule.name !== 'string' || !HEADER_NAME_PATTERN.test(rule.name)) {
+      return `Invalid header name: ${rule?.name}`;
+    }
+
+    if (rule.phase !== 'request' && rule.phase !== 'response') {
+      return `Invalid phase for header ${rule.name}: must be "request" or "response"`;
+    }
+
+    if (rule.action !== 'set' && rule.action !== 'append' && rule.action !== 'remove') {
+      return `Invalid action for header ${rule.name}: must be "set", "append" or "remove"`;
+    }
+
+    if (PROTECTED_HEADERS.includes(rule.name.toLowerCase())) {
+      return `Header ${rule.name} can't be rewritten because the proxy streams bodies as-is`;
+    }
+
+    if (rule.action !== 'remove' && (typeof rule.value !== 'string' || /[\r\n]/.test(rule.value))) {
+      return `Header ${rule.name} requires a single-line value`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Apply the rules for a phase, in order, to a copy of the headers
+ */
+export function applyHeaderRules(
+  headers: http.OutgoingHttpHeaders,
+  rules: HeaderRule[] | undefined,
+  phase: HeaderRule['phase']
+): http.OutgoingHttpHeaders {
+  const result: http.OutgoingHttpHeaders = { ...headers };
+
+  for (const rule of rules || []) {
+    if (rule.phase !== phase) continue;
+
+    const name = rule.name.toLowerCase();
+    const current = result[name];
+
+    if (rule.action === 'remove') {
+      delete result[name];
+    } else if (rule.action === 'set' || current === undefined) {
+      result[name] = rule.value || '';
+    } else if (Array.isArray(current)) {
+      result[name] = [...current, rule.value || ''];
+    } else if (name === 'set-cookie') {
+      // Cookies can't be folded into a single comma-separated value
+      result[name] = [String(current), rule.value || ''];
+    } else {
+      result[name] = `${current}, ${rule.value}`;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Whether a request is a CORS preflight, which the permissive CORS preset answers without reaching the target
+ */
+export function isPreflightRequest(method: string | undefined, headers: http.IncomingHttpHeaders): boolean {
+  return method === 'OPTIONS' && !!headers['access-control-request-method'];
+}
+
+/**
+ * CORS headers allowing any origin, with credentials, to read a response
+ */
+export function corsResponseHeaders(
+  requestHeaders: http.IncomingHttpHeaders,
+  responseHeaders: http.OutgoingHttpHeaders
+): http.OutgoingHttpHeaders {
+  const origin = requestHeaders.origin;
+
+  // Credentials are only allowed with an explicit origin, so echo it back when there is one
+  if (!origin) {
+    return {
+      'access-control-allow-origin': '*',
+      'access-control-expose-headers': '*'
+    };
+  }
+
+  const vary = responseHeaders.vary ? String(responseHeaders.vary) : '';
+
+  return {
+    'access-control-allow-origin': origin,
+    'access-control-allow-credentials': 'true',
+    'access-control-expose-headers': Object.keys(responseHeaders).join(', '),
+    vary: /\borigin\b/i.test(vary) ? vary : vary ? `${vary}, Origin` : 'Origin'
+  };
+}
+
+/**
+ * Headers for a successful preflight response granting whatever the browser asked for
+ */
+export function preflightResponseHeaders(requestHeaders: http.IncomingHttpHeaders): http.OutgoingHttpHeaders {
+  const headers: http.OutgoingHttpHeaders = {
+    'access-control-allow-origin': requestHeaders.origin || '*',
+    'access-control-allow-methods': requestHeaders['access-control-request-method'],
+    'access-control-max-age': '86400',
+    vary: 'Origin, Access-Control-Request-Method, Access-Control-Request-Headers'
+  };
+
+  if (requestHeaders.origin) {
+    headers['access-control-allow-credentials'] = 'true';
+  }
+
+  if (requestHeaders['access-control-request-headers']) {
+    headers['access-control-allow-headers'] = requestHeaders['access-control-request-headers'];
+  }
+
+  // Chrome's Private Network Access checks apply to pages calling local domains
+  if (requestHeaders['access-control-request-private-network'] === 'true') {
+    headers['access-control-allow-private-network'] = 'true';
+  }
+
+  return headers;
+}
@@ -123,6 +123,13 @@ ${DISABLED_IDENTIFIER}
       );
     });
 
+    it('should reject domains and IPs that would inject hosts entries', async () => {
+      await expect(hostsManager.addHost('evil.local\n1.2.3.4 bank.com')).rejects.toThrow('Invalid domain');
+      await expect(hostsManager.addHost('ok.local', '127.0.0.1 bank.com')).rejects.toThrow('Invalid IP address');
+
+      expect(fs.appendFile).not.toHaveBeenCalled();
+    });
+
     it('should mark existing host as ours if already exists but not managed', async () => {
       (fs.readFile as jest.Mock)
         .mockResolvedValueOnce(mockHostsContent) // First call in readHosts
@@ -1,6 +1,7 @@
 import * as fs from 'fs/promises';
 import * as os from 'os';
 import * as path from 'path';
+import { parseDomain, parseIP } from './validation';
 
 // Identificador único para los registros creados por nuestra aplicación
 const APP_IDENTIFIER = '# @axlotl-lab/navigrator';
@@ -106,6 +107,10 @@ export class HostsManager {
    * Agrega un nuevo registro al archivo hosts
    */
   public async addHost(domain: string, ip: string = '127.0.0.1'): Promise<boolean> {
+    // Validar antes de escribir: un salto de línea en el dominio o la IP inyectaría entradas en el archivo hosts
+    domain = parseDomain(domain);
+    ip = parseIP(ip);
+
     try {
       // Verificar si el dominio ya existe
       const hosts = await this.readHosts();
@@ -0,0 +1,111 @@
+import * as fs from 'fs/promises';
+import { findMatchingMock, loadMockResponse, ProxyMock, resolveMockBodyFile, validateProxyMocks } from './mocks';
+
+jest.mock('fs/promises', () => ({
+  readFile: jest.fn()
+}));
+
+const MOCKS_DIR = '/project/mocks';
+
+const mock = (overrides: Partial<ProxyMock>): ProxyMock => ({
+  id: 'abc',
+  path: '/api/users',
+  status: 200,
+  ...overrides
+});
+
+describe('mocks', () => {
+  describe('findMatchingMock', () => {
+    it('should match exact paths ignoring the query string', () => {
+      const mocks = [mock({ id: 'users' })];
+
+      expect(findMatchingMock(mocks, 'GET', '/api/users?page=2')?.id).toBe('users');
+      expect(findMatchingMock(mocks, 'GET', '/api/users/1')).toBeUndefined();
+    });
+
+    it('should match prefixes on whole path segments', () => {
+      const mocks = [mock({ matchType: 'prefix', path: '/api' })];
+
+      expect(findMatchingMock(mocks, 'GET', '/api/users')).toBeDefined();
+      expect(findMatchingMock(mocks, 'GET', '/apiary')).toBeUndefined();
+    });
+
+    it('should match regular expressions', () => {
+      const mocks = [mock({ matchType: 'regex', path: '^/api/users/[0-9]+$' })];
+
+      expect(findMatchingMock(mocks, 'GET', '/api/users/42')).toBeDefined();
+      expect(findMatchingMock(mocks, 'GET', '/api/users/me')).toBeUndefined();
+    });
+
+    it('should respect the method and skip disabled mocks', () => {
+      const mocks = [
+        mock({ id: 'disabled', method: 'POST', enabled: false }),
+        mock({ id: 'post', method: 'post' }),
+        mock({ id: 'any', method: '*' })
+      ];
+
+      expect(findMatchingMock(mocks, 'POST', '/api/users')?.id).toBe('post');
+      expect(findMatchingMock(mocks, 'GET', '/api/users')?.id).toBe('any');
+    });
+  });
+
+  describe('validateProxyMocks', () => {
+    it('should accept a valid mock', () => {
+      expect(validateProxyMocks([{ method: 'GET', path: '/api/users', status: 200, headers: { 'Cache-Control': 'no-store' }, body: '[]' }], MOCKS_DIR)).toBeNull();
+      expect(validateProxyMocks([{ path: '/api', status: 200, bodyFile: 'users/list.json' }], MOCKS_DIR)).toBeNull();
+      expect(validateProxyMocks([{ path: '/api', status: 200, bodyFile: '/project/mocks/users.json' }], MOCKS_DIR)).toBeNull();
+    });
+
+    it('should reject invalid mocks', () => {
+      expect(validateProxyMocks([{ path: 'api', status: 200 }], MOCKS_DIR)).toContain('must start with "/"');
+      expect(validateProxyMocks([{ path: '/api', status: 42 }], MOCKS_DIR)).toContain('Invalid status');
+      expect(validateProxyMocks([{ path: '(', matchType: 'regex', status: 200 }], MOCKS_DIR)).toContain('Invalid regular expression');
+      expect(validateProxyMocks([{ path: '/api', status: 200, headers: { 'Bad Header': 'x' } }], MOCKS_DIR)).toContain('Invalid header');
+    });
+
+    it('should reject body files outside the mocks directory', () => {
+      expect(validateProxyMocks([{ path: '/api', status: 200, bodyFile: '/etc/passwd' }], MOCKS_DIR)).toContain('must be inside /project/mocks');
+      expect(validateProxyMocks([{ path: '/api', status: 200, bodyFile: '../.env' }], MOCKS_DIR)).toContain('must be inside');
+      expect(validateProxyMocks([{ path: '/api', status: 200, bodyFile: '/project/mocks-other/a.json' }], MOCKS_DIR)).toContain('must be inside');
+      expect(resolveMockBodyFile('.', MOCKS_DIR)).toBeNull();
+    });
+  });
+
+  describe('loadMockResponse', () => {
+    it('should detect JSON inline bodies', async () => {
+      const { headers, body } = await loadMockResponse(mock({ body: '{"users":[]}' }), MOCKS_DIR);
+
+      expect(headers['content-type']).toBe('application/json');
+      expect(body.toString()).toBe('{"users":[]}');
+    });
+
+    it('should keep the configured content type', async () => {
+      const { headers } = await loadMockResponse(mock({ body: 'hi', headers: { 'Content-Type': 'text/csv' } }), MOCKS_DIR);
+
+      expect(headers['content-type']).toBe('text/csv');
+    });
+
+    it('should read body files and guess their content type', async () => {
+      (fs.readFile as jest.Mock).mockResolvedValue(Buffer.from('<p>hi</p>'));
+
+      const { headers, body } = await loadMockResponse(mock({ bodyFile: 'page.html' }), MOCKS_DIR);
+
+      expect(fs.readFile).toHaveBeenCalledWith('/project/mocks/page.html');
+      expect(headers['content-type']).toBe('text/html; charset=utf-8');
+      expect(body.toString()).toBe('<p>hi</p>');
+    });
+
+    it('should report missing body files', async () => {
+      (fs.readFile as jest.Mock).mockRejectedValue(new Error('ENOENT'));
+
+      await expect(loadMockResponse(mock({ bodyFile: 'missing.json' }), MOCKS_DIR)).rejects.toThrow('Could not read mock body file');
+    });
+
+    it('should refuse body files outside the mocks directory', async () => {
+      (fs.readFile as jest.Mock).mockClear();
+
+      await expect(loadMockResponse(mock({ bodyFile: '/etc/passwd' }), MOCKS_DIR)).rejects.toThrow('is outside /project/mocks');
+      expect(fs.readFile).not.toHaveBeenCalled();
+    });
+  });
+});
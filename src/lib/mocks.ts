@@ -0,0 +1,183 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { HEADER_NAME_PATTERN } from './header-rules';
+
+/**
+ * A canned response served by the proxy instead of forwarding the request to its target
+ */
+export interface ProxyMock {
+  id: string;
+  /** HTTP method to match; '*' or empty matches any method */
+  method?: string;
+  path: string;
+  /** Exact path (default), path prefix or regular expression; the query string is ignored */
+  matchType?: 'exact' | 'prefix' | 'regex';
+  status: number;
+  headers?: { [name: string]: string };
+  /** Inline body, used when no bodyFile is set */
+  body?: string;
+  /** File read on every request, so it can be edited while the proxy runs. It must be inside the mocks directory of
+   * the proxy, and relative paths are resolved against it */
+  bodyFile?: string;
+  /** Disabled mocks are kept but let requests through to the target */
+  enabled?: boolean;
+}
+
+/**
+ * Content types guessed from the body file extension when the mock doesn't set one
+ */
+const CONTENT_TYPES: { [extension: string]: string } = {
+  '.json': 'application/json',
+  '.html': 'text/html; charset=utf-8',
+  '.txt': 'text/plain; charset=utf-8',
+  '.xml': 'application/xml',
+  '.js': 'application/javascript',
+  '.css': 'text/css',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg'
+};
+
+/**
+ * Generate an id for a new mock
+ */
+export function createMockId(): string {
+  return crypto.randomBytes(6).toString('hex');
+}
+
+/**
+ * Resolve a body file against the mocks directory, or return null if it points outside of it
+ */
+export function resolveMockBodyFile(bodyFile: string, mocksDir: string): string | null {
+  const resolved = path.resolve(mocksDir, bodyFile);
+  const relative = path.relative(path.resolve(mocksDir), resolved);
+
+  return relative && !relative.startsWith('..') && !path.isAbsolute(relative) ? resolved : null;
+}
+
+/**
+ * Validate mocks received from the API or a config file (ids are assigned by the caller). Body files must be inside
+ * `mocksDir`, so mocks can't serve arbitrary files
+ */
+export function validateProxyMocks(mocks: unknown, mocksDir: string): string | null {
+  if (!Array.isArray(mocks)) {
+    return 'Mocks must be an array';
+  }
+
+  for (const mock of mocks) {
+    if (!mock || typeof mock.path !== 'string' || !mock.path) {
+      return 'Each mock requires a path';
+    }
+
+    if (mock.method !== undefined && (typeof mock.method !== 'string' || !/^([A-Za-z]+|\*)?$/.test(mock.method))) {
+      return `Invalid method for mock ${mock.path}`;
+    }
+
+    if (mock.matchType !== undefined && !['exact', 'prefix', 'regex'].includes(mock.matchType)) {
+      return `Invalid match type for mock ${mock.path}: must be "exact", "prefix" or "regex"`;
+    }
+
+    if (mock.matchType === 'regex') {
+      try {
+        new RegExp(mock.path);
+      } catch (error: any) {
+        return `Invalid regular expression for mock ${mock.path}: ${error?.message}`;
+      }
+    } else if (!mock.path.startsWith('/')) {
+      return `Mock path ${mock.path} must start with "/"`;
+    }
+
+    if (!Number.isInteger(mock.status) || mock.status < 100 || mock.status > 599) {
+      return `Invalid status for mock ${mock.path}: must be between 100 and 599`;
+    }
+
+    if (mock.headers !== undefined) {
+      if (typeof mock.headers !== 'object' || Array.isArray(mock.headers)) {
+        return `Headers for mock ${mock.path} must be an object`;
+      }
+      for (const [name, value] of Object.entries(mock.headers)) {
+        if (!HEADER_NAME_PATTERN.test(name) || typeof value !== 'string' || /[\r\n]/.test(value)) {
+          return `Invalid header ${name} for mock ${mock.path}`;
+        }
+      }
+    }
+
+    if (mock.body !== undefined && typeof mock.body !== 'string') {
+      return `Body for mock ${mock.path} must be a string`;
+    }
+
+    if (mock.bodyFile !== undefined && (typeof mock.bodyFile !== 'string' || !resolveMockBodyFile(mock.bodyFile, mocksDir))) {
+      return `Body file for mock ${mock.path} must be inside ${mocksDir}`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Find the first enabled mock matching a request
+ */
+export function findMatchingMock(mocks: ProxyMock[] | undefined, method: string = 'GET', url: string = '/'): ProxyMock | undefined {
+  const queryIndex = url.indexOf('?');
+  const pathname = queryIndex === -1 ? url : url.slice(0, queryIndex);
+
+  return (mocks || []).find(mock => {
+    if (mock.enabled === false) return false;
+    if (mock.method && mock.method !== '*' && mock.method.toUpperCase() !== method.toUpperCase()) return false;
+
+    if (mock.matchType === 'regex') {
+      return new RegExp(mock.path).test(pathname);
+    }
+    if (mock.matchType === 'prefix') {
+      const prefix = mock.path.endsWith('/') ? mock.path.slice(0, -1) : mock.path;
+      return pathname === prefix || pathname.startsWith(`${prefix}/`) || prefix === '';
+    }
+    return pathname === mock.path;
+  });
+}
+
+/**
+ * Build the body and headers of a mock response, reading its body file from `mocksDir`
+ */
+export async function loadMockResponse(
+  mock: ProxyMock,
+  mocksDir: string
+): Promise<{ headers: { [name: string]: string }; body: Buffer }> {
+  const headers: { [name: string]: string } = {};
+  for (const [name, value] of Object.entries(mock.headers || {})) {
+    headers[name.toLowerCase()] = value;
+  }
+
+  let body: Buffer;
+  if (mock.bodyFile) {
+    // Checked again here, as proxies.json may have been edited by hand
+    const bodyFile = resolveMockBodyFile(mock.bodyFile, mocksDir);
+    if (!bodyFile) {
+      throw new Error(`Mock body file ${mock.bodyFile} is outside ${mocksDir}`);
+    }
+
+    try {
+      body = await fs.readFile(bodyFile);
+    } catch (error: any) {
+      throw new Error(`Could not read mock body file ${mock.bodyFile}: ${error?.message}`);
+    }
+    headers['content-type'] = headers['content-type'] || CONTENT_TYPES[path.extname(mock.bodyFile).toLowerCase()] || 'application/octet-stream';
+  } else {
+    body = Buffer.from(mock.body || '');
+    if (!headers['content-type'] && body.length > 0) {
+      headers['content-type'] = isJSON(mock.body || '') ? 'application/json' : 'text/plain; charset=utf-8';
+    }
+  }
+
+  return { headers, body };
+}
+
+function isJSON(text: string): boolean {
+  try {
+    JSON.parse(text);
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
@@ -0,0 +1,213 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as https from 'https';
+import { AddressInfo } from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  CA_COMMON_NAME, createSubject, ExtendedKeyUsage, INTERMEDIATE_CA_COMMON_NAME, KeyOptions, verifyCertificateChain
+} from './certificate-backend';
+import { NodeCertificateBackend } from './node-certificate-backend';
+
+describe('NodeCertificateBackend', () => {
+  const backend = new NodeCertificateBackend();
+  let tempDir: string;
+  let caKeyPath: string;
+  let caCertPath: string;
+
+  beforeAll(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'navigrator-node-certs-'));
+    caKeyPath = path.join(tempDir, 'rootCA.key');
+    caCertPath = path.join(tempDir, 'rootCA.crt');
+
+    // Smaller keys than the real CA keep the tests fast
+    await backend.generateCA({
+      keyPath: caKeyPath, certPath: caCertPath, subject: createSubject(CA_COMMON_NAME), days: 3650, key: { type: 'rsa', bits: 2048 }
+    });
+  });
+
+  const get = (port: number, ca: Buffer, servername: string) => new Promise<string>((resolve, reject) => {
+    https.get({ host: '127.0.0.1', port, servername, ca }, res => {
+      let data = '';
+      res.on('data', chunk => data += chunk);
+      res.on('end', () => resolve(data));
+    }).on('error', reject);
+  });
+
+  afterAll(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const issue = async (
+    name: string,
+    dnsNames: string[],
+    ipAddresses: string[] = [],
+    key: KeyOptions = { type: 'rsa', bits: 2048 },
+    extendedKeyUsages: ExtendedKeyUsage[] = ['serverAuth']
+  ) => {
+    const keyPath = path.join(tempDir, `${name}.key`);
+    const certPath = path.join(tempDir, `${name}.crt`);
+    await backend.issueCertificate({
+      keyPath, certPath, caKeyPath, caCertPath, subject: createSubject(dnsNames[0]), dnsNames, ipAddresses, days: 365, key, extendedKeyUsages
+    });
+    return { keyPath, certPath, certificate: new crypto.X509Certificate(fs.readFileSync(certPath)) };
+  };
+
+  it('should create a self-signed CA certificate', () => {
+    const ca = new crypto.X509Certificate(fs.readFileSync(caCertPath));
+
+    expect(ca.ca).toBe(true);
+    expect(ca.subject).toBe('CN=Navigrator Local CA\nO=Axlotl Lab\nOU=Development');
+    expect(ca.verify(ca.publicKey)).toBe(true);
+    expect(crypto.createPrivateKey(fs.readFileSync(caKeyPath)).asymmetricKeyType).toBe('rsa');
+    if (process.platform !== 'win32') {
+      expect(fs.statSync(caKeyPath).mode & 0o777).toBe(0o600);
+    }
+  });
+
+  it('should issue certificates signed by the CA for every name', async () => {
+    const ca = new crypto.X509Certificate(fs.readFileSync(caCertPath));
+    const { certificate } = await issue('myapp.test', ['myapp.test', '*.myapp.test'], ['127.0.0.1', '::1']);
+
+    expect(certificate.ca).toBe(false);
+    expect(certificate.checkIssued(ca)).toBe(true);
+    expect(certificate.verify(ca.publicKey)).toBe(true);
+    expect(certificate.checkHost('feature.myapp.test')).toBe('*.myapp.test');
+    expect(certificate.checkIP('127.0.0.1')).toBe('127.0.0.1');
+    expect(certificate.checkIP('::1')).toBe('::1');
+    expect(certificate.keyUsage).toEqual(['1.3.6.1.5.5.7.3.1']);
+  });
+
+  it('should issue ECDSA certificates with the requested usages', async () => {
+    const ca = new crypto.X509Certificate(fs.readFileSync(caCertPath));
+    const { keyPath, certificate } = await issue('ec.test', ['ec.test'], [], { type: 'ecdsa', curve: 'P-384' }, ['serverAuth', 'clientAuth']);
+
+    expect(certificate.verify(ca.publicKey)).toBe(true);
+    expect(certificate.publicKey.asymmetricKeyDetails?.namedCurve).toBe('secp384r1');
+    expect(crypto.createPrivateKey(fs.readFileSync(keyPath)).asymmetricKeyType).toBe('ec');
+    expect(certificate.keyUsage).toEqual(['1.3.6.1.5.5.7.3.1', '1.3.6.1.5.5.7.3.2']);
+  });
+
+  it('should read back the dates, issuer and names', async () => {
+    const { certPath } = await issue('read.test', ['read.test'], ['0:0:0:0:0:0:0:1']);
+
+    const details = await backend.readCertificate(certPath);
+
+    expect(details.issuer).toBe('Navigrator Local CA');
+    expect(details.subjectAltNames).toEqual(['read.test', '::1']);
+    expect(details.validTo.getTime() - details.validFrom.getTime()).toBe(365 * 24 * 60 * 60 * 1000);
+  });
+
+  it('should produce certificates TLS clients trust through the CA', async () => {
+    const { keyPath, certPath } = await issue('tls.test', ['tls.test']);
+    const server = https.createServer({ key: fs.readFileSync(keyPath), cert: fs.readFileSync(certPath) }, (req, res) => res.end('ok'));
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+    try {
+      expect(await get((server.address() as AddressInfo).port, fs.readFileSync(caCertPath), 'tls.test')).toBe('ok');
+    } finally {
+      server.close();
+    }
+  });
+
+  describe('intermediate CA', () => {
+    let intermediateKeyPath: string;
+    let intermediateCertPath: string;
+
+    beforeAll(async () => {
+      intermediateKeyPath = path.join(tempDir, 'intermediateCA.key');
+      intermediateCertPath = path.join(tempDir, 'intermediateCA.crt');
+
+      await backend.generateIntermediateCA({
+        keyPath: intermediateKeyPath,
+        certPath: intermediateCertPath,
+        caKeyPath,
+        caCertPath,
+        subject: createSubject(INTERMEDIATE_CA_COMMON_NAME),
+        days: 1825,
+        key: { type: 'rsa', bits: 2048 }
+      });
+    });
+
+    it('should be a CA signed by the root CA', () => {
+      const root = new crypto.X509Certificate(fs.readFileSync(caCertPath));
+      const intermediate = new crypto.X509Certificate(fs.readFileSync(intermediateCertPath));
+
+      expect(intermediate.ca).toBe(true);
+      expect(intermediate.checkIssued(root)).toBe(true);
+      expect(intermediate.verify(root.publicKey)).toBe(true);
+    });
+
+    it('should serve certificates with their chain to clients trusting only the root CA', async () => {
+      const keyPath = path.join(tempDir, 'chain.test.key');
+      const certPath = path.join(tempDir, 'chain.test.crt');
+      await backend.issueCertificate({
+        keyPath, certPath, caKeyPath: intermediateKeyPath, caCertPath: intermediateCertPath, subject: createSubject('chain.test'),
+        dnsNames: ['chain.test'], ipAddresses: [], days: 365, key: { type: 'ecdsa', curve: 'P-256' }, extendedKeyUsages: ['serverAuth']
+      });
+      fs.appendFileSync(certPath, fs.readFileSync(intermediateCertPath));
+
+      const details = await backend.readCertificate(certPath);
+      expect(details.issuer).toBe(INTERMEDIATE_CA_COMMON_NAME);
+      expect(details.chain).toEqual([expect.objectContaining({ subject: INTERMEDIATE_CA_COMMON_NAME, issuer: CA_COMMON_NAME })]);
+
+      const server = https.createServer({ key: fs.readFileSync(keyPath), cert: fs.readFileSync(certPath) }, (req, res) => res.end('ok'));
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+      try {
+        expect(await get((server.address() as AddressInfo).port, fs.readFileSync(caCertPath), 'chain.test')).toBe('ok');
+      } finally {
+        server.close();
+      }
+    });
+
+    it('should only verify chains signed by the root CA, not by another CA with the same name', async () => {
+      const keyPath = path.join(tempDir, 'verify.test.key');
+      const certPath = path.join(tempDir, 'verify.test.crt');
+      await backend.issueCertificate({
+        keyPath, certPath, caKeyPath: intermediateKeyPath, caCertPath: intermediateCertPath, subject: createSubject('verify.test'),
+        dnsNames: ['verify.test'], ipAddresses: [], days: 365, key: { type: 'ecdsa', curve: 'P-256' }, extendedKeyUsages: ['serverAuth']
+      });
+      const leaf = fs.readFileSync(certPath, 'utf-8');
+      const intermediate = fs.readFileSync(intermediateCertPath, 'utf-8');
+      const root = fs.readFileSync(caCertPath, 'utf-8');
+
+      const otherRootKeyPath = path.join(tempDir, 'otherCA.key');
+      const otherRootCertPath = path.join(tempDir, 'otherCA.crt');
+      await backend.generateCA({
+        keyPath: otherRootKeyPath, certPath: otherRootCertPath, subject: createSubject(CA_COMMON_NAME), days: 3650,
+        key: { type: 'ecdsa', curve: 'P-256' }
+      });
+
+      expect(verifyCertificateChain(leaf + intermediate, root)).toBe(true);
+      expect(verifyCertificateChain(intermediate, root)).toBe(true);
+      expect(verifyCertificateChain(leaf + intermediate, fs.readFileSync(otherRootCertPath, 'utf-8'))).toBe(false);
+      expect(verifyCertificateChain(leaf, root)).toBe(false);
+      expect(verifyCertificateChain('not a certificate', root)).toBe(false);
+    });
+
+    it('should encrypt CA keys with a passphrase and need it to sign', async () => {
+      const rootKeyPath = path.join(tempDir, 'encryptedCA.key');
+      const rootCertPath = path.join(tempDir, 'encryptedCA.crt');
+      await backend.generateCA({
+        keyPath: rootKeyPath, certPath: rootCertPath, subject: createSubject(CA_COMMON_NAME), days: 3650,
+        key: { type: 'ecdsa', curve: 'P-256' }, passphrase: 'correct horse'
+      });
+
+      const intermediate = {
+        keyPath: path.join(tempDir, 'encryptedIntermediate.key'),
+        certPath: path.join(tempDir, 'encryptedIntermediate.crt'),
+        caKeyPath: rootKeyPath,
+        caCertPath: rootCertPath,
+        subject: createSubject(INTERMEDIATE_CA_COMMON_NAME),
+        days: 1825,
+        key: { type: 'ecdsa', curve: 'P-256' } as KeyOptions
+      };
+
+      expect(fs.readFileSync(rootKeyPath, 'utf-8')).toContain('ENCRYPTED PRIVATE KEY');
+      await expect(backend.generateIntermediateCA(intermediate)).rejects.toThrow();
+      await backend.generateIntermediateCA({ ...intermediate, caKeyPassphrase: 'correct horse' });
+      expect(new crypto.X509Certificate(fs.readFileSync(intermediate.certPath)).issuer).toContain(CA_COMMON_NAME);
+    });
+  });
+});
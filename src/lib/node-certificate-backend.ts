@@ -0,0 +1,258 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import {
+  CAOptions, CertificateBackend, CertificateDetails, CertificateSubject, ExtendedKeyUsage, getCommonName, IntermediateCAOptions,
+  IssueCertificateOptions, KeyOptions, parseSubjectAltNames, readCertificateChain
+} from './certificate-backend';
+import {
+  bitString, boolean, contextSpecific, integer, ipAddressBytes, namedBits, nullValue, objectIdentifier, octetString,
+  readChildren, readElement, sequence, set, time, utf8String
+} from './der';
+
+const OID = {
+  commonName: '2.5.4.3',
+  organization: '2.5.4.10',
+  organizationalUnit: '2.5.4.11',
+  sha256WithRSAEncryption: '1.2.840.113549.1.1.11',
+  ecdsaWithSHA256: '1.2.840.10045.4.3.2',
+  subjectKeyIdentifier: '2.5.29.14',
+  keyUsage: '2.5.29.15',
+  subjectAltName: '2.5.29.17',
+  basicConstraints: '2.5.29.19',
+  authorityKeyIdentifier: '2.5.29.35',
+  extendedKeyUsage: '2.5.29.37'
+};
+
+const EXTENDED_KEY_USAGE_OIDS: { [usage in ExtendedKeyUsage]: string } = {
+  serverAuth: '1.3.6.1.5.5.7.3.1',
+  clientAuth: '1.3.6.1.5.5.7.3.2'
+};
+
+/** Bit positions in the key usage extension */
+const KEY_USAGE = {
+  digitalSignature: 0,
+  keyEncipherment: 2,
+  keyCertSign: 5,
+  cRLSign: 6
+};
+
+interface CertificateFields {
+  subject: Buffer;
+  issuer: Buffer;
+  publicKey: crypto.KeyObject;
+  signingKey: crypto.KeyObject;
+  days: number;
+  extensions: Buffer[];
+}
+
+function encodeName(subject: CertificateSubject): Buffer {
+  const attribute = (oid: string, value: string) => set(sequence(objectIdentifier(oid), utf8String(value)));
+
+  return sequence(
+    attribute(OID.commonName, subject.commonName),
+    attribute(OID.organization, subject.organization),
+    attribute(OID.organizationalUnit, subject.organizationalUnit)
+  );
+}
+
+function extension(oid: string, critical: boolean, value: Buffer): Buffer {
+  return sequence(objectIdentifier(oid), ...(critical ? [boolean(true)] : []), octetString(value));
+}
+
+/**
+ * The key identifier of a public key: the SHA-1 hash of its bits, as OpenSSL computes it
+ */
+function keyIdentifier(publicKey: crypto.KeyObject): Buffer {
+  const spki = publicKey.export({ type: 'spki', format: 'der' });
+  const [, subjectPublicKey] = readChildren(readElement(spki).content);
+  return crypto.createHash('sha1').update(subjectPublicKey.content.subarray(1)).digest();
+}
+
+/**
+ * The signature algorithm for a CA key; RSA keys are created by Navigrator, EC keys may come from elsewhere
+ */
+function signatureAlgorithm(key: crypto.KeyObject): Buffer {
+  switch (key.asymmetricKeyType) {
+    case 'rsa':
+      return sequence(objectIdentifier(OID.sha256WithRSAEncryption), nullValue());
+    case 'ec':
+      return sequence(objectIdentifier(OID.ecdsaWithSHA256));
+    default:
+      throw new Error(`Unsupported CA key type: ${key.asymmetricKeyType}`);
+  }
+}
+
+function generateKeyPair(key: KeyOptions): crypto.KeyPairKeyObjectResult {
+  return key.type === 'rsa'
+    ? crypto.generateKeyPairSync('rsa', { modulusLength: key.bits })
+    : crypto.generateKeyPairSync('ec', { namedCurve: key.curve });
+}
+
+/**
+ * A random positive 128-bit serial number
+ */
+function serialNumber(): Buffer {
+  const serial = crypto.randomBytes(16);
+  serial[0] = (serial[0] & 0x7f) | 0x01;
+  return serial;
+}
+
+/**
+ * Build and sign an X.509 v3 certificate
+ */
+function buildCertificate(fields: CertificateFields): Buffer {
+  const algorithm = signatureAlgorithm(fields.signingKey);
+  const notBefore = new Date();
+  const notAfter = new Date(notBefore.getTime() + fields.days * 24 * 60 * 60 * 1000);
+
+  const tbsCertificate = sequence(
+    contextSpecific(0, integer(2)),
+    integer(serialNumber()),
+    algorithm,
+    fields.issuer,
+    sequence(time(notBefore), time(notAfter)),
+    fields.subject,
+    fields.publicKey.export({ type: 'spki', format: 'der' }),
+    contextSpecific(3, sequence(...fields.extensions))
+  );
+
+  const signature = crypto.sign('sha256', tbsCertificate, fields.signingKey);
+  return sequence(tbsCertificate, algorithm, bitString(signature));
+}
+
+function toPem(der: Buffer): string {
+  const lines = der.toString('base64').match(/.{1,64}/g) || [];
+  return `-----BEGIN CERTIFICATE-----\n${lines.join('\n')}\n-----END CERTIFICATE-----\n`;
+}
+
+/**
+ * The subject of a certificate exactly as encoded, so certificates it issues name it byte for byte
+ */
+function getEncodedSubject(certificate: crypto.X509Certificate): Buffer {
+  const [tbsCertificate] = readChildren(readElement(certificate.raw).content);
+  const fields = readChildren(tbsCertificate.content);
+  // The version is optional: [0] version, serial, signature algorithm, issuer, validity, subject
+  const versionOffset = fields[0].tag === 0xa0 ? 1 : 0;
+  return fields[versionOffset + 4].raw;
+}
+
+/**
+ * Certificate backend built on Node.js crypto: RSA and ECDSA keys come from generateKeyPairSync and certificates are encoded
+ * and signed natively, so nothing needs to be installed
+ */
+export class NodeCertificateBackend implements CertificateBackend {
+  public readonly name = 'node';
+  public readonly label = 'Node.js crypto';
+
+  public async isAvailable(): Promise<boolean> {
+    return true;
+  }
+
+  public async generateCA(options: CAOptions): Promise<void> {
+    const { publicKey, privateKey } = generateKeyPair(options.key);
+    const name = encodeName(options.subject);
+
+    const certificate = buildCertificate({
+      subject: name,
+      issuer: name,
+      publicKey,
+      signingKey: privateKey,
+      days: options.days,
+      extensions: [
+        extension(OID.basicConstraints, true, sequence(boolean(true))),
+        extension(OID.keyUsage, true, namedBits([KEY_USAGE.digitalSignature, KEY_USAGE.keyCertSign, KEY_USAGE.cRLSign])),
+        extension(OID.subjectKeyIdentifier, false, octetString(keyIdentifier(publicKey)))
+      ]
+    });
+
+    await this.writeKeyAndCertificate(options.keyPath, privateKey, options.certPath, certificate, options.passphrase);
+  }
+
+  public async generateIntermediateCA(options: IntermediateCAOptions): Promise<void> {
+    const rootCertificate = new crypto.X509Certificate(await fs.readFile(options.caCertPath));
+    const rootKey = crypto.createPrivateKey({ key: await fs.readFile(options.caKeyPath), passphrase: options.caKeyPassphrase });
+    const { publicKey, privateKey } = generateKeyPair(options.key);
+
+    const certificate = buildCertificate({
+      subject: encodeName(options.subject),
+      issuer: getEncodedSubject(rootCertificate),
+      publicKey,
+      signingKey: rootKey,
+      days: options.days,
+      extensions: [
+        // pathLenConstraint 0: it may only issue server certificates, not further CAs
+        extension(OID.basicConstraints, true, sequence(boolean(true), integer(0))),
+        extension(OID.keyUsage, true, namedBits([KEY_USAGE.digitalSignature, KEY_USAGE.keyCertSign, KEY_USAGE.cRLSign])),
+        extension(OID.subjectKeyIdentifier, false, octetString(keyIdentifier(publicKey))),
+        extension(OID.authorityKeyIdentifier, false, sequence(contextSpecific(0, keyIdentifier(rootCertificate.publicKey), false)))
+      ]
+    });
+
+    await this.writeKeyAndCertificate(options.keyPath, privateKey, options.certPath, certificate, options.passphrase);
+  }
+
+  public async issueCertificate(options: IssueCertificateOptions): Promise<void> {
+    const caCertificate = new crypto.X509Certificate(await fs.readFile(options.caCertPath));
+    const caKey = crypto.createPrivateKey(await fs.readFile(options.caKeyPath));
+    const { publicKey, privateKey } = generateKeyPair(options.key);
+    // Key encipherment only applies to RSA keys
+    const keyUsages = options.key.type === 'rsa'
+      ? [KEY_USAGE.digitalSignature, KEY_USAGE.keyEncipherment]
+      : [KEY_USAGE.digitalSignature];
+    const extendedKeyUsages = options.extendedKeyUsages.map(usage => objectIdentifier(EXTENDED_KEY_USAGE_OIDS[usage]));
+
+    // dNSName is [2] and iPAddress is [7] in GeneralName
+    const altNames = [
+      ...options.dnsNames.map(name => contextSpecific(2, Buffer.from(name, 'ascii'), false)),
+      ...options.ipAddresses.map(ip => contextSpecific(7, ipAddressBytes(ip), false))
+    ];
+
+    const certificate = buildCertificate({
+      subject: encodeName(options.subject),
+      issuer: getEncodedSubject(caCertificate),
+      publicKey,
+      signingKey: caKey,
+      days: options.days,
+      extensions: [
+        extension(OID.basicConstraints, false, sequence()),
+        extension(OID.keyUsage, true, namedBits(keyUsages)),
+        extension(OID.extendedKeyUsage, false, sequence(...extendedKeyUsages)),
+        extension(OID.subjectAltName, false, sequence(...altNames)),
+        extension(OID.subjectKeyIdentifier, false, octetString(keyIdentifier(publicKey))),
+        extension(OID.authorityKeyIdentifier, false, sequence(contextSpecific(0, keyIdentifier(caCertificate.publicKey), false)))
+      ]
+    });
+
+    await this.writeKeyAndCertificate(options.keyPath, privateKey, options.certPath, certificate);
+  }
+
+  public async readCertificate(certPath: string): Promise<CertificateDetails> {
+    const pem = await fs.readFile(certPath, 'utf-8');
+    // X509Certificate reads the first certificate, the one the file is for
+    const certificate = new crypto.X509Certificate(pem);
+
+    return {
+      validFrom: new Date(certificate.validFrom),
+      validTo: new Date(certificate.validTo),
+      issuer: getCommonName(certificate.issuer),
+      subjectAltNames: parseSubjectAltNames(certificate.subjectAltName || ''),
+      chain: readCertificateChain(pem)
+    };
+  }
+
+  private async writeKeyAndCertificate(
+    keyPath: string,
+    key: crypto.KeyObject,
+    certPath: string,
+    certificate: Buffer,
+    passphrase?: string
+  ): Promise<void> {
+    const pem = passphrase
+      ? key.export({ type: 'pkcs8', format: 'pem', cipher: 'aes-256-cbc', passphrase })
+      : key.export({ type: 'pkcs8', format: 'pem' });
+
+    // Private keys are only readable by their owner
+    await fs.writeFile(keyPath, pem, { mode: 0o600 });
+    await fs.writeFile(certPath, toPem(certificate));
+  }
+}
@@ -0,0 +1,92 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { findNSSDatabases, getCertutilDatabaseArgument, parseFirefoxProfilesIni } from './nss-databases';
+
+const PROFILES_INI = `[Install4F96D1932A9F858E]
+Default=Profiles/abcd1234.default-release
+Locked=1
+
+[Profile1]
+Name=default
+IsRelative=1
+Path=Profiles/wxyz5678.default
+Default=1
+
+[Profile0]
+Name=default-release
+IsRelative=1
+Path=Profiles/abcd1234.default-release
+
+; Profiles outside the Firefox directory have absolute paths
+[Profile2]
+Name=work
+IsRelative=0
+Path=/data/firefox/work
+
+[General]
+StartWithLastProfile=1
+Version=2
+`;
+
+describe('nss-databases', () => {
+  describe('parseFirefoxProfilesIni', () => {
+    it('should list each profile once with its directory', () => {
+      expect(parseFirefoxProfilesIni(PROFILES_INI, '/home/me/.mozilla/firefox')).toEqual([
+        { name: 'abcd1234.default-release', directory: path.join('/home/me/.mozilla/firefox', 'Profiles', 'abcd1234.default-release') },
+        { name: 'default', directory: path.join('/home/me/.mozilla/firefox', 'Profiles', 'wxyz5678.default') },
+        { name: 'work', directory: '/data/firefox/work' }
+      ]);
+    });
+
+    it('should read files with Windows line endings', () => {
+      const profiles = parseFirefoxProfilesIni('[Profile0]\r\nName=dev\r\nIsRelative=1\r\nPath=Profiles/x.dev\r\n', '/ff');
+
+      expect(profiles).toEqual([{ name: 'dev', directory: path.join('/ff', 'Profiles', 'x.dev') }]);
+    });
+
+    it('should ignore sections without a profile path', () => {
+      expect(parseFirefoxProfilesIni('[General]\nVersion=2\n[Profile0]\nName=broken\n', '/ff')).toEqual([]);
+    });
+  });
+
+  describe('findNSSDatabases', () => {
+    let homeDir: string;
+
+    const createFile = (...segments: string[]) => {
+      fs.mkdirSync(path.join(homeDir, ...segments.slice(0, -1)), { recursive: true });
+      fs.writeFileSync(path.join(homeDir, ...segments), '');
+    };
+
+    beforeEach(() => {
+      homeDir = fs.mkdtempSync(path.join(os.tmpdir(), 'navigrator-nss-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(homeDir, { recursive: true, force: true });
+    });
+
+    it('should find Firefox profiles and the Chromium database that have a certificate database', async () => {
+      createFile('.mozilla', 'firefox', 'profiles.ini');
+      fs.writeFileSync(path.join(homeDir, '.mozilla', 'firefox', 'profiles.ini'), PROFILES_INI);
+      createFile('.mozilla', 'firefox', 'Profiles', 'abcd1234.default-release', 'cert9.db');
+      createFile('.mozilla', 'firefox', 'Profiles', 'wxyz5678.default', 'cert8.db');
+      createFile('.pki', 'nssdb', 'cert9.db');
+
+      const databases = await findNSSDatabases('linux', homeDir);
+
+      expect(databases).toEqual([
+        { browser: 'Firefox', profile: 'abcd1234.default-release', directory: path.join(homeDir, '.mozilla', 'firefox', 'Profiles', 'abcd1234.default-release'), type: 'sql' },
+        { browser: 'Firefox', profile: 'default', directory: path.join(homeDir, '.mozilla', 'firefox', 'Profiles', 'wxyz5678.default'), type: 'dbm' },
+        { browser: 'Chromium', profile: 'nssdb', directory: path.join(homeDir, '.pki', 'nssdb'), type: 'sql' }
+      ]);
+      expect(getCertutilDatabaseArgument(databases[2])).toBe(`sql:${path.join(homeDir, '.pki', 'nssdb')}`);
+    });
+
+    it('should only look for the Chromium database on Linux', async () => {
+      createFile('.pki', 'nssdb', 'cert9.db');
+
+      expect(await findNSSDatabases('darwin', homeDir)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,151 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+
+/**
+ * A certificate database of a browser that keeps its own trust store instead of using the system one
+ */
+export interface NSSDatabase {
+  browser: 'Firefox' | 'Chromium';
+  /** Profile name, e.g. "default-release" */
+  profile: string;
+  /** Directory holding cert9.db (or cert8.db in very old profiles) */
+  directory: string;
+  /** How certutil reads the database: "sql:" for cert9.db, "dbm:" for cert8.db */
+  type: 'sql' | 'dbm';
+}
+
+export interface BrowserProfile {
+  name: string;
+  directory: string;
+}
+
+/**
+ * Read the profiles listed in a Firefox profiles.ini. Profiles come from [ProfileN] sections, and from the
+ * [Install...] sections naming the default profile of each Firefox installation
+ */
+export function parseFirefoxProfilesIni(content: string, profilesDir: string): BrowserProfile[] {
+  const sections: { name: string; values: { [key: string]: string } }[] = [];
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith(';') || line.startsWith('#')) continue;
+
+    const section = line.match(/^\[(.+)\]$/);
+    if (section) {
+      sections.push({ name: section[1], values: {} });
+    } else if (sections.length > 0 && line.includes('=')) {
+      const separator = line.indexOf('=');
+      sections[sections.length - 1].values[line.slice(0, separator).trim()] = line.slice(separator + 1).trim();
+    }
+  }
+
+  const profiles: BrowserProfile[] = [];
+  const resolve = (profilePath: string, isRelative: boolean) =>
+    isRelative ? path.join(profilesDir, ...profilePath.split('/')) : profilePath;
+
+  for (const { name, values } of sections) {
+    let profile: BrowserProfile | null = null;
+
+    if (/^Profile\d+$/i.test(name) && values.Path) {
+      profile = { name: values.Name || path.basename(values.Path), directory: resolve(values.Path, values.IsRelative !== '0') };
+    } else if (/^Install/i.test(name) && values.Default) {
+      // Install sections always use paths relative to the profiles directory, unless they are absolute
+      profile = { name: path.basename(values.Default), directory: resolve(values.Default, !path.isAbsolute(values.Default)) };
+    }
+
+    if (profile && !profiles.some(existing => existing.directory === profile!.directory)) {
+      profiles.push(profile);
+    }
+  }
+
+  return profiles;
+}
+
+/**
+ * Directories holding profiles.ini for each way Firefox is installed on a platform
+ */
+export function getFirefoxProfilesDirs(platform: NodeJS.Platform = os.platform(), homeDir: string = os.homedir()): string[] {
+  switch (platform) {
+    case 'win32':
+      return [path.join(process.env.APPDATA || path.join(homeDir, 'AppData', 'Roaming'), 'Mozilla', 'Firefox')];
+    case 'darwin':
+      return [path.join(homeDir, 'Library', 'Application Support', 'Firefox')];
+    default:
+      return [
+        path.join(homeDir, '.mozilla', 'firefox'),
+        // Snap and Flatpak packages keep profiles in their own directories
+        path.join(homeDir, 'snap', 'firefox', 'common', '.mozilla', 'firefox'),
+        path.join(homeDir, '.var', 'app', 'org.mozilla.firefox', '.mozilla', 'firefox')
+      ];
+  }
+}
+
+/**
+ * The shared NSS database Chromium and Chrome read on Linux. Elsewhere they use the system store
+ */
+export function getChromiumProfiles(platform: NodeJS.Platform = os.platform(), homeDir: string = os.homedir()): BrowserProfile[] {
+  if (platform !== 'linux') {
+    return [];
+  }
+
+  return [
+    { name: 'nssdb', directory: path.join(homeDir, '.pki', 'nssdb') },
+    { name: 'snap', directory: path.join(homeDir, 'snap', 'chromium', 'current', '.pki', 'nssdb') }
+  ];
+}
+
+/**
+ * Find the NSS databases of Firefox profiles and Chromium. Profiles that were never opened have no database yet
+ * and are left out
+ */
+export async function findNSSDatabases(platform: NodeJS.Platform = os.platform(), homeDir: string = os.homedir()): Promise<NSSDatabase[]> {
+  const databases: NSSDatabase[] = [];
+
+  for (const profilesDir of getFirefoxProfilesDirs(platform, homeDir)) {
+    let ini: string;
+    try {
+      ini = await fs.readFile(path.join(profilesDir, 'profiles.ini'), 'utf-8');
+    } catch (error) {
+      continue;
+    }
+
+    for (const profile of parseFirefoxProfilesIni(ini, profilesDir)) {
+      const type = await getDatabaseType(profile.directory);
+      if (type) {
+        databases.push({ browser: 'Firefox', profile: profile.name, directory: profile.directory, type });
+      }
+    }
+  }
+
+  for (const profile of getChromiumProfiles(platform, homeDir)) {
+    const type = await getDatabaseType(profile.directory);
+    if (type) {
+      databases.push({ browser: 'Chromium', profile: profile.name, directory: profile.directory, type });
+    }
+  }
+
+  return databases;
+}
+
+/**
+ * The database argument certutil takes, e.g. sql:/home/me/.pki/nssdb
+ */
+export function getCertutilDatabaseArgument(database: NSSDatabase): string {
+  return `${database.type}:${database.directory}`;
+}
+
+async function getDatabaseType(directory: string): Promise<NSSDatabase['type'] | null> {
+  if (await fileExists(path.join(directory, 'cert9.db'))) return 'sql';
+  if (await fileExists(path.join(directory, 'cert8.db'))) return 'dbm';
+  return null;
+}
+
+async function fileExists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
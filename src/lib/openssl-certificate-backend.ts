@@ -0,0 +1,195 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import {
+  CA_PASSPHRASE_ENV, CAOptions, CertificateBackend, CertificateDetails, CertificateSubject, IntermediateCAOptions, IssueCertificateOptions,
+  KeyOptions, parseSubjectAltNames, readCertificateChain
+} from './certificate-backend';
+import { commandSucceeds, CommandRunner, runCommand } from './command-runner';
+
+/**
+ * Format a subject for `openssl -subj`
+ */
+function formatSubject(subject: CertificateSubject): string {
+  return `/CN=${subject.commonName}/O=${subject.organization}/OU=${subject.organizationalUnit}`;
+}
+
+/**
+ * Arguments creating a private key, encrypted with the passphrase in NAVIGRATOR_CA_PASSPHRASE if asked to
+ */
+function keyGenerationArgs(keyPath: string, key: KeyOptions, encrypt: boolean = false): string[] {
+  return key.type === 'rsa'
+    ? ['genrsa', ...(encrypt ? ['-aes256', '-passout', `env:${CA_PASSPHRASE_ENV}`] : []), '-out', keyPath, String(key.bits)]
+    : [
+      'genpkey', '-algorithm', 'EC', '-pkeyopt', `ec_paramgen_curve:${key.curve}`,
+      ...(encrypt ? ['-aes256', '-pass', `env:${CA_PASSPHRASE_ENV}`] : []), '-out', keyPath
+    ];
+}
+
+/**
+ * Arguments reading an encrypted key
+ */
+function passphraseInputArgs(passphrase: string | undefined): string[] {
+  return passphrase ? ['-passin', `env:${CA_PASSPHRASE_ENV}`] : [];
+}
+
+/**
+ * Certificate backend running the `openssl` program, which must be installed and in the PATH
+ */
+export class OpenSSLCertificateBackend implements CertificateBackend {
+  public readonly name = 'openssl';
+  public readonly label = 'OpenSSL';
+  private run: CommandRunner;
+
+  constructor(run: CommandRunner = runCommand) {
+    this.run = run;
+  }
+
+  public async isAvailable(): Promise<boolean> {
+    return commandSucceeds(this.run, 'openssl', ['version']);
+  }
+
+  public async generateCA(options: CAOptions): Promise<void> {
+    // Create private key for the CA
+    await this.runOpenSSL(keyGenerationArgs(options.keyPath, options.key, !!options.passphrase), options.passphrase);
+
+    // Create the self-signed CA certificate
+    await this.runOpenSSL([
+      'req', '-x509', '-new', '-nodes', '-key', options.keyPath, ...passphraseInputArgs(options.passphrase), '-sha256',
+      '-days', String(options.days), '-out', options.certPath, '-subj', formatSubject(options.subject)
+    ], options.passphrase);
+  }
+
+  public async generateIntermediateCA(options: IntermediateCAOptions): Promise<void> {
+    // The CSR and config are temporary files next to the certificate
+    const basePath = options.certPath.slice(0, -path.extname(options.certPath).length);
+    const csrPath = `${basePath}.csr`;
+    const configPath = `${basePath}.cnf`;
+
+    // pathlen:0 lets it issue server certificates but not further CAs
+    await fs.writeFile(configPath, `[v3_intermediate_ca]
+basicConstraints = critical, CA:TRUE, pathlen:0
+keyUsage = critical, digitalSignature, keyCertSign, cRLSign
+subjectKeyIdentifier = hash
+authorityKeyIdentifier = keyid:always
+`);
+
+    await this.runOpenSSL(keyGenerationArgs(options.keyPath, options.key, !!options.passphrase), options.passphrase);
+    await this.runOpenSSL([
+      'req', '-new', '-key', options.keyPath, ...passphraseInputArgs(options.passphrase), '-out', csrPath,
+      '-subj', formatSubject(options.subject)
+    ], options.passphrase);
+
+    // Sign it with the root CA
+    await this.runOpenSSL([
+      'x509', '-req', '-in', csrPath, '-CA', options.caCertPath,
+      '-CAkey', options.caKeyPath, ...passphraseInputArgs(options.caKeyPassphrase), '-CAcreateserial',
+      '-out', options.certPath, '-days', String(options.days), '-sha256',
+      '-extensions', 'v3_intermediate_ca', '-extfile', configPath
+    ], options.caKeyPassphrase);
+
+    await fs.unlink(csrPath);
+    await fs.unlink(configPath);
+  }
+
+  public async issueCertificate(options: IssueCertificateOptions): Promise<void> {
+    // The CSR and config are temporary files next to the certificate
+    const basePath = options.certPath.slice(0, -path.extname(options.certPath).length);
+    const csrPath = `${basePath}.csr`;
+    const configPath = `${basePath}.cnf`;
+
+    // Create configuration file for the certificate
+    await fs.writeFile(configPath, this.generateConfig(options));
+
+    // Generate private key for the domain
+    await this.run('openssl', keyGenerationArgs(options.keyPath, options.key));
+
+    // Create CSR (Certificate Signing Request)
+    await this.run('openssl', [
+      'req', '-new', '-key', options.keyPath, '-out', csrPath,
+      '-config', configPath, '-subj', formatSubject(options.subject)
+    ]);
+
+    // Sign the certificate with our CA
+    await this.run('openssl', [
+      'x509', '-req', '-in', csrPath, '-CA', options.caCertPath,
+      '-CAkey', options.caKeyPath, '-CAcreateserial',
+      '-out', options.certPath, '-days', String(options.days), '-sha256',
+      '-extensions', 'v3_req', '-extfile', configPath
+    ]);
+
+    // Remove temporary files
+    await fs.unlink(csrPath);
+    await fs.unlink(configPath);
+  }
+
+  /**
+   * Run openssl, handing it the passphrase through the environment so it doesn't show up in the process list
+   */
+  private runOpenSSL(args: string[], passphrase: string | undefined) {
+    return passphrase
+      ? this.run('openssl', args, { env: { [CA_PASSPHRASE_ENV]: passphrase } })
+      : this.run('openssl', args);
+  }
+
+  /**
+   * Generate an OpenSSL configuration file for the certificate
+   */
+  private generateConfig(options: IssueCertificateOptions): string {
+    const altNames = [
+      ...options.dnsNames.map((name, index) => `DNS.${index + 1} = ${name}`),
+      ...options.ipAddresses.map((ip, index) => `IP.${index + 1} = ${ip}`)
+    ];
+
+    // Key encipherment only applies to RSA keys
+    const keyUsage = options.key.type === 'rsa' ? 'digitalSignature, keyEncipherment' : 'digitalSignature';
+
+    return `[req]
+distinguished_name = req_distinguished_name
+req_extensions = v3_req
+prompt = no
+
+[req_distinguished_name]
+CN = ${options.subject.commonName}
+O = ${options.subject.organization}
+OU = ${options.subject.organizationalUnit}
+
+[v3_req]
+basicConstraints = CA:FALSE
+keyUsage = ${keyUsage}
+extendedKeyUsage = ${options.extendedKeyUsages.join(', ')}
+subjectAltName = @alt_names
+
+[alt_names]
+${altNames.join('\n')}
+`;
+  }
+
+  public async readCertificate(certPath: string): Promise<CertificateDetails> {
+    const { stdout: dates } = await this.run('openssl', ['x509', '-in', certPath, '-noout', '-dates']);
+
+    // Parse dates (format: notBefore=May 30 12:00:00 2023 GMT / notAfter=May 30 12:00:00 2024 GMT)
+    const notBeforeMatch = dates.match(/notBefore=(.+)$/m);
+    const notAfterMatch = dates.match(/notAfter=(.+)$/m);
+
+    if (!notBeforeMatch || !notAfterMatch) {
+      throw new Error('Could not extract dates from certificate');
+    }
+
+    // Extract CN from issuer
+    const { stdout: issuerData } = await this.run('openssl', ['x509', '-in', certPath, '-noout', '-issuer']);
+    const issuerCNMatch = issuerData.match(/CN\s*=\s*([^,\/]+)/);
+
+    const { stdout: subjectAltNames } = await this.run('openssl', ['x509', '-in', certPath, '-noout', '-ext', 'subjectAltName']);
+
+    // `openssl x509` only reads the first certificate of the file, so the chain after it is read by Node.js
+    const chain = readCertificateChain(await fs.readFile(certPath, 'utf-8'));
+
+    return {
+      validFrom: new Date(notBeforeMatch[1]),
+      validTo: new Date(notAfterMatch[1]),
+      issuer: issuerCNMatch ? issuerCNMatch[1].trim() : 'Unknown',
+      subjectAltNames: parseSubjectAltNames(subjectAltNames),
+      chain
+    };
+  }
+}
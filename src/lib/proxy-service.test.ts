@@ -0,0 +1,410 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import * as http2 from 'http2';
+import * as https from 'https';
+import * as net from 'net';
+import { AddressInfo } from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { CA_COMMON_NAME, createSubject } from './certificate-backend';
+import * as chaos from './chaos';
+import { NodeCertificateBackend } from './node-certificate-backend';
+import { ProxyConfig, ProxyService } from './proxy-service';
+
+jest.mock('os', () => ({
+  ...jest.requireActual('os'),
+  homedir: jest.fn()
+}));
+
+interface Response {
+  status: number;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+const APP_DOMAIN = 'app.navigrator.test';
+const API_DOMAIN = 'api.navigrator.test';
+
+const listen = (server: net.Server, host?: string) => new Promise<number>(resolve => {
+  server.listen(0, host, () => resolve((server.address() as AddressInfo).port));
+});
+
+const close = (server: net.Server) => new Promise<void>(resolve => server.close(() => resolve()));
+
+const getFreePort = async () => {
+  const server = net.createServer();
+  const port = await listen(server);
+  await close(server);
+  return port;
+};
+
+const waitFor = async (condition: () => boolean) => {
+  for (let i = 0; i < 100 && !condition(); i++) {
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+};
+
+const readBody = (stream: NodeJS.ReadableStream) => new Promise<string>((resolve, reject) => {
+  let body = '';
+  stream.setEncoding('utf-8');
+  stream.on('data', chunk => body += chunk);
+  stream.on('end', () => resolve(body));
+  stream.on('error', reject);
+});
+
+describe('ProxyService', () => {
+  let tempDir: string;
+  let certPath: string;
+  let keyPath: string;
+  let service: ProxyService;
+  let proxyPort: number;
+  let upstreams: net.Server[];
+  let upgradedSockets: net.Socket[];
+
+  beforeAll(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'navigrator-proxy-'));
+    const backend = new NodeCertificateBackend();
+    const key = { type: 'ecdsa' as const, curve: 'P-256' as const };
+    const caKeyPath = path.join(tempDir, 'rootCA.key');
+    const caCertPath = path.join(tempDir, 'rootCA.crt');
+    certPath = path.join(tempDir, 'navigrator.test.crt');
+    keyPath = path.join(tempDir, 'navigrator.test.key');
+
+    await backend.generateCA({ keyPath: caKeyPath, certPath: caCertPath, subject: createSubject(CA_COMMON_NAME), days: 1, key });
+    await backend.issueCertificate({
+      keyPath, certPath, caKeyPath, caCertPath, subject: createSubject('*.navigrator.test'), dnsNames: ['*.navigrator.test'],
+      ipAddresses: [], days: 1, key, extendedKeyUsages: ['serverAuth']
+    });
+  });
+
+  afterAll(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  beforeEach(async () => {
+    (os.homedir as jest.Mock).mockReturnValue(fs.mkdtempSync(path.join(tempDir, 'home-')));
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    service = new ProxyService();
+    proxyPort = await getFreePort();
+    upstreams = [];
+    upgradedSockets = [];
+  });
+
+  afterEach(async () => {
+    service.stopAllProxies();
+    upgradedSockets.forEach(socket => socket.destroy());
+    await Promise.all(upstreams.map(close));
+    jest.restoreAllMocks();
+  });
+
+  /**
+   * An HTTP/1.1 target answering with what it received; upgrade requests are echoed back, or refused on /refuse
+   */
+  const startUpstream = async (name: string) => {
+    const server = http.createServer((req, res) => {
+      res.setHeader('content-type', 'application/json');
+      res.end(JSON.stringify({ upstream: name, method: req.method, url: req.url, headers: req.headers }));
+    });
+
+    server.on('upgrade', (req: http.IncomingMessage, socket: net.Socket) => {
+      upgradedSockets.push(socket);
+      if (req.url === '/refuse') {
+        socket.end('HTTP/1.1 403 Forbidden\r\nContent-Type: text/plain\r\nTransfer-Encoding: chunked\r\n\r\n7\r\nrefused\r\n0\r\n\r\n');
+        return;
+      }
+
+      socket.write('HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\nConnection: Upgrade\r\n\r\n');
+      socket.pipe(socket);
+    });
+
+    upstreams.push(server);
+    return `http://127.0.0.1:${await listen(server, '127.0.0.1')}`;
+  };
+
+  const startProxy = async (config: Partial<ProxyConfig> & { domain: string; target: string }) => {
+    service.addProxy({ isRunning: false, port: proxyPort, healthCheck: { enabled: false }, ...config });
+    return service.startProxy(config.domain, certPath, keyPath);
+  };
+
+  const request = (
+    domain: string,
+    requestPath: string = '/',
+    options: https.RequestOptions = {}
+  ) => new Promise<Response>((resolve, reject) => {
+    https.request({
+      host: '127.0.0.1', port: proxyPort, servername: domain, path: requestPath, headers: { host: domain },
+      rejectUnauthorized: false, agent: false, ...options
+    }, async res => {
+      resolve({ status: res.statusCode!, headers: res.headers, body: await readBody(res) });
+    }).on('error', reject).end();
+  });
+
+  const requestUpgrade = (domain: string, requestPath: string) => new Promise<Response | net.Socket>((resolve, reject) => {
+    const req = https.request({
+      host: '127.0.0.1', port: proxyPort, servername: domain, path: requestPath, rejectUnauthorized: false, agent: false,
+      headers: { host: domain, connection: 'Upgrade', upgrade: 'websocket' }
+    });
+    req.on('upgrade', (res, socket) => {
+      upgradedSockets.push(socket);
+      resolve(socket);
+    });
+    req.on('response', async res => resolve({ status: res.statusCode!, headers: res.headers, body: await readBody(res) }));
+    req.on('error', reject);
+    req.end();
+  });
+
+  describe('addProxy', () => {
+    it('should normalize targets whatever the case of their scheme', () => {
+      const config = service.addProxy({
+        domain: APP_DOMAIN,
+        target: 'HTTP://localhost:3000',
+        isRunning: false,
+        routes: [{ path: '/api', target: 'Https://localhost:8443' }, { path: '/ws', target: 'localhost:4000' }]
+      });
+
+      expect(config.target).toBe('http://localhost:3000');
+      expect(config.routes!.map(route => route.target)).toEqual(['https://localhost:8443', 'http://localhost:4000']);
+    });
+  });
+
+  describe('HTTP/1.1 targets', () => {
+    it('should send requests to the first matching route, stripping prefixes when asked', async () => {
+      const app = await startUpstream('app');
+      const versioned = await startUpstream('versioned');
+      const api = await startUpstream('api');
+      await startProxy({
+        domain: APP_DOMAIN,
+        target: app,
+        routes: [
+          { path: '^/api/v[0-9]+', matchType: 'regex', stripPrefix: true, target: versioned },
+          { path: '/api', target: api }
+        ]
+      });
+
+      const routed = async (requestPath: string) => JSON.parse((await request(APP_DOMAIN, requestPath)).body);
+
+      // The regex route comes first, so it wins over the prefix route that also matches
+      expect(await routed('/api/v2/users?page=2')).toEqual(expect.objectContaining({ upstream: 'versioned', url: '/users?page=2' }));
+      expect(await routed('/api/health')).toEqual(expect.objectContaining({ upstream: 'api', url: '/api/health' }));
+      // Prefixes match whole path segments only
+      expect(await routed('/apiary')).toEqual(expect.objectContaining({ upstream: 'app', url: '/apiary' }));
+    });
+
+    it('should translate HTTP/2 requests, leaving out pseudo-headers', async () => {
+      await startProxy({ domain: APP_DOMAIN, target: await startUpstream('app'), http2: true });
+      const session = http2.connect(`https://127.0.0.1:${proxyPort}`, { servername: APP_DOMAIN, rejectUnauthorized: false });
+
+      try {
+        const stream = session.request({ ':method': 'POST', ':path': '/users?page=2', ':authority': APP_DOMAIN, 'x-custom': 'yes' });
+        const responseHeaders = new Promise<http2.IncomingHttpHeaders>(resolve => stream.on('response', resolve));
+        stream.end('{}');
+
+        expect((await responseHeaders)[':status']).toBe(200);
+        const received = JSON.parse(await readBody(stream));
+
+        expect(session.alpnProtocol).toBe('h2');
+        expect(received).toEqual(expect.objectContaining({ method: 'POST', url: '/users?page=2' }));
+        expect(received.headers).toEqual(expect.objectContaining({
+          host: APP_DOMAIN, 'x-custom': 'yes', 'x-forwarded-proto': 'https', 'x-original-domain': APP_DOMAIN
+        }));
+        expect(Object.keys(received.headers).filter(name => name.startsWith(':'))).toEqual([]);
+      } finally {
+        session.close();
+      }
+    });
+  });
+
+  describe('HTTP/2 targets', () => {
+    it('should relay gRPC trailers from an h2c target', async () => {
+      const grpc = http2.createServer();
+      let requestHeaders: http2.IncomingHttpHeaders = {};
+      grpc.on('stream', async (stream, headers) => {
+        requestHeaders = headers;
+        const message = await readBody(stream);
+
+        stream.respond({ ':status': 200, 'content-type': 'application/grpc' }, { waitForTrailers: true });
+        stream.on('wantTrailers', () => stream.sendTrailers({ 'grpc-status': '0', 'grpc-message': 'OK' }));
+        stream.end(`echo ${message}`);
+      });
+      upstreams.push(grpc);
+      const grpcPort = await listen(grpc, '127.0.0.1');
+
+      await startProxy({ domain: API_DOMAIN, target: `http://127.0.0.1:${grpcPort}`, upstreamProtocol: 'h2c' });
+      const session = http2.connect(`https://127.0.0.1:${proxyPort}`, { servername: API_DOMAIN, rejectUnauthorized: false });
+
+      try {
+        const stream = session.request({
+          ':method': 'POST', ':path': '/helloworld.Greeter/SayHello', ':authority': API_DOMAIN,
+          'content-type': 'application/grpc', te: 'trailers'
+        });
+        const trailers = new Promise<http2.IncomingHttpHeaders>(resolve => stream.on('trailers', resolve));
+        stream.end('hello');
+
+        expect(await readBody(stream)).toBe('echo hello');
+        expect(await trailers).toEqual(expect.objectContaining({ 'grpc-status': '0', 'grpc-message': 'OK' }));
+        expect(requestHeaders).toEqual(expect.objectContaining({ ':path': '/helloworld.Greeter/SayHello', te: 'trailers' }));
+      } finally {
+        session.close();
+      }
+    });
+  });
+
+  describe('chaos', () => {
+    it('should stop a throttled response when the client disconnects', async () => {
+      let upstreamClosed = false;
+      const server = http.createServer((req, res) => {
+        res.on('close', () => upstreamClosed = true);
+        res.end(Buffer.alloc(256 * 1024));
+      });
+      upstreams.push(server);
+      const target = `http://127.0.0.1:${await listen(server, '127.0.0.1')}`;
+      const createThrottle = jest.spyOn(chaos, 'createThrottle');
+
+      await startProxy({ domain: APP_DOMAIN, target, chaos: { enabled: true, bandwidth: { kilobytesPerSecond: 1 } } });
+      // Go away as soon as the first throttled slice arrives
+      await new Promise<void>((resolve, reject) => {
+        const req = https.request({
+          host: '127.0.0.1', port: proxyPort, servername: APP_DOMAIN, headers: { host: APP_DOMAIN }, rejectUnauthorized: false, agent: false
+        }, res => res.once('data', () => {
+          req.destroy();
+          resolve();
+        }));
+        req.on('error', reject);
+        req.end();
+      });
+
+      await waitFor(() => upstreamClosed && createThrottle.mock.results[0]?.value.destroyed);
+
+      expect(createThrottle.mock.results[0].value.destroyed).toBe(true);
+      expect(upstreamClosed).toBe(true);
+    });
+  });
+
+  describe('upgrade requests', () => {
+    it('should tunnel WebSocket connections once the target switches protocols', async () => {
+      await startProxy({ domain: APP_DOMAIN, target: await startUpstream('app') });
+
+      const socket = await requestUpgrade(APP_DOMAIN, '/socket') as net.Socket;
+      const echoed = new Promise<string>(resolve => socket.once('data', data => resolve(data.toString())));
+      socket.write('ping');
+
+      expect(await echoed).toBe('ping');
+    });
+
+    it('should relay a refused upgrade with the body delimited by the connection closing', async () => {
+      await startProxy({ domain: APP_DOMAIN, target: await startUpstream('app') });
+
+      const response = await requestUpgrade(APP_DOMAIN, '/refuse') as Response;
+
+      expect(response.status).toBe(403);
+      expect(response.body).toBe('refused');
+      expect(response.headers['transfer-encoding']).toBeUndefined();
+      expect(response.headers.connection).toBe('close');
+    });
+  });
+
+  describe('HTTP redirect listener', () => {
+    it('should redirect managed domains to HTTPS while proxies run', async () => {
+      const redirectPort = await getFreePort();
+      (service as any).redirectServerPort = redirectPort;
+      await service.setHttpRedirect(true);
+      await startProxy({ domain: APP_DOMAIN, target: await startUpstream('app') });
+      await waitFor(() => service.getHttpRedirectStatus().listening);
+
+      const get = (host: string, method: string = 'GET') => new Promise<Response>((resolve, reject) => {
+        http.request({ host: '127.0.0.1', port: redirectPort, path: '/login?next=1', method, headers: { host }, agent: false }, async res => {
+          resolve({ status: res.statusCode!, headers: res.headers, body: await readBody(res) });
+        }).on('error', reject).end();
+      });
+
+      expect(await get(APP_DOMAIN)).toEqual(expect.objectContaining({
+        status: 301, headers: expect.objectContaining({ location: `https://${APP_DOMAIN}:${proxyPort}/login?next=1` })
+      }));
+      expect((await get(APP_DOMAIN, 'POST')).status).toBe(308);
+      expect(await get('unknown.test')).toEqual(expect.objectContaining({ status: 404, body: expect.stringContaining('unknown.test') }));
+
+      service.stopProxy(APP_DOMAIN);
+      expect(service.getHttpRedirectStatus().listening).toBe(false);
+    });
+
+    it('should report a busy redirect port when enabling the redirect', async () => {
+      const blocker = net.createServer();
+      upstreams.push(blocker);
+      (service as any).redirectServerPort = await listen(blocker);
+      await startProxy({ domain: APP_DOMAIN, target: await startUpstream('app') });
+
+      const result = await service.setHttpRedirect(true);
+
+      expect(result).toEqual(expect.objectContaining({ success: false, code: 'EADDRINUSE' }));
+      expect(service.getHttpRedirectStatus()).toEqual(expect.objectContaining({ enabled: false, listening: false }));
+    });
+
+    it('should start proxies without the redirect when its port is busy', async () => {
+      const blocker = net.createServer();
+      upstreams.push(blocker);
+      const redirectPort = await listen(blocker);
+      (service as any).redirectServerPort = redirectPort;
+      await service.setHttpRedirect(true);
+
+      const result = await startProxy({ domain: APP_DOMAIN, target: await startUpstream('app') });
+
+      expect(result.success).toBe(true);
+      expect(result.message).toContain(`HTTP redirect unavailable: Port ${redirectPort} is already in use`);
+      expect(service.getHttpRedirectStatus()).toEqual(expect.objectContaining({
+        enabled: true, listening: false, error: expect.stringContaining(`Port ${redirectPort}`)
+      }));
+    });
+  });
+
+  describe('listeners', () => {
+    it('should share one listener between proxies on the same port until the last one stops', async () => {
+      await startProxy({ domain: APP_DOMAIN, target: await startUpstream('app') });
+      await startProxy({ domain: API_DOMAIN, target: await startUpstream('api') });
+
+      expect(JSON.parse((await request(APP_DOMAIN)).body).upstream).toBe('app');
+      expect(JSON.parse((await request(API_DOMAIN)).body).upstream).toBe('api');
+      expect((service as any).sniServers.size).toBe(1);
+
+      service.stopProxy(APP_DOMAIN);
+      expect(JSON.parse((await request(API_DOMAIN)).body).upstream).toBe('api');
+
+      service.stopProxy(API_DOMAIN);
+      await expect(request(API_DOMAIN)).rejects.toMatchObject({ code: 'ECONNREFUSED' });
+    });
+
+    it('should describe a busy port to every proxy starting on it', async () => {
+      const blocker = net.createServer();
+      upstreams.push(blocker);
+      proxyPort = await listen(blocker);
+      const target = await startUpstream('app');
+
+      const results = await Promise.all([
+        startProxy({ domain: APP_DOMAIN, target }),
+        startProxy({ domain: API_DOMAIN, target })
+      ]);
+
+      for (const result of results) {
+        expect(result).toEqual(expect.objectContaining({
+          success: false, code: 'EADDRINUSE', message: expect.stringContaining(`Port ${proxyPort} is already in use by another process`)
+        }));
+      }
+    });
+
+    it('should keep a proxy on its port when moving it to another one fails', async () => {
+      const target = await startUpstream('app');
+      await startProxy({ domain: APP_DOMAIN, target });
+      const blocker = net.createServer();
+      upstreams.push(blocker);
+      const busyPort = await listen(blocker);
+
+      await expect(service.updateProxy(APP_DOMAIN, { port: busyPort, target: await startUpstream('other') }))
+        .rejects.toThrow(`Port ${busyPort} is already in use`);
+
+      expect(service.getProxies()[0]).toEqual(expect.objectContaining({ port: proxyPort, target, isRunning: true }));
+      expect(JSON.parse((await request(APP_DOMAIN)).body).upstream).toBe('app');
+    });
+  });
+});
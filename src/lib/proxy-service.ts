@@ -1,9 +1,17 @@
 import * as fs from 'fs';
 import * as http from 'http';
+import * as http2 from 'http2';
 import * as https from 'https';
 import * as os from 'os';
 import * as path from 'path';
+import { Duplex, Readable } from 'stream';
 import * as tls from 'tls';
+import { ChaosPlan, ChaosSettings, createThrottle, planChaos } from './chaos';
+import { applyHeaderRules, corsResponseHeaders, HeaderRule, isPreflightRequest, preflightResponseHeaders } from './header-rules';
+import { createMockId, findMatchingMock, loadMockResponse, ProxyMock } from './mocks';
+import { TrafficEntry, TrafficInspector, TrafficRecorder, TrafficSettings } from './traffic-inspector';
+import { HealthCheckSettings, UpstreamHealth, UpstreamHealthChecker } from './upstream-health';
+import { getWildcardDomain, parseDomainPattern, validateProxyTarget, ValidationError } from './validation';
 
 export interface ProxyConfig {
   domain: string;
@@ -12,17 +20,159 @@ export interface ProxyConfig {
   certPath?: string;
   keyPath?: string;
   port?: number;
+  /** Offer HTTP/2 to clients of this domain (HTTP/1.1 is always available as a fallback) */
+  http2?: boolean;
+  /** Protocol spoken by the target: HTTP/1.1 (default), cleartext HTTP/2 or HTTP/2 over TLS (e.g. for gRPC) */
+  upstreamProtocol?: UpstreamProtocol;
+  /** Ordered route rules; the first match wins and unmatched requests go to `target` */
+  routes?: ProxyRoute[];
+  /** Request capture for the traffic inspector */
+  traffic?: TrafficSettings;
+  /** Header changes applied in order to proxied requests and responses */
+  headerRules?: HeaderRule[];
+  /** Permissive CORS: allow any origin (with credentials) and answer preflight requests directly */
+  cors?: boolean;
+  /** Canned responses for matching requests, checked before forwarding */
+  mocks?: ProxyMock[];
+  /** Directory mock body files are read from: the config file's directory for proxies started from one,
+   * ~/.navigrator/mocks otherwise */
+  mocksDir?: string;
+  /** Latency and faults injected into requests, read on every request so changes apply while running */
+  chaos?: ChaosSettings;
+  /** How requests wait for a target that isn't accepting connections yet */
+  healthCheck?: HealthCheckSettings;
+}
+
+export type UpstreamProtocol = 'http1' | 'h2c' | 'h2';
+
+/**
+ * Outcome of starting a proxy; `code` carries the listener error code (e.g. EADDRINUSE) on failure
+ */
+export interface ProxyStartResult {
+  success: boolean;
+  message: string;
+  code?: string;
+}
+
+/**
+ * An HTTPS listener shared by every running proxy configured for its port
+ */
+interface SNIServer {
+  server: http2.Http2SecureServer;
+  /** Running domains using this listener; it is closed when the last one stops */
+  domains: Set<string>;
+  /** Settles once the listener is bound (or failed to bind) */
+  ready: Promise<void>;
+}
+
+/**
+ * A path-based route sending part of a domain's traffic to a different target
+ */
+export interface ProxyRoute {
+  /** Path prefix (e.g. /api) or regular expression source, depending on matchType */
+  path: string;
+  matchType?: 'prefix' | 'regex';
+  /** Remove the matched part of the path before forwarding (e.g. /api/users → /users) */
+  stripPrefix?: boolean;
+  target: string;
+}
+
+/**
+ * Requests and responses handled by the SNI server: HTTP/2 streams, or HTTP/1.1 fallback connections
+ */
+type ProxyRequest = http.IncomingMessage | http2.Http2ServerRequest;
+type ProxyResponse = http.ServerResponse | http2.Http2ServerResponse;
+
+/**
+ * Connection-specific headers that are forbidden in HTTP/2 and must not be relayed to HTTP/2 clients
+ */
+const HTTP2_CONNECTION_HEADERS = ['connection', 'keep-alive', 'proxy-connection', 'transfer-encoding', 'upgrade'];
+
+/**
+ * Escape text for safe inclusion in the HTML pages served by the proxy
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Add the default http:// scheme to targets given as host:port
+ */
+function normalizeTarget(target: string, field: string = 'target'): string {
+  const error = validateProxyTarget(target);
+  if (error) {
+    throw new ValidationError(error, field, 'invalid_target');
+  }
+
+  // The validator accepts the scheme in any case (HTTP://...), so compare and store it in lowercase
+  const scheme = /^[a-z][a-z0-9+.-]*:\/\//i.exec(target);
+  if (!scheme) {
+    return `http://${target}`;
+  }
+  return `${scheme[0].toLowerCase()}${target.slice(scheme[0].length)}`;
+}
+
+/**
+ * Check a list of route rules, returning a description of the first problem found
+ */
+export function validateProxyRoutes(routes: unknown): string | null {
+  if (!Array.isArray(routes)) {
+    return 'Routes must be an array';
+  }
+
+  for (const route of routes) {
+    if (!route || typeof route.path !== 'string' || !route.path || typeof route.target !== 'string' || !route.target) {
+      return 'Each route requires a path and a target';
+    }
+
+    const targetError = validateProxyTarget(route.target);
+    if (targetError) {
+      return `${targetError} (route ${route.path})`;
+    }
+
+    if (route.matchType !== undefined && route.matchType !== 'prefix' && route.matchType !== 'regex') {
+      return `Invalid match type for route ${route.path}: must be "prefix" or "regex"`;
+    }
+
+    if (route.matchType === 'regex') {
+      try {
+        new RegExp(route.path);
+      } catch (error: any) {
+        return `Invalid regular expression for route ${route.path}: ${error?.message}`;
+      }
+    } else if (!route.path.startsWith('/')) {
+      return `Route prefix ${route.path} must start with "/"`;
+    }
+  }
+
+  return null;
 }
 
 export class ProxyService {
   private proxies: Map<string, ProxyConfig> = new Map();
-  private sniServer: https.Server | null = null;
+  private sniServers: Map<number, SNIServer> = new Map();
   private configFilePath: string;
-  private sniServerPort: number = 443;
+  private defaultMocksDir: string;
   private sniCertificates: Map<string, { key: Buffer, cert: Buffer }> = new Map();
+  private upstreamSessions: Map<string, http2.ClientHttp2Session> = new Map();
+  private redirectServer: http.Server | null = null;
+  /** Settles once the redirect listener is bound, rejecting with a described error if it can't be */
+  private redirectReady: Promise<void> | null = null;
+  /** Why the redirect listener last failed to start, shown in its status */
+  private redirectError: string | null = null;
+  private redirectServerPort: number = 80;
+  private httpRedirectEnabled: boolean = false;
+  private trafficInspector: TrafficInspector = new TrafficInspector();
+  private upstreamHealth: UpstreamHealthChecker = new UpstreamHealthChecker();
 
   constructor() {
     this.configFilePath = path.join(os.homedir(), '.navigrator', 'proxies.json');
+    this.defaultMocksDir = path.join(os.homedir(), '.navigrator', 'mocks');
     this.loadProxies();
   }
 
@@ -77,13 +227,104 @@ export class ProxyService {
     return Array.from(this.proxies.values());
   }
 
+  /**
+   * Get the requests recorded by the traffic inspector for a proxy
+   */
+  public getTraffic(domain: string, since?: number): TrafficEntry[] {
+    return this.trafficInspector.getEntries(domain, since);
+  }
+
+  /**
+   * Clear the requests recorded for a proxy
+   */
+  public clearTraffic(domain: string): void {
+    this.trafficInspector.clear(domain);
+  }
+
+  /**
+   * Export the requests recorded for a proxy as a HAR 1.2 log
+   */
+  public exportTrafficHAR(domain: string): object {
+    return this.trafficInspector.toHAR(domain);
+  }
+
+  /**
+   * Check the targets of a proxy (its main target and route targets), or null if the proxy doesn't exist
+   */
+  public async checkUpstreams(domain: string): Promise<UpstreamHealth[] | null> {
+    const config = this.proxies.get(domain);
+    if (!config) return null;
+
+    const targets = Array.from(new Set([config.target, ...(config.routes || []).map(route => route.target)]));
+    return Promise.all(targets.map(target => this.upstreamHealth.check(target, this.getHealthCheckSettings(config))));
+  }
+
+  /**
+   * Get the mocks of a proxy, or null if the proxy doesn't exist
+   */
+  public getMocks(domain: string): ProxyMock[] | null {
+    const config = this.proxies.get(domain);
+    return config ? config.mocks || [] : null;
+  }
+
+  /**
+   * Get the directory the body files of a proxy's mocks must be in
+   */
+  public getMocksDirectory(domain: string): string {
+    return this.proxies.get(domain)?.mocksDir || this.defaultMocksDir;
+  }
+
+  /**
+   * Add a mock to a proxy; it applies to the next request, even if the proxy is running
+   */
+  public addMock(domain: string, mock: Omit<ProxyMock, 'id'>): ProxyMock | null {
+    const config = this.proxies.get(domain);
+    if (!config) return null;
+
+    const created: ProxyMock = { ...mock, id: createMockId() };
+    config.mocks = [...(config.mocks || []), created];
+
+    this.saveProxies();
+    return created;
+  }
+
+  /**
+   * Replace a mock of a proxy, keeping its id and position
+   */
+  public updateMock(domain: string, id: string, mock: Omit<ProxyMock, 'id'>): ProxyMock | null {
+    const config = this.proxies.get(domain);
+    const index = config?.mocks?.findIndex(existing => existing.id === id) ?? -1;
+    if (!config?.mocks || index === -1) return null;
+
+    const updated: ProxyMock = { ...mock, id };
+    config.mocks = config.mocks.map((existing, i) => i === index ? updated : existing);
+
+    this.saveProxies();
+    return updated;
+  }
+
+  /**
+   * Remove a mock from a proxy
+   */
+  public removeMock(domain: string, id: string): boolean {
+    const config = this.proxies.get(domain);
+    if (!config?.mocks?.some(mock => mock.id === id)) return false;
+
+    config.mocks = config.mocks.filter(mock => mock.id !== id);
+
+    this.saveProxies();
+    return true;
+  }
+
   /**
    * Add a new proxy configuration
    */
   public addProxy(config: ProxyConfig): ProxyConfig {
-    // Normalize the target URL
-    if (!config.target.startsWith('http://') && !config.target.startsWith('https://')) {
-      config.target = `http://${config.target}`;
+    // Validate the domain (a hostname, or a wildcard pattern serving all its subdomains) and normalize the target URLs
+    config.domain = parseDomainPattern(config.domain);
+    config.target = normalizeTarget(config.target);
+    if (config.routes) {
+      config.routes = config.routes.map(route => ({ ...route, target: normalizeTarget(route.target, 'routes') }));
     }
 
     // Set default port if not provided
@@ -101,232 +342,1086 @@ export class ProxyService {
    * Remove a proxy configuration
    */
   public removeProxy(domain: string): boolean {
-    // Stop the proxy if it's running
+    // Stop the proxy if it's running (this also releases its listener)
     this.stopProxy(domain);
 
     const result = this.proxies.delete(domain);
 
-    // Remove from SNI certificates if it exists
-    this.sniCertificates.delete(domain);
+    this.saveProxies();
+    return result;
+  }
 
-    // If no more active certificates and SNI server is running, stop it
-    if (this.sniCertificates.size === 0 && this.sniServer) {
-      this.stopSNIServer();
+  /**
+   * Register a running domain on the SNI listener for a port, starting the listener if needed
+   */
+  private async acquireSNIServer(port: number, domain: string): Promise<void> {
+    const existing = this.sniServers.get(port);
+    if (existing) {
+      // The listener may still be binding for another proxy started at the same time
+      try {
+        await existing.ready;
+      } catch (error: any) {
+        throw this.describeListenError(error, port);
+      }
+      existing.domains.add(domain);
+      return;
     }
 
-    this.saveProxies();
-    return result;
+    const server = this.createSNIServer(port);
+    const ready = new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+
+    this.sniServers.set(port, { server, domains: new Set([domain]), ready });
+
+    try {
+      await ready;
+    } catch (error: any) {
+      this.sniServers.delete(port);
+      throw this.describeListenError(error, port);
+    }
+
+    // Binding errors are reported to the caller, later ones can only be logged
+    server.on('error', (err) => {
+      console.error(`SNI server error on port ${port}:`, err);
+    });
+
+    console.log(`SNI proxy server started on port ${port}`);
+
+    // The HTTP redirect listener lives and dies with the SNI servers. Proxies run without it if port 80 is
+    // unavailable; the reason shows in the redirect status
+    if (this.httpRedirectEnabled) {
+      await this.startRedirectServer().catch(error => console.error(`Could not start the HTTP redirect server: ${error.message}`));
+    }
   }
 
   /**
-   * Initialize or update the SNI server
+   * Unregister a domain from its SNI listener, closing the listener when no running proxy uses it
    */
-  private async initOrUpdateSNIServer(): Promise<boolean> {
+  private releaseSNIServer(domain: string): void {
+    const port = this.getListenerPort(domain);
+    if (port === undefined) return;
+
+    const entry = this.sniServers.get(port)!;
+    entry.domains.delete(domain);
+    if (entry.domains.size > 0) return;
+
     try {
-      // If we already have an SNI server running, we can just update it
-      if (this.sniServer) {
-        // Update the context for the existing server
-        const secureContext = this.createSecureContext();
-        if (this.sniServer instanceof https.Server) {
-          // Access the internal TLS server 
-          // Note: This is accessing a non-public property, might break in future Node versions
-          const tlsServer = this.sniServer.listeners('request')[0] as any;
-          if (tlsServer && tlsServer._sharedCrypto) {
-            tlsServer._sharedCrypto.context = secureContext;
-          }
+      entry.server.close();
+      console.log(`SNI server on port ${port} stopped`);
+    } catch (error) {
+      console.error(`Error stopping SNI server on port ${port}:`, error);
+    }
+    this.sniServers.delete(port);
+
+    if (this.sniServers.size === 0) {
+      this.closeUpstreamSessions();
+      this.stopRedirectServer();
+    }
+  }
+
+  /**
+   * Get the port of the SNI listener a running domain is registered on
+   */
+  private getListenerPort(domain: string): number | undefined {
+    for (const [port, entry] of this.sniServers.entries()) {
+      if (entry.domains.has(domain)) return port;
+    }
+    return undefined;
+  }
+
+  /**
+   * Turn a listen() failure into an error message that can be shown to the user
+   */
+  private describeListenError(error: NodeJS.ErrnoException, port: number): Error & { code?: string } {
+    let message: string;
+    if (error.code === 'EADDRINUSE') {
+      message = `Port ${port} is already in use by another process. Stop it or choose a different port for this proxy.`;
+    } else if (error.code === 'EACCES') {
+      message = `Permission denied to listen on port ${port}. Ports below 1024 require administrator/sudo privileges.`;
+    } else {
+      message = `Cannot listen on port ${port}: ${error.message}`;
+    }
+
+    return Object.assign(new Error(message), { code: error.code });
+  }
+
+  /**
+   * Create the HTTPS server for a port, dispatching requests to the proxies configured for it
+   */
+  private createSNIServer(port: number): http2.Http2SecureServer {
+    const serverOptions: http2.SecureServerOptions = {
+      // Clients that don't negotiate HTTP/2 are served over HTTP/1.1
+      allowHTTP1: true,
+      // This SNICallback will be called during the TLS handshake
+      SNICallback: (servername, cb) => {
+        // An exact certificate wins over a wildcard one covering the same name
+        const ctx = this.sniCertificates.get(servername.toLowerCase()) ?? this.sniCertificates.get(getWildcardDomain(servername));
+        if (ctx) {
+          const secureContext = tls.createSecureContext({
+            key: ctx.key,
+            cert: ctx.cert
+          });
+          cb(null, secureContext);
+        } else {
+          console.warn(`No certificate found for ${servername}`);
+          cb(new Error(`No certificate found for ${servername}`));
         }
-        return true;
-      }
-
-      // Create new SNI server
-      const httpsOptions: https.ServerOptions = {
-        // This SNICallback will be called during the TLS handshake
-        SNICallback: (servername, cb) => {
-          const ctx = this.sniCertificates.get(servername);
-          if (ctx) {
-            const secureContext = tls.createSecureContext({
-              key: ctx.key,
-              cert: ctx.cert
-            });
-            cb(null, secureContext);
-          } else {
-            console.warn(`No certificate found for ${servername}`);
-            cb(new Error(`No certificate found for ${servername}`));
-          }
+      },
+      // Negotiate the protocol per domain, so HTTP/2 can be enabled proxy by proxy
+      ALPNCallback: ({ servername, protocols }) => {
+        const config = servername ? this.proxies.get(servername.toLowerCase()) ?? this.proxies.get(getWildcardDomain(servername)) : undefined;
+        if (config && this.isHttp2Enabled(config) && protocols.includes('h2')) {
+          return 'h2';
         }
-      };
+        return protocols.includes('http/1.1') ? 'http/1.1' : undefined;
+      }
+    };
+
+    const server = http2.createSecureServer(serverOptions, (req, res) => {
+      // Get the hostname from the request
+      const hostname = this.getRequestHost(req)?.split(':')[0];
+
+      if (!hostname) {
+        res.writeHead(400, { 'Content-Type': 'text/plain' });
+        res.end('Invalid host header');
+        return;
+      }
+
+      // Find the corresponding proxy configuration
+      const config = this.findRunningProxy(req, port);
+      if (!config) {
+        res.writeHead(404, { 'Content-Type': 'text/plain' });
+        res.end(`No running proxy found for ${hostname} on port ${port}`);
+        return;
+      }
+
+      // Handle the proxy request
+      this.handleProxyRequest(req, res, config);
+    });
+
+    // Forward WebSocket (and any other HTTP/1.1 upgrade) requests, needed for HMR
+    server.on('upgrade', (req: http.IncomingMessage, socket: Duplex, head: Buffer) => {
+      const config = this.findRunningProxy(req, port);
+
+      if (!config) {
+        socket.end('HTTP/1.1 404 Not Found\r\nConnection: close\r\n\r\n');
+        return;
+      }
+
+      this.handleUpgradeRequest(req, socket, head, config);
+    });
+
+    return server;
+  }
+
+  /**
+   * Enable or disable the plain HTTP listener that redirects managed domains to HTTPS. When proxies are already being
+   * served, the listener starts right away and a failure to bind leaves the redirect disabled
+   */
+  public async setHttpRedirect(enabled: boolean): Promise<{ success: boolean; message: string; code?: string }> {
+    this.httpRedirectEnabled = enabled;
+
+    if (!enabled) {
+      this.stopRedirectServer();
+      this.redirectError = null;
+      return { success: true, message: 'HTTP redirect disabled' };
+    }
+
+    // Apply immediately if proxies are already being served
+    if (this.sniServers.size > 0) {
+      try {
+        await this.startRedirectServer();
+      } catch (error: any) {
+        this.httpRedirectEnabled = false;
+        return { success: false, message: error.message, code: error.code };
+      }
+    }
+
+    return { success: true, message: 'HTTP redirect enabled' };
+  }
+
+  /**
+   * Get the state of the HTTP redirect listener
+   */
+  public getHttpRedirectStatus(): { enabled: boolean; port: number; listening: boolean; error?: string } {
+    return {
+      enabled: this.httpRedirectEnabled,
+      port: this.redirectServerPort,
+      listening: !!this.redirectServer?.listening,
+      ...(this.redirectError ? { error: this.redirectError } : {})
+    };
+  }
+
+  /**
+   * Start the plain HTTP listener that redirects requests to the HTTPS proxies
+   */
+  private startRedirectServer(): Promise<void> {
+    if (this.redirectServer && this.redirectReady) {
+      return this.redirectReady;
+    }
+
+    const listenPort = this.redirectServerPort;
+    const server = http.createServer((req, res) => {
+      const hostname = req.headers.host?.split(':')[0];
+      const config = this.findRunningProxy(req);
+
+      if (!hostname || !config) {
+        res.writeHead(404, { 'Content-Type': 'text/html; charset=utf-8' });
+        res.end(this.renderUnknownHostPage(hostname));
+        return;
+      }
+
+      const port = !config.port || config.port === 443 ? '' : `:${config.port}`;
+      const location = `https://${hostname}${port}${req.url || '/'}`;
+
+      // 308 keeps the method and body of non-GET requests (e.g. form posts)
+      const status = req.method === 'GET' || req.method === 'HEAD' ? 301 : 308;
+      res.writeHead(status, { Location: location, 'X-Proxied-By': '@axlotl-lab/navigrator' });
+      res.end();
+    });
+
+    const ready = new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(listenPort, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    }).then(() => {
+      // Binding errors are reported to the caller, later ones can only be logged
+      server.on('error', (err) => {
+        console.error(`HTTP redirect server error:`, err);
+      });
+      this.redirectError = null;
+      console.log(`HTTP redirect server started on port ${listenPort}`);
+    }, (error: NodeJS.ErrnoException) => {
+      if (this.redirectServer === server) {
+        this.redirectServer = null;
+        this.redirectReady = null;
+      }
+      const described = this.describeListenError(error, listenPort);
+      this.redirectError = described.message;
+      throw described;
+    });
+
+    this.redirectServer = server;
+    this.redirectReady = ready;
+    return ready;
+  }
+
+  /**
+   * Stop the HTTP redirect listener
+   */
+  private stopRedirectServer(): void {
+    if (this.redirectServer) {
+      // A listener that is still binding is closed once it is bound
+      const server = this.redirectServer;
+      this.redirectReady?.then(() => server.close(), () => undefined);
+      this.redirectServer = null;
+      this.redirectReady = null;
+      console.log(`HTTP redirect server stopped`);
+    }
+  }
+
+  /**
+   * Render the page shown by the HTTP redirect listener for hosts without a running proxy
+   */
+  private renderUnknownHostPage(hostname: string | undefined): string {
+    const running = Array.from(this.proxies.values()).filter(p => p.isRunning);
+    const links = running
+      .map(p => `<li><a href="https://${escapeHtml(p.domain)}">https://${escapeHtml(p.domain)}</a></li>`)
+      .join('');
+
+    return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>No proxy for ${escapeHtml(hostname || 'this host')}</title>
+  <style>
+    body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 640px; margin: 60px auto; color: #343a40; }
+    h1 { font-size: 1.4rem; }
+    code { background: #f1f3f5; padding: 2px 6px; border-radius: 3px; }
+  </style>
+</head>
+<body>
+  <h1>Navigrator has no running proxy for <code>${escapeHtml(hostname || '(no host header)')}</code></h1>
+  <p>Start a proxy for this domain from the Navigrator web interface, or with <code>navigrator dev</code> in a configured project.</p>
+  ${running.length > 0 ? `<p>Domains currently proxied:</p><ul>${links}</ul>` : '<p>No proxies are running right now.</p>'}
+</body>
+</html>`;
+  }
+
+  /**
+   * Find the running proxy configuration matching the request's host header
+   */
+  private findRunningProxy(req: ProxyRequest, port?: number): ProxyConfig | null {
+    const hostname = this.getRequestHost(req)?.split(':')[0];
+    if (!hostname) return null;
+
+    // A proxy for the exact hostname wins over a wildcard proxy covering it.
+    // Each proxy is only served on the listener of its configured port
+    const candidates = [this.proxies.get(hostname.toLowerCase()), this.proxies.get(getWildcardDomain(hostname))];
+    return candidates.find(config => config?.isRunning && (port === undefined || (config.port || 443) === port)) || null;
+  }
+
+  /**
+   * Get the host the client asked for, from the HTTP/2 :authority pseudo-header or the Host header
+   */
+  private getRequestHost(req: ProxyRequest): string | undefined {
+    const authority = req.headers[':authority'];
+    return (typeof authority === 'string' && authority) || req.headers.host;
+  }
+
+  /**
+   * Parse a proxy target URL into the connection details needed to reach it
+   */
+  private parseTarget(target: string): { hostname: string; port: number; protocol: string } {
+    const targetUrl = new URL(target);
+    const port = targetUrl.port ?
+      parseInt(targetUrl.port) :
+      (targetUrl.protocol === 'https:' ? 443 : 80);
+
+    return { hostname: targetUrl.hostname, port, protocol: targetUrl.protocol };
+  }
+
+  /**
+   * Pick the target for a request from the proxy's route rules, rewriting the path if requested
+   */
+  private resolveRoute(config: ProxyConfig, url: string = '/'): { target: string; path: string } {
+    const queryIndex = url.indexOf('?');
+    const pathname = queryIndex === -1 ? url : url.slice(0, queryIndex);
+    const query = queryIndex === -1 ? '' : url.slice(queryIndex);
+
+    for (const route of config.routes || []) {
+      let matched: string | null = null;
+
+      if (route.matchType === 'regex') {
+        const match = new RegExp(route.path).exec(pathname);
+        // Only a match anchored at the start of the path can be stripped
+        if (match) matched = match.index === 0 ? match[0] : '';
+      } else {
+        const prefix = route.path.endsWith('/') ? route.path.slice(0, -1) : route.path;
+        // Match whole path segments only: /api matches /api and /api/users, not /apiary
+        if (pathname === prefix || pathname.startsWith(`${prefix}/`) || prefix === '') matched = prefix;
+      }
+
+      if (matched === null) continue;
+
+      if (!route.stripPrefix || !matched) {
+        return { target: route.target, path: url };
+      }
+
+      const rest = pathname.slice(matched.length);
+      return { target: route.target, path: `${rest.startsWith('/') ? '' : '/'}${rest}${query}` };
+    }
+
+    return { target: config.target, path: url };
+  }
+
+  /**
+   * Handle a proxy request, first waiting out any latency added by the chaos settings
+   */
+  private handleProxyRequest(req: ProxyRequest, res: ProxyResponse, config: ProxyConfig): void {
+    const chaos = config.chaos?.enabled ? planChaos(config.chaos, req.url) : null;
+
+    if (!chaos?.delay) {
+      this.processProxyRequest(req, res, config, chaos);
+      return;
+    }
+
+    const timer = setTimeout(() => this.processProxyRequest(req, res, config, chaos), chaos.delay);
+    res.on('close', () => clearTimeout(timer));
+  }
+
+  /**
+   * Answer a proxy request from a mock or an injected fault, or forward it to its target
+   */
+  private processProxyRequest(req: ProxyRequest, res: ProxyResponse, config: ProxyConfig, chaos: ChaosPlan | null): void {
+    try {
+      // Pick the target from the route rules and parse it
+      const { target, path: upstreamPath } = this.resolveRoute(config, req.url);
+      const {
+        hostname: targetHostname,
+        port: targetPort,
+        protocol: targetProtocol
+      } = this.parseTarget(target);
+
+      // Mocked requests are answered by the proxy instead of the target
+      const mock = findMatchingMock(config.mocks, req.method, req.url);
+      const destination = mock ? `mock ${mock.id}` : `${target}${upstreamPath}`;
+
+      // Log request
+      const date = new Date().toISOString();
+      const clientIP = req.socket.remoteAddress || '-';
+      console.log(`[${date}] ${clientIP} ${req.method} ${req.url} → ${destination} [Protocol: ${targetProtocol}, HTTP/${req.httpVersion}]`);
+
+      // With the CORS preset, preflight requests are answered here instead of by the target
+      if (config.cors && isPreflightRequest(req.method, req.headers)) {
+        res.writeHead(204, this.prepareResponseHeaders(preflightResponseHeaders(req.headers), req, res, config));
+        res.end();
+        return;
+      }
+
+      // Get the original host from the request
+      const originalHost = this.getRequestHost(req) || config.domain;
+
+      // Clone and modify the headers for the proxied request, then apply the user's rules
+      const proxyHeaders = applyHeaderRules(
+        this.prepareProxyHeaders(req.headers, targetHostname, targetPort, originalHost, config.domain),
+        config.headerRules,
+        'request'
+      );
+
+      // Record the exchange if the traffic inspector is enabled for this proxy
+      const recorder = config.traffic?.enabled
+        ? this.trafficInspector.record(config.domain, config.traffic, {
+          method: req.method || 'GET',
+          url: req.url || '/',
+          httpVersion: req.httpVersion,
+          headers: req.headers,
+          target: destination
+        })
+        : null;
+
+      if (recorder) {
+        res.on('close', () => recorder.fail('Connection closed before the response completed'));
+      }
+
+      // Injected faults take the place of the real response
+      if (chaos?.reset) {
+        console.log(`[${date}] Chaos: resetting connection for ${req.method} ${req.url}`);
+        recorder?.fail('Connection reset by chaos settings');
+        this.resetConnection(req);
+        return;
+      }
+
+      if (chaos?.errorStatus) {
+        console.log(`[${date}] Chaos: answering ${req.method} ${req.url} with ${chaos.errorStatus}`);
+        const body = `Error injected by Navigrator chaos settings for ${config.domain}`;
+        const headers = { 'content-type': 'text/plain; charset=utf-8', 'x-navigrator-chaos': 'error' };
 
-      this.sniServer = https.createServer(httpsOptions, (req, res) => {
-        // Get the hostname from the request
-        const hostname = req.headers.host?.split(':')[0];
+        res.writeHead(chaos.errorStatus, this.prepareResponseHeaders(headers, req, res, config));
+        res.end(body);
 
-        if (!hostname) {
-          res.writeHead(400, { 'Content-Type': 'text/plain' });
-          res.end('Invalid host header');
-          return;
+        recorder?.response(chaos.errorStatus, '', headers);
+        recorder?.responseChunk(body);
+        recorder?.finish();
+        return;
+      }
+
+      if (mock) {
+        this.serveMock(req, res, config, mock, recorder, chaos);
+        return;
+      }
+
+      const forward = () => {
+        // HTTP/2 upstreams (e.g. gRPC services) get the request streamed over an HTTP/2 session
+        if (config.upstreamProtocol === 'h2c' || config.upstreamProtocol === 'h2') {
+          this.forwardHttp2Request(req, res, config, target, upstreamPath, proxyHeaders, recorder, chaos);
+        } else {
+          this.forwardHttp1Request(req, res, config, target, upstreamPath, proxyHeaders, recorder, chaos);
         }
+      };
+
+      if (config.healthCheck?.enabled === false) {
+        forward();
+        return;
+      }
+
+      // Hold the request until the target accepts connections (e.g. a dev server still starting)
+      this.waitForUpstream(req, res, config, target, recorder)
+        .then((ready) => {
+          if (ready) forward();
+        })
+        .catch((error) => this.sendInternalError(res, config, error));
+    } catch (error) {
+      this.sendInternalError(res, config, error);
+    }
+  }
+
+  /**
+   * Answer with a 500 after an unexpected error while handling a request
+   */
+  private sendInternalError(res: ProxyResponse, config: ProxyConfig, error: unknown): void {
+    console.error(`Error handling proxy request for ${config.domain}:`, error);
+    if (!res.headersSent) {
+      res.writeHead(500, { 'Content-Type': 'text/plain' });
+      res.end(`Internal Server Error: ${error}`);
+    } else {
+      try {
+        res.end();
+      } catch (e) {
+        console.error('Error ending response:', e);
+      }
+    }
+  }
+
+  /**
+   * Forward a request to an HTTP/1.1 upstream
+   */
+  private forwardHttp1Request(
+    req: ProxyRequest,
+    res: ProxyResponse,
+    config: ProxyConfig,
+    target: string,
+    upstreamPath: string,
+    proxyHeaders: http.OutgoingHttpHeaders,
+    recorder: TrafficRecorder | null,
+    chaos: ChaosPlan | null
+  ): void {
+    const { hostname: targetHostname, port: targetPort, protocol: targetProtocol } = this.parseTarget(target);
+
+    // Configure proxy request options
+    const proxyOptions = {
+      hostname: targetHostname,
+      port: targetPort,
+      path: upstreamPath,
+      method: req.method,
+      headers: proxyHeaders,
+      // For HTTPS targets, don't verify certificates (useful for local dev)
+      rejectUnauthorized: false
+    };
+
+    // Choose http or https module based on the target protocol
+    const requestModule = targetProtocol === 'https:' ? https : http;
+
+    // Create the proxy request using the appropriate module
+    const proxyReq = requestModule.request(proxyOptions, (proxyRes) => {
+      // Copy the response status and headers
+      res.writeHead(proxyRes.statusCode || 200, this.prepareResponseHeaders(proxyRes.headers, req, res, config));
+
+      if (recorder) {
+        recorder.response(proxyRes.statusCode || 200, proxyRes.statusMessage || '', proxyRes.headers);
+        proxyRes.on('data', (chunk) => recorder.responseChunk(chunk));
+        proxyRes.on('end', () => recorder.finish());
+      }
+
+      // Pipe the response data directly
+      this.pipeResponse(proxyRes, res, chaos);
+    });
+
+    // Handle proxy request errors
+    proxyReq.on('error', (error) => {
+      console.error(`Proxy error: ${error.message} for ${config.domain} (target: ${target})`);
+      this.upstreamHealth.markUnhealthy(target);
+
+      // The target went away between the health check and this request
+      if (!res.headersSent && this.acceptsHtml(req) && config.healthCheck?.enabled !== false) {
+        this.sendWaitingPage(req, res, config, target, error.message, recorder);
+        return;
+      }
 
-        // Find the corresponding proxy configuration
-        const config = this.proxies.get(hostname);
-        if (!config || !config.isRunning) {
-          res.writeHead(404, { 'Content-Type': 'text/plain' });
-          res.end(`No running proxy found for ${hostname}`);
-          return;
+      recorder?.fail(error.message);
+      if (!res.headersSent) {
+        res.writeHead(502, { 'Content-Type': 'text/plain' });
+        res.end(`Proxy error: ${error.message}. Target: ${target}`);
+      } else {
+        try {
+          res.end();
+        } catch (e) {
+          console.error('Error ending response:', e);
         }
+      }
+    });
+
+    // Handle client request errors
+    req.on('error', (error) => {
+      console.error(`Client request error: ${error.message} for ${config.domain}`);
+      proxyReq.destroy();
+    });
+
+    // If there's data in the request, pipe it to the proxy request
+    if (req.method !== 'GET' && req.method !== 'HEAD') {
+      if (recorder) {
+        req.on('data', (chunk) => recorder.requestChunk(chunk));
+      }
+      req.pipe(proxyReq);
+    } else {
+      proxyReq.end();
+    }
+  }
+
+  /**
+   * Make sure a request's target is up before forwarding it. Page loads get a waiting page that refreshes itself;
+   * other requests are held and retried with backoff until the health check timeout
+   */
+  private async waitForUpstream(
+    req: ProxyRequest,
+    res: ProxyResponse,
+    config: ProxyConfig,
+    target: string,
+    recorder: TrafficRecorder | null
+  ): Promise<boolean> {
+    const settings = this.getHealthCheckSettings(config);
+
+    const health = await this.upstreamHealth.check(target, settings);
+    if (health.healthy) return true;
+
+    if (this.acceptsHtml(req)) {
+      this.sendWaitingPage(req, res, config, target, health.error, recorder);
+      return false;
+    }
+
+    let closed = false;
+    res.on('close', () => {
+      closed = true;
+    });
+
+    const retried = await this.upstreamHealth.waitUntilHealthy(target, settings, () => closed);
+    if (retried.healthy) return true;
+    if (closed) return false;
+
+    const message = `Upstream ${target} is not available${retried.error ? ` (${retried.error})` : ''}`;
+    console.error(`${message} for ${config.domain}`);
+    recorder?.fail(message);
+
+    res.writeHead(503, this.prepareResponseHeaders({ 'content-type': 'text/plain; charset=utf-8', 'retry-after': '2' }, req, res, config));
+    res.end(message);
+    return false;
+  }
+
+  /**
+   * Health check settings for a proxy. The HTTP path probe speaks HTTP/1.1, so HTTP/2 upstreams only get the TCP check
+   */
+  private getHealthCheckSettings(config: ProxyConfig): HealthCheckSettings {
+    const settings = config.healthCheck || {};
+    return config.upstreamProtocol === 'h2c' || config.upstreamProtocol === 'h2' ? { ...settings, path: undefined } : settings;
+  }
+
+  /**
+   * Whether a request is a browser page load, which should get a page rather than wait
+   */
+  private acceptsHtml(req: ProxyRequest): boolean {
+    return req.method === 'GET' && String(req.headers.accept || '').includes('text/html');
+  }
+
+  /**
+   * Answer a page load with the "waiting for upstream" page
+   */
+  private sendWaitingPage(
+    req: ProxyRequest,
+    res: ProxyResponse,
+    config: ProxyConfig,
+    target: string,
+    error: string | undefined,
+    recorder: TrafficRecorder | null
+  ): void {
+    const body = this.renderWaitingPage(config, target, error);
+    const headers = {
+      'content-type': 'text/html; charset=utf-8',
+      'cache-control': 'no-store',
+      'retry-after': '2'
+    };
+
+    res.writeHead(503, this.prepareResponseHeaders(headers, req, res, config));
+    res.end(body);
+
+    recorder?.response(503, 'Service Unavailable', headers);
+    recorder?.responseChunk(body);
+    recorder?.finish();
+  }
+
+  /**
+   * Page shown while a proxy's target is not accepting connections; it reloads itself until the target is up
+   */
+  private renderWaitingPage(config: ProxyConfig, target: string, error?: string): string {
+    const upstream = new URL(target).host;
+
+    return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta http-equiv="refresh" content="2">
+  <title>Waiting for ${escapeHtml(upstream)}</title>
+  <style>
+    body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 640px; margin: 60px auto; color: #343a40; }
+    h1 { font-size: 1.4rem; display: flex; align-items: center; gap: 12px; }
+    code { background: #f1f3f5; padding: 2px 6px; border-radius: 3px; }
+    .spinner { width: 18px; height: 18px; border: 3px solid #dee2e6; border-top-color: #4a6cf7; border-radius: 50%; animation: spin 0.8s linear infinite; }
+    .error { color: #6c757d; font-size: 0.9rem; }
+    @keyframes spin { to { transform: rotate(360deg); } }
+  </style>
+</head>
+<body>
+  <h1><span class="spinner"></span> Waiting for <code>${escapeHtml(upstream)}</code></h1>
+  <p><code>${escapeHtml(config.domain)}</code> will load as soon as your development server accepts connections.</p>
+  ${error ? `<p class="error">Last check: ${escapeHtml(error)}</p>` : ''}
+</body>
+</html>`;
+  }
+
+  /**
+   * Answer a request with a mock response; the request body is read (and recorded) but not forwarded
+   */
+  private async serveMock(
+    req: ProxyRequest,
+    res: ProxyResponse,
+    config: ProxyConfig,
+    mock: ProxyMock,
+    recorder: TrafficRecorder | null,
+    chaos: ChaosPlan | null
+  ): Promise<void> {
+    if (recorder) {
+      req.on('data', (chunk) => recorder.requestChunk(chunk));
+    }
 
-        // Handle the proxy request
-        this.handleProxyRequest(req, res, config);
+    // Read the whole request first, like a real endpoint would
+    if (!req.readableEnded) {
+      await new Promise<void>((resolve) => {
+        req.on('end', resolve);
+        req.on('error', () => resolve());
+        req.resume();
       });
+    }
+
+    try {
+      const { headers, body } = await loadMockResponse(mock, config.mocksDir || this.defaultMocksDir);
+      headers['content-length'] = String(body.length);
+      headers['x-navigrator-mock'] = mock.id;
+
+      res.writeHead(mock.status, this.prepareResponseHeaders(headers, req, res, config));
+      if (req.method === 'HEAD') {
+        res.end();
+      } else {
+        this.pipeResponse(Readable.from([body]), res, chaos);
+      }
+
+      if (recorder) {
+        recorder.response(mock.status, '', headers);
+        recorder.responseChunk(body);
+        recorder.finish();
+      }
+    } catch (error: any) {
+      console.error(`Mock error: ${error?.message} for ${config.domain}`);
+      recorder?.fail(error?.message);
+      if (!res.headersSent) {
+        res.writeHead(500, { 'Content-Type': 'text/plain' });
+        res.end(`Mock error: ${error?.message}`);
+      }
+    }
+  }
 
-      // Handle SNI server errors
-      this.sniServer.on('error', (err) => {
-        console.error(`SNI server error:`, err);
-        if ((err as NodeJS.ErrnoException).code === 'EADDRINUSE') {
-          console.error(`Port ${this.sniServerPort} is already in use. Cannot start SNI server.`);
+  /**
+   * Send a response body to the client, throttled when the chaos settings limit bandwidth
+   */
+  private pipeResponse(body: Readable, res: ProxyResponse, chaos: ChaosPlan | null): void {
+    if (chaos?.bytesPerSecond) {
+      const throttle = createThrottle(chaos.bytesPerSecond);
+
+      // pipe() only unpipes when the client goes away, which would leave the throttle reading the upstream body
+      res.on('close', () => {
+        if (!res.writableEnded) {
+          throttle.destroy();
+          body.destroy();
         }
       });
 
-      // Start listening
-      this.sniServer.listen(this.sniServerPort, () => {
-        console.log(`SNI proxy server started on port ${this.sniServerPort}`);
-      });
+      body.pipe(throttle).pipe(res);
+    } else {
+      body.pipe(res);
+    }
+  }
 
-      return true;
-    } catch (error) {
-      console.error('Error initializing SNI server:', error);
-      return false;
+  /**
+   * Drop a client's connection without answering: the stream is reset for HTTP/2, the socket closed for HTTP/1.1
+   */
+  private resetConnection(req: ProxyRequest): void {
+    if (req instanceof http2.Http2ServerRequest) {
+      req.stream.close(http2.constants.NGHTTP2_INTERNAL_ERROR);
+    } else {
+      req.socket.destroy();
     }
   }
 
   /**
-   * Create a secure context for SNI server
+   * Whether clients of this proxy may negotiate HTTP/2. Always the case for HTTP/2 upstreams,
+   * since gRPC clients can't fall back to HTTP/1.1
+   */
+  private isHttp2Enabled(config: ProxyConfig): boolean {
+    return !!config.http2 || config.upstreamProtocol === 'h2c' || config.upstreamProtocol === 'h2';
+  }
+
+  /**
+   * Get (or open) the HTTP/2 session to an upstream, shared by all requests to that target
    */
-  private createSecureContext(): tls.SecureContext {
-    // Create a default context
-    const ctx = tls.createSecureContext({
-      // We'll use the first certificate as default if available
-      key: this.sniCertificates.size > 0 ? this.sniCertificates.values().next().value!.key : undefined,
-      cert: this.sniCertificates.size > 0 ? this.sniCertificates.values().next().value!.cert : undefined
+  private getUpstreamSession(target: string, protocol: UpstreamProtocol): http2.ClientHttp2Session {
+    const { hostname, port } = this.parseTarget(target);
+    const scheme = protocol === 'h2' ? 'https' : 'http';
+    const authority = `${scheme}://${hostname}:${port}`;
+
+    const existing = this.upstreamSessions.get(authority);
+    if (existing && !existing.closed && !existing.destroyed) {
+      return existing;
+    }
+
+    const session = http2.connect(authority, {
+      // For HTTPS targets, don't verify certificates (useful for local dev)
+      rejectUnauthorized: false
+    });
+
+    const forget = () => {
+      if (this.upstreamSessions.get(authority) === session) {
+        this.upstreamSessions.delete(authority);
+      }
+    };
+
+    session.on('error', (error) => {
+      console.error(`Upstream HTTP/2 session error: ${error.message} (target: ${authority})`);
+      forget();
     });
-    return ctx;
+    session.on('close', forget);
+    session.on('goaway', forget);
+
+    this.upstreamSessions.set(authority, session);
+    return session;
   }
 
   /**
-   * Stop the SNI server
+   * Close every open upstream HTTP/2 session
    */
-  private stopSNIServer(): boolean {
-    if (this.sniServer) {
-      try {
-        this.sniServer.close();
-        this.sniServer = null;
-        console.log(`SNI server stopped`);
-        return true;
-      } catch (error) {
-        console.error('Error stopping SNI server:', error);
-        return false;
+  private closeUpstreamSessions(): void {
+    for (const session of this.upstreamSessions.values()) {
+      session.close();
+    }
+    this.upstreamSessions.clear();
+  }
+
+  /**
+   * Forward a request to an HTTP/2 upstream, streaming the body both ways and relaying trailers
+   * (which carry grpc-status and grpc-message)
+   */
+  private forwardHttp2Request(
+    req: ProxyRequest,
+    res: ProxyResponse,
+    config: ProxyConfig,
+    target: string,
+    upstreamPath: string,
+    proxyHeaders: http.OutgoingHttpHeaders,
+    recorder: TrafficRecorder | null,
+    chaos: ChaosPlan | null
+  ): void {
+    const { hostname, port } = this.parseTarget(target);
+    const protocol = config.upstreamProtocol || 'http1';
+    const headers: http2.OutgoingHttpHeaders = {};
+
+    for (const [name, value] of Object.entries(proxyHeaders)) {
+      // Connection-specific headers are forbidden in HTTP/2, except "te: trailers" which gRPC requires
+      if (HTTP2_CONNECTION_HEADERS.includes(name) || name === 'host') continue;
+      if (name === 'te' && value !== 'trailers') continue;
+      headers[name] = value;
+    }
+
+    headers[':method'] = req.method;
+    headers[':path'] = upstreamPath;
+    headers[':scheme'] = protocol === 'h2' ? 'https' : 'http';
+    headers[':authority'] = proxyHeaders.host as string || `${hostname}:${port}`;
+
+    const sendError = (error: Error) => {
+      console.error(`Proxy error: ${error.message} for ${config.domain} (target: ${target})`);
+      this.upstreamHealth.markUnhealthy(target);
+      recorder?.fail(error.message);
+      if (!res.headersSent) {
+        res.writeHead(502, { 'Content-Type': 'text/plain' });
+        res.end(`Proxy error: ${error.message}. Target: ${target}`);
+      } else {
+        try {
+          res.end();
+        } catch (e) {
+          console.error('Error ending response:', e);
+        }
       }
+    };
+
+    let stream: http2.ClientHttp2Stream;
+    try {
+      const endStream = req.method === 'GET' || req.method === 'HEAD';
+      stream = this.getUpstreamSession(target, protocol).request(headers, { endStream });
+    } catch (error: any) {
+      sendError(error);
+      return;
+    }
+
+    stream.on('response', (responseHeaders) => {
+      const status = Number(responseHeaders[':status']) || 200;
+      const outgoing: http.OutgoingHttpHeaders = {};
+
+      for (const [name, value] of Object.entries(responseHeaders)) {
+        if (!name.startsWith(':')) {
+          outgoing[name] = value;
+        }
+      }
+
+      res.writeHead(status, this.prepareResponseHeaders(outgoing, req, res, config));
+
+      if (recorder) {
+        recorder.response(status, '', outgoing as http.IncomingHttpHeaders);
+        stream.on('data', (chunk) => recorder.responseChunk(chunk));
+        stream.on('end', () => recorder.finish());
+      }
+
+      this.pipeResponse(stream, res, chaos);
+    });
+
+    stream.on('trailers', (trailers) => {
+      const outgoing: http.OutgoingHttpHeaders = {};
+      for (const [name, value] of Object.entries(trailers)) {
+        if (!name.startsWith(':') && value !== undefined) {
+          outgoing[name] = value as string | string[];
+        }
+      }
+      res.addTrailers(outgoing);
+    });
+
+    stream.on('error', sendError);
+
+    // Propagate cancellations (e.g. a client aborting a streaming RPC)
+    req.on('error', (error) => {
+      console.error(`Client request error: ${error.message} for ${config.domain}`);
+      stream.close(http2.constants.NGHTTP2_CANCEL);
+    });
+    res.on('close', () => {
+      if (!stream.closed) {
+        stream.close(http2.constants.NGHTTP2_CANCEL);
+      }
+    });
+
+    if (req.method !== 'GET' && req.method !== 'HEAD') {
+      if (recorder) {
+        req.on('data', (chunk) => recorder.requestChunk(chunk));
+      }
+      req.pipe(stream);
     }
-    return false;
   }
 
   /**
-   * Handle a proxy request
+   * Handle an upgrade request (e.g. WebSocket) by tunnelling the client socket to the target
    */
-  private handleProxyRequest(req: http.IncomingMessage, res: http.ServerResponse, config: ProxyConfig): void {
+  private handleUpgradeRequest(req: http.IncomingMessage, socket: Duplex, head: Buffer, config: ProxyConfig): void {
     try {
-      // Parse the target URL
-      const targetUrl = new URL(config.target);
-      const targetHostname = targetUrl.hostname;
-      const targetPort = targetUrl.port ?
-        parseInt(targetUrl.port) :
-        (targetUrl.protocol === 'https:' ? 443 : 80);
-      const targetProtocol = targetUrl.protocol;
+      const { target, path: upstreamPath } = this.resolveRoute(config, req.url);
+      const {
+        hostname: targetHostname,
+        port: targetPort,
+        protocol: targetProtocol
+      } = this.parseTarget(target);
 
       // Log request
       const date = new Date().toISOString();
       const clientIP = req.socket.remoteAddress || '-';
-      console.log(`[${date}] ${clientIP} ${req.method} ${req.url} → ${config.target} [Protocol: ${targetProtocol}]`);
+      console.log(`[${date}] ${clientIP} ${req.method} ${req.url} → ${target}${upstreamPath} [Upgrade: ${req.headers.upgrade}]`);
 
-      // Get the original host from the request
       const originalHost = req.headers.host || config.domain;
+      const proxyHeaders = applyHeaderRules(
+        this.prepareProxyHeaders(req.headers, targetHostname, targetPort, originalHost, config.domain),
+        config.headerRules,
+        'request'
+      );
 
-      // Clone and modify the headers for the proxied request
-      const proxyHeaders = this.prepareProxyHeaders(req.headers, targetHostname, targetPort, originalHost, config.domain);
+      // Make sure the handshake headers reach the target untouched
+      proxyHeaders.connection = 'Upgrade';
+      proxyHeaders.upgrade = req.headers.upgrade;
+
+      const requestModule = targetProtocol === 'https:' ? https : http;
 
-      // Configure proxy request options
-      const proxyOptions = {
+      const proxyReq = requestModule.request({
         hostname: targetHostname,
         port: targetPort,
-        path: req.url,
+        path: upstreamPath,
         method: req.method,
         headers: proxyHeaders,
-        // For HTTPS targets, don't verify certificates (useful for local dev)
         rejectUnauthorized: false
+      });
+
+      // Tear down both sides together, whichever closes first
+      const teardown = (proxySocket?: Duplex) => {
+        socket.destroy();
+        proxySocket?.destroy();
+        proxyReq.destroy();
       };
 
-      // Choose http or https module based on the target protocol
-      const requestModule = targetProtocol === 'https:' ? https : http;
+      socket.on('error', (error) => {
+        console.error(`Client socket error: ${error.message} for ${config.domain}`);
+        teardown();
+      });
+
+      proxyReq.on('upgrade', (proxyRes, proxySocket: Duplex, proxyHead: Buffer) => {
+        proxySocket.on('error', (error) => {
+          console.error(`Upstream socket error: ${error.message} for ${config.domain} (target: ${target})`);
+          teardown(proxySocket);
+        });
+        proxySocket.on('close', () => teardown(proxySocket));
+        socket.on('close', () => teardown(proxySocket));
+
+        // Relay the target's handshake response to the client
+        socket.write(this.formatResponseHead(proxyRes));
 
-      // Create the proxy request using the appropriate module
-      const proxyReq = requestModule.request(proxyOptions, (proxyRes) => {
-        // Add our custom header to the response
-        res.setHeader('X-Proxied-By', '@axlotl-lab/navigrator');
+        // Replay any bytes that arrived together with the handshake on either side
+        if (proxyHead && proxyHead.length) proxySocket.unshift(proxyHead);
+        if (head && head.length) socket.unshift(head);
 
-        // Copy the response status and headers
-        res.writeHead(proxyRes.statusCode || 200, proxyRes.headers);
+        proxySocket.pipe(socket).pipe(proxySocket);
+      });
 
-        // Pipe the response data directly
-        proxyRes.pipe(res);
+      // The target answered without upgrading: relay the response and close. The body arrives de-chunked, so the
+      // connection closing marks its end rather than the target's framing headers
+      proxyReq.on('response', (proxyRes) => {
+        socket.write(this.formatResponseHead(proxyRes, true));
+        proxyRes.pipe(socket);
       });
 
-      // Handle proxy request errors
       proxyReq.on('error', (error) => {
-        console.error(`Proxy error: ${error.message} for ${config.domain} (target: ${config.target})`);
-        if (!res.headersSent) {
-          res.writeHead(502, { 'Content-Type': 'text/plain' });
-          res.end(`Proxy error: ${error.message}. Target: ${config.target}`);
+        console.error(`Proxy error: ${error.message} for ${config.domain} (target: ${target})`);
+        if (socket.writable) {
+          // Let the 502 reach the client before the socket goes away
+          socket.once('finish', () => socket.destroy());
+          socket.end('HTTP/1.1 502 Bad Gateway\r\nConnection: close\r\n\r\n');
         } else {
-          try {
-            res.end();
-          } catch (e) {
-            console.error('Error ending response:', e);
-          }
+          socket.destroy();
         }
       });
 
-      // Handle client request errors
-      req.on('error', (error) => {
-        console.error(`Client request error: ${error.message} for ${config.domain}`);
-        proxyReq.destroy();
-      });
-
-      // If there's data in the request, pipe it to the proxy request
-      if (req.method !== 'GET' && req.method !== 'HEAD') {
-        req.pipe(proxyReq);
-      } else {
-        proxyReq.end();
-      }
+      proxyReq.end();
     } catch (error) {
-      console.error(`Error handling proxy request for ${config.domain}:`, error);
-      if (!res.headersSent) {
-        res.writeHead(500, { 'Content-Type': 'text/plain' });
-        res.end(`Internal Server Error: ${error}`);
-      } else {
-        try {
-          res.end();
-        } catch (e) {
-          console.error('Error ending response:', e);
-        }
-      }
+      console.error(`Error handling upgrade request for ${config.domain}:`, error);
+      socket.destroy();
     }
   }
 
+  /**
+   * Serialize the status line and headers of an upstream response for a raw socket. With `close`, the framing
+   * headers are replaced by `Connection: close`, for a body that is written as-is until the socket ends
+   */
+  private formatResponseHead(proxyRes: http.IncomingMessage, close: boolean = false): string {
+    const lines = [`HTTP/1.1 ${proxyRes.statusCode} ${proxyRes.statusMessage}`];
+    const framingHeaders = ['transfer-encoding', 'content-length', 'connection', 'keep-alive'];
+
+    // Use the raw headers to keep duplicates (e.g. Set-Cookie) and the original casing
+    for (let i = 0; i < proxyRes.rawHeaders.length; i += 2) {
+      if (close && framingHeaders.includes(proxyRes.rawHeaders[i].toLowerCase())) continue;
+      lines.push(`${proxyRes.rawHeaders[i]}: ${proxyRes.rawHeaders[i + 1]}`);
+    }
+
+    if (close) {
+      lines.push('Connection: close');
+    }
+
+    return lines.join('\r\n') + '\r\n\r\n';
+  }
+
   /**
    * Start a proxy server for a domain
    */
-  public startProxy(domain: string, certPath: string, keyPath: string): boolean {
+  public async startProxy(domain: string, certPath: string, keyPath: string): Promise<ProxyStartResult> {
     const config = this.proxies.get(domain);
-    if (!config) return false;
+    if (!config) {
+      return { success: false, message: `No proxy configured for ${domain}` };
+    }
+
+    const port = config.port || 443;
 
     try {
       // Load SSL certificate files
@@ -336,26 +1431,56 @@ export class ProxyService {
       // Store the certificate in the SNI certificates map
       this.sniCertificates.set(domain, { key, cert });
 
-      // Initialize or update the SNI server
-      const sniInitialized = this.initOrUpdateSNIServer();
-      if (!sniInitialized) {
-        console.error(`Failed to initialize SNI server for ${domain}`);
-        return false;
+      // A running proxy whose port changed moves to the other listener
+      const currentPort = this.getListenerPort(domain);
+      if (currentPort !== undefined && currentPort !== port) {
+        this.releaseSNIServer(domain);
       }
 
+      await this.acquireSNIServer(port, domain);
+
       // Update the configuration
       config.certPath = certPath;
       config.keyPath = keyPath;
       config.isRunning = true;
       this.proxies.set(domain, config);
 
-      console.log(`Proxy started for ${domain} -> ${config.target}`);
+      console.log(`Proxy started for ${domain} -> ${config.target} on port ${port}`);
       this.saveProxies();
-      return true;
-    } catch (error) {
-      console.error(`Error starting proxy for ${domain}:`, error);
-      return false;
+
+      const redirectWarning = this.httpRedirectEnabled && this.redirectError ? ` (HTTP redirect unavailable: ${this.redirectError})` : '';
+      return { success: true, message: `Proxy for ${domain} started on port ${port}${redirectWarning}` };
+    } catch (error: any) {
+      console.error(`Error starting proxy for ${domain}:`, error?.message);
+
+      this.sniCertificates.delete(domain);
+      this.releaseSNIServer(domain);
+      config.isRunning = false;
+      this.saveProxies();
+
+      return { success: false, message: error?.message || `Failed to start proxy for ${domain}`, code: error?.code };
+    }
+  }
+
+  /**
+   * Reload a renewed certificate into the running proxies serving it and return their domains. A secure context is
+   * built per handshake, so new connections get the new certificate while open ones are left alone
+   */
+  public reloadCertificate(certPath: string, keyPath: string): string[] {
+    const domains = Array.from(this.proxies.values())
+      .filter(config => config.isRunning && config.certPath === certPath && this.sniCertificates.has(config.domain))
+      .map(config => config.domain);
+
+    if (domains.length > 0) {
+      const key = fs.readFileSync(keyPath);
+      const cert = fs.readFileSync(certPath);
+
+      for (const domain of domains) {
+        this.sniCertificates.set(domain, { key, cert });
+      }
     }
+
+    return domains;
   }
 
   /**
@@ -371,6 +1496,14 @@ export class ProxyService {
     // Clone headers to avoid modifying the original
     const headers: http.OutgoingHttpHeaders = { ...originalHeaders };
 
+    // Translate HTTP/2 requests for HTTP/1.1 upstreams: pseudo-headers (:method, :path,
+    // :authority...) are not valid there, the authority is carried by the host header below
+    for (const name of Object.keys(headers)) {
+      if (name.startsWith(':')) {
+        delete headers[name];
+      }
+    }
+
     // Preserve the original host header so the target application
     // receives the correct domain name instead of the proxed one
     headers.host = originalHost;
@@ -393,6 +1526,37 @@ export class ProxyService {
     return headers;
   }
 
+  /**
+   * Prepare the upstream response headers for the client connection
+   */
+  private prepareResponseHeaders(
+    originalHeaders: http.OutgoingHttpHeaders,
+    req: ProxyRequest,
+    res: ProxyResponse,
+    config: ProxyConfig
+  ): http.OutgoingHttpHeaders {
+    let headers: http.OutgoingHttpHeaders = { ...originalHeaders };
+
+    // Add our custom header
+    headers['x-proxied-by'] = '@axlotl-lab/navigrator';
+
+    if (config.cors) {
+      headers = { ...headers, ...corsResponseHeaders(req.headers, headers) };
+    }
+
+    // User rules run last so they can override anything above
+    headers = applyHeaderRules(headers, config.headerRules, 'response');
+
+    // HTTP/2 frames the body itself and rejects connection-specific headers
+    if (res instanceof http2.Http2ServerResponse) {
+      for (const name of HTTP2_CONNECTION_HEADERS) {
+        delete headers[name];
+      }
+    }
+
+    return headers;
+  }
+
   /**
    * Stop a running proxy server
    */
@@ -408,14 +1572,8 @@ export class ProxyService {
         this.proxies.set(domain, config);
       }
 
-      // If no more proxies are running, stop the SNI server
-      const runningProxies = Array.from(this.proxies.values()).filter(p => p.isRunning);
-      if (runningProxies.length === 0 && this.sniServer) {
-        this.stopSNIServer();
-      } else if (this.sniServer) {
-        // Just update the SNI server
-        this.initOrUpdateSNIServer();
-      }
+      // Release the listener, which stops once no running proxy uses its port
+      this.releaseSNIServer(domain);
 
       console.log(`Proxy stopped for ${domain}`);
       this.saveProxies();
@@ -439,10 +1597,18 @@ export class ProxyService {
       this.proxies.set(domain, config);
     }
 
-    // Stop the SNI server
-    if (this.sniServer) {
-      this.stopSNIServer();
+    // Stop every SNI listener
+    for (const [port, entry] of this.sniServers.entries()) {
+      try {
+        entry.server.close();
+        console.log(`SNI server on port ${port} stopped`);
+      } catch (error) {
+        console.error(`Error stopping SNI server on port ${port}:`, error);
+      }
     }
+    this.sniServers.clear();
+    this.closeUpstreamSessions();
+    this.stopRedirectServer();
 
     this.saveProxies();
   }
@@ -450,23 +1616,42 @@ export class ProxyService {
   /**
    * Update a proxy configuration
    */
-  public updateProxy(domain: string, newConfig: Partial<ProxyConfig>): boolean {
+  public async updateProxy(domain: string, newConfig: Partial<ProxyConfig>): Promise<boolean> {
     const config = this.proxies.get(domain);
     if (!config) return false;
 
-    // Normalize the target URL if it's being updated
-    if (newConfig.target && !newConfig.target.startsWith('http://') && !newConfig.target.startsWith('https://')) {
-      newConfig.target = `http://${newConfig.target}`;
+    // Normalize the target URLs if they're being updated
+    if (newConfig.target) {
+      newConfig.target = normalizeTarget(newConfig.target);
+    }
+    if (newConfig.routes) {
+      newConfig.routes = newConfig.routes.map(route => ({ ...route, target: normalizeTarget(route.target, 'routes') }));
     }
 
-    // Update the configuration
-    Object.assign(config, newConfig);
+    const previousPort = this.getListenerPort(domain);
 
-    // If the proxy is running and target was updated, restart it
-    if (config.isRunning && newConfig.target) {
-      this.stopProxy(domain);
+    // Update the configuration (skipping fields that weren't provided)
+    const fields: Partial<ProxyConfig> = Object.fromEntries(
+      Object.entries(newConfig).filter(([, value]) => value !== undefined)
+    );
+    const previousFields: Partial<ProxyConfig> = Object.fromEntries(
+      Object.keys(fields).map(key => [key, config[key as keyof ProxyConfig]])
+    );
+    Object.assign(config, fields);
+
+    // Targets and routes are read on every request; only a port change needs the proxy to move listeners
+    if (config.isRunning && previousPort !== undefined && previousPort !== (config.port || 443)) {
       if (config.certPath && config.keyPath) {
-        this.startProxy(domain, config.certPath, config.keyPath);
+        const result = await this.startProxy(domain, config.certPath, config.keyPath);
+        if (!result.success) {
+          // Keep the proxy as it was, serving on its previous port
+          Object.assign(config, previousFields);
+          const restored = await this.startProxy(domain, config.certPath, config.keyPath);
+          if (!restored.success) {
+            console.error(`Could not restart the proxy for ${domain} on port ${previousPort}: ${restored.message}`);
+          }
+          throw Object.assign(new Error(result.message), { code: result.code });
+        }
       }
     }
 
@@ -0,0 +1,103 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createSubject, getCertificateFingerprint } from './certificate-backend';
+import { NodeCertificateBackend } from './node-certificate-backend';
+import { buildCABundle, formatEnvFile, getRuntimeTrustStatus } from './runtime-trust';
+
+describe('runtime-trust', () => {
+  let dir: string;
+  let current: string;
+  let previous: string;
+  let other: string;
+
+  const createCA = async (name: string, commonName: string) => {
+    await new NodeCertificateBackend().generateCA({
+      keyPath: path.join(dir, `${name}.key`),
+      certPath: path.join(dir, `${name}.crt`),
+      subject: createSubject(commonName),
+      days: 1,
+      key: { type: 'ecdsa', curve: 'P-256' }
+    });
+    return fs.readFileSync(path.join(dir, `${name}.crt`), 'utf-8');
+  };
+
+  beforeAll(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'navigrator-runtime-'));
+    current = await createCA('current', 'Navigrator Local CA');
+    previous = await createCA('previous', 'Navigrator Local CA');
+    other = await createCA('other', 'Corporate Root CA');
+  });
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should check the bundle each variable points to', async () => {
+    fs.writeFileSync(path.join(dir, 'bundle.pem'), other + current);
+    fs.writeFileSync(path.join(dir, 'stale.pem'), other + previous);
+
+    const statuses = await getRuntimeTrustStatus(getCertificateFingerprint(current), {
+      NODE_EXTRA_CA_CERTS: path.join(dir, 'bundle.pem'),
+      REQUESTS_CA_BUNDLE: path.join(dir, 'stale.pem'),
+      SSL_CERT_FILE: path.join(dir, 'other.crt')
+    });
+
+    expect(statuses.map(status => [status.variable, status.status])).toEqual([
+      ['NODE_EXTRA_CA_CERTS', 'installed'],
+      ['REQUESTS_CA_BUNDLE', 'fingerprint-mismatch'],
+      ['SSL_CERT_FILE', 'missing'],
+      ['CURL_CA_BUNDLE', 'missing'],
+      ['GIT_SSL_CAINFO', 'missing']
+    ]);
+  });
+
+  it('should report variables that are unset or point to missing files', async () => {
+    const statuses = await getRuntimeTrustStatus(getCertificateFingerprint(current), {
+      NODE_EXTRA_CA_CERTS: path.join(dir, 'missing.pem')
+    });
+
+    expect(statuses[0]).toEqual(expect.objectContaining({ status: 'missing', message: expect.stringContaining('Could not read') }));
+    expect(statuses[1]).toEqual({ runtime: 'Python requests', variable: 'REQUESTS_CA_BUNDLE', status: 'missing', message: 'REQUESTS_CA_BUNDLE is not set' });
+  });
+
+  it('should report bundles that exist but can\'t be read as unknown', async () => {
+    const denied = Object.assign(new Error(`EACCES: permission denied, open '${path.join(dir, 'denied.pem')}'`), { code: 'EACCES' });
+    const readFile = jest.spyOn(fs.promises, 'readFile').mockRejectedValueOnce(denied);
+
+    const statuses = await getRuntimeTrustStatus(getCertificateFingerprint(current), {
+      NODE_EXTRA_CA_CERTS: path.join(dir, 'denied.pem')
+    });
+
+    expect(statuses[0]).toEqual(expect.objectContaining({ status: 'unknown', message: expect.stringContaining('permission denied') }));
+    readFile.mockRestore();
+  });
+
+  it('should report bundles with certificates that can\'t be parsed as unknown', async () => {
+    const broken = '-----BEGIN CERTIFICATE-----\nbm90IGEgY2VydGlmaWNhdGU=\n-----END CERTIFICATE-----\n';
+    fs.writeFileSync(path.join(dir, 'broken.pem'), other + broken);
+    fs.writeFileSync(path.join(dir, 'broken-with-ca.pem'), broken + current);
+
+    const statuses = await getRuntimeTrustStatus(getCertificateFingerprint(current), {
+      NODE_EXTRA_CA_CERTS: path.join(dir, 'broken.pem'),
+      REQUESTS_CA_BUNDLE: path.join(dir, 'broken-with-ca.pem')
+    });
+
+    expect(statuses[0]).toEqual(expect.objectContaining({ status: 'unknown', message: expect.stringContaining('Could not parse') }));
+    expect(statuses[1]).toEqual(expect.objectContaining({ status: 'installed' }));
+    expect(statuses[1].message).toBeUndefined();
+  });
+
+  it('should bundle the system roots with the CA, leaving out previous Navigrator CAs', () => {
+    const bundle = buildCABundle([other.trim(), previous.trim()], current);
+
+    expect(bundle).toBe(`${other.trim()}\n${current.trim()}\n`);
+  });
+
+  it('should quote values in environment files', () => {
+    const variables = { SSL_CERT_FILE: "/home/o'brien/.navigrator/trust/ca-bundle.pem" };
+
+    expect(formatEnvFile(variables, 'sh')).toContain(`export SSL_CERT_FILE='/home/o'\\''brien/.navigrator/trust/ca-bundle.pem'`);
+    expect(formatEnvFile(variables, 'powershell')).toContain(`$env:SSL_CERT_FILE = '/home/o''brien/.navigrator/trust/ca-bundle.pem'`);
+  });
+});
@@ -0,0 +1,140 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as tls from 'tls';
+import { CA_COMMON_NAME, getCertificateFingerprint, getCommonName, splitPemCertificates } from './certificate-backend';
+
+/**
+ * Language runtimes that don't read the system store, and the variable naming the CA bundle each trusts. Node.js adds
+ * its file to the roots it trusts; the others trust only the bundle, so it must hold the system roots too
+ */
+export const RUNTIME_TRUST_VARIABLES = [
+  { runtime: 'Node.js', variable: 'NODE_EXTRA_CA_CERTS', extra: true },
+  { runtime: 'Python requests', variable: 'REQUESTS_CA_BUNDLE', extra: false },
+  { runtime: 'OpenSSL', variable: 'SSL_CERT_FILE', extra: false },
+  { runtime: 'curl', variable: 'CURL_CA_BUNDLE', extra: false },
+  { runtime: 'Git', variable: 'GIT_SSL_CAINFO', extra: false }
+];
+
+/**
+ * Where distributions keep the bundle of trusted roots
+ */
+const SYSTEM_CA_BUNDLES = [
+  // Debian/Ubuntu, Alpine
+  '/etc/ssl/certs/ca-certificates.crt',
+  // RHEL/Fedora
+  '/etc/pki/tls/certs/ca-bundle.crt',
+  // openSUSE
+  '/etc/ssl/ca-bundle.pem',
+  // macOS, BSDs
+  '/etc/ssl/cert.pem'
+];
+
+/**
+ * Read the system bundle of trusted roots. Without one, e.g. on Windows, the Mozilla roots Node.js ships with are used
+ */
+export async function readSystemCABundle(): Promise<{ path: string | null; certificates: string[] }> {
+  for (const bundlePath of SYSTEM_CA_BUNDLES) {
+    try {
+      const certificates = splitPemCertificates(await fs.readFile(bundlePath, 'utf-8'));
+      if (certificates.length > 0) {
+        return { path: bundlePath, certificates };
+      }
+    } catch (error) {
+      // Not this distribution
+    }
+  }
+
+  return { path: null, certificates: [...tls.rootCertificates] };
+}
+
+/**
+ * A bundle of the system roots and the CA. Navigrator CAs already in the system bundle are left out, so a rotated CA
+ * doesn't stay trusted
+ */
+export function buildCABundle(systemCertificates: string[], caCertificate: string): string {
+  const certificates = systemCertificates.filter(certificate => {
+    try {
+      return getCommonName(new crypto.X509Certificate(certificate).subject) !== CA_COMMON_NAME;
+    } catch (error) {
+      // Skip certificates Node.js can't parse rather than failing the whole bundle
+      return false;
+    }
+  });
+
+  return [...certificates, caCertificate.trim()].join('\n') + '\n';
+}
+
+/**
+ * A file setting the variables when sourced from a POSIX shell (`. env.sh`) or PowerShell (`. env.ps1`)
+ */
+export function formatEnvFile(variables: { [name: string]: string }, shell: 'sh' | 'powershell'): string {
+  const lines = Object.entries(variables).map(([name, value]) => shell === 'powershell'
+    ? `$env:${name} = '${value.replace(/'/g, "''")}'`
+    : `export ${name}='${value.replace(/'/g, `'\\''`)}'`);
+
+  return `# Generated by navigrator trust runtimes\n${lines.join('\n')}\n`;
+}
+
+export interface RuntimeTrustStatus {
+  runtime: string;
+  variable: string;
+  /** The bundle the variable points to */
+  path?: string;
+  status: 'installed' | 'missing' | 'fingerprint-mismatch' | 'unknown';
+  message?: string;
+}
+
+/**
+ * Check whether the bundle each runtime variable points to holds the CA with the given fingerprint. A bundle holding
+ * only another Navigrator CA is a fingerprint mismatch, and one with certificates that can't be read is unknown
+ */
+export async function getRuntimeTrustStatus(
+  fingerprint: string | null,
+  env: NodeJS.ProcessEnv = process.env
+): Promise<RuntimeTrustStatus[]> {
+  const statuses: RuntimeTrustStatus[] = [];
+
+  for (const { runtime, variable } of RUNTIME_TRUST_VARIABLES) {
+    const bundlePath = env[variable];
+    if (!bundlePath) {
+      statuses.push({ runtime, variable, status: 'missing', message: `${variable} is not set` });
+      continue;
+    }
+
+    let certificates: string[];
+    try {
+      certificates = splitPemCertificates(await fs.readFile(bundlePath, 'utf-8'));
+    } catch (error: any) {
+      // Only a bundle that doesn't exist is missing; one that can't be read (e.g. EACCES) may still hold the CA
+      const status = error?.code === 'ENOENT' ? 'missing' : 'unknown';
+      statuses.push({ runtime, variable, path: bundlePath, status, message: `Could not read ${bundlePath}: ${error?.message}` });
+      continue;
+    }
+
+    let status: RuntimeTrustStatus['status'] = 'missing';
+    let message: string | undefined;
+    for (const certificate of certificates) {
+      try {
+        if (fingerprint && getCertificateFingerprint(certificate) === fingerprint) {
+          status = 'installed';
+          message = undefined;
+          break;
+        }
+        if (getCommonName(new crypto.X509Certificate(certificate).subject) === CA_COMMON_NAME) {
+          status = 'fingerprint-mismatch';
+        }
+      } catch (error: any) {
+        message = `Could not parse a certificate in ${bundlePath}: ${error?.message}`;
+      }
+    }
+
+    // The CA may be the certificate that couldn't be parsed
+    if (message) {
+      statuses.push({ runtime, variable, path: bundlePath, status: 'unknown', message });
+    } else {
+      statuses.push({ runtime, variable, path: bundlePath, status });
+    }
+  }
+
+  return statuses;
+}
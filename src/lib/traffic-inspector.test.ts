@@ -0,0 +1,168 @@
+import * as zlib from 'zlib';
+import { TrafficInspector, validateTrafficSettings } from './traffic-inspector';
+
+const request = (url = '/api/items?page=2') => ({
+  method: 'POST',
+  url,
+  httpVersion: '1.1',
+  headers: { host: 'test.local', 'content-type': 'application/json' },
+  target: 'http://localhost:3000'
+});
+
+describe('validateTrafficSettings', () => {
+  it('should accept an enabled flag with optional limits', () => {
+    expect(validateTrafficSettings({ enabled: false })).toBeNull();
+    expect(validateTrafficSettings({ enabled: true, maxEntries: 50, maxBodySize: 1024 })).toBeNull();
+  });
+
+  it('should reject limits that are not positive integers', () => {
+    expect(validateTrafficSettings({ maxEntries: 50 })).toContain('enabled flag');
+    expect(validateTrafficSettings({ enabled: true, maxEntries: 0 })).toContain('max entries');
+    expect(validateTrafficSettings({ enabled: true, maxEntries: '50' })).toContain('max entries');
+    expect(validateTrafficSettings({ enabled: true, maxBodySize: -1 })).toContain('max body size');
+    expect(validateTrafficSettings({ enabled: true, maxBodySize: 1.5 })).toContain('max body size');
+  });
+});
+
+describe('TrafficInspector', () => {
+  let inspector: TrafficInspector;
+
+  beforeEach(() => {
+    inspector = new TrafficInspector();
+  });
+
+  describe('record', () => {
+    it('should add the request as pending until it finishes', () => {
+      const recorder = inspector.record('test.local', { enabled: true }, request());
+
+      expect(inspector.getEntries('test.local')[0].state).toBe('pending');
+
+      recorder.response(200, 'OK', { 'content-type': 'text/plain' });
+      recorder.responseChunk('hello');
+      recorder.finish();
+
+      const [entry] = inspector.getEntries('test.local');
+      expect(entry.state).toBe('complete');
+      expect(entry.status).toBe(200);
+      expect(entry.responseBody).toEqual(expect.objectContaining({ text: 'hello', size: 5, truncated: false }));
+    });
+
+    it('should drop the oldest entries beyond maxEntries', () => {
+      for (let i = 0; i < 5; i++) {
+        inspector.record('test.local', { enabled: true, maxEntries: 3 }, request(`/${i}`));
+      }
+
+      const entries = inspector.getEntries('test.local');
+      expect(entries.map(entry => entry.url)).toEqual(['/2', '/3', '/4']);
+    });
+
+    it('should truncate bodies larger than maxBodySize while keeping the full size', () => {
+      const recorder = inspector.record('test.local', { enabled: true, maxBodySize: 4 }, request());
+
+      recorder.requestChunk('{"a":');
+      recorder.requestChunk('1}');
+      recorder.finish();
+
+      const [entry] = inspector.getEntries('test.local');
+      expect(entry.requestBody).toEqual(expect.objectContaining({ text: '{"a"', size: 7, truncated: true }));
+    });
+
+    it('should decompress gzip responses captured in full', () => {
+      const recorder = inspector.record('test.local', { enabled: true }, request());
+
+      recorder.response(200, 'OK', { 'content-type': 'text/html', 'content-encoding': 'gzip' });
+      recorder.responseChunk(zlib.gzipSync('<p>hi</p>'));
+      recorder.finish();
+
+      expect(inspector.getEntries('test.local')[0].responseBody?.text).toBe('<p>hi</p>');
+    });
+
+    it('should store binary bodies as base64', () => {
+      const recorder = inspector.record('test.local', { enabled: true }, request());
+
+      recorder.response(200, 'OK', { 'content-type': 'image/png' });
+      recorder.responseChunk(Buffer.from([0x89, 0x50, 0x4e, 0x47]));
+      recorder.finish();
+
+      expect(inspector.getEntries('test.local')[0].responseBody).toEqual(expect.objectContaining({
+        text: 'iVBORw==',
+        encoding: 'base64'
+      }));
+    });
+
+    it('should keep the first outcome of a request', () => {
+      const recorder = inspector.record('test.local', { enabled: true }, request());
+
+      recorder.finish();
+      recorder.fail('Client closed the connection');
+
+      const [entry] = inspector.getEntries('test.local');
+      expect(entry.state).toBe('complete');
+      expect(entry.error).toBeUndefined();
+    });
+  });
+
+  describe('getEntries', () => {
+    it('should only return entries newer than the given id', () => {
+      inspector.record('test.local', { enabled: true }, request('/first'));
+      inspector.record('test.local', { enabled: true }, request('/second'));
+
+      const [first] = inspector.getEntries('test.local');
+      const newer = inspector.getEntries('test.local', first.id);
+
+      expect(newer.map(entry => entry.url)).toEqual(['/second']);
+    });
+
+    it('should keep domains separate and clear them independently', () => {
+      inspector.record('a.local', { enabled: true }, request());
+      inspector.record('b.local', { enabled: true }, request());
+
+      inspector.clear('a.local');
+
+      expect(inspector.getEntries('a.local')).toEqual([]);
+      expect(inspector.getEntries('b.local')).toHaveLength(1);
+    });
+  });
+
+  describe('toHAR', () => {
+    it('should export entries as a HAR 1.2 log', () => {
+      const recorder = inspector.record('test.local', { enabled: true }, request());
+      recorder.requestChunk('{"a":1}');
+      recorder.response(201, 'Created', { 'content-type': 'application/json', location: '/api/items/1' });
+      recorder.responseChunk('{"id":1}');
+      recorder.finish();
+
+      const har = inspector.toHAR('test.local') as any;
+
+      expect(har.log.version).toBe('1.2');
+      expect(har.log.creator.name).toBeDefined();
+      expect(har.log.entries).toHaveLength(1);
+
+      const [entry] = har.log.entries;
+      expect(entry.request).toEqual(expect.objectContaining({
+        method: 'POST',
+        url: 'https://test.local/api/items?page=2',
+        httpVersion: 'HTTP/1.1',
+        queryString: [{ name: 'page', value: '2' }],
+        postData: { mimeType: 'application/json', text: '{"a":1}' }
+      }));
+      expect(entry.request.headers).toContainEqual({ name: 'host', value: 'test.local' });
+      expect(entry.response).toEqual(expect.objectContaining({
+        status: 201,
+        statusText: 'Created',
+        redirectURL: '/api/items/1',
+        content: { size: 8, mimeType: 'application/json', text: '{"id":1}' }
+      }));
+    });
+
+    it('should report failed requests with status 0', () => {
+      const recorder = inspector.record('test.local', { enabled: true }, request());
+      recorder.fail('connect ECONNREFUSED');
+
+      const [entry] = (inspector.toHAR('test.local') as any).log.entries;
+
+      expect(entry.response.status).toBe(0);
+      expect(entry.comment).toBe('Error: connect ECONNREFUSED');
+    });
+  });
+});
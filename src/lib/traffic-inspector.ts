@@ -0,0 +1,317 @@
+import * as http from 'http';
+import * as zlib from 'zlib';
+import packageJson from '../../package.json';
+import { isRecord } from './validation';
+
+export interface TrafficSettings {
+  enabled: boolean;
+  /** Number of requests kept per domain; the oldest are dropped first */
+  maxEntries?: number;
+  /** Bytes of each request/response body kept; larger bodies are truncated */
+  maxBodySize?: number;
+}
+
+export const DEFAULT_TRAFFIC_SETTINGS = {
+  maxEntries: 200,
+  maxBodySize: 64 * 1024
+};
+
+/**
+ * Validate traffic settings received from the API
+ */
+export function validateTrafficSettings(settings: unknown): string | null {
+  if (!isRecord(settings) || typeof settings.enabled !== 'boolean') {
+    return 'Traffic settings require an enabled flag';
+  }
+
+  const isPositiveInteger = (value: unknown) => typeof value === 'number' && Number.isInteger(value) && value > 0;
+
+  if (settings.maxEntries !== undefined && !isPositiveInteger(settings.maxEntries)) {
+    return 'Traffic max entries must be a positive integer';
+  }
+
+  if (settings.maxBodySize !== undefined && !isPositiveInteger(settings.maxBodySize)) {
+    return 'Traffic max body size must be a positive number of bytes';
+  }
+
+  return null;
+}
+
+export interface CapturedBody {
+  /** Total size seen on the wire, even when the captured text was truncated */
+  size: number;
+  mimeType: string;
+  text: string;
+  encoding?: 'base64';
+  truncated: boolean;
+}
+
+export interface TrafficEntry {
+  id: number;
+  domain: string;
+  startedAt: string;
+  method: string;
+  url: string;
+  httpVersion: string;
+  target: string;
+  requestHeaders: http.IncomingHttpHeaders;
+  requestBody?: CapturedBody;
+  status?: number;
+  statusText?: string;
+  responseHeaders?: http.IncomingHttpHeaders;
+  responseBody?: CapturedBody;
+  timings: {
+    /** Time until the response headers arrived */
+    wait: number;
+    /** Time spent receiving the response body */
+    receive: number;
+    total: number;
+  };
+  state: 'pending' | 'complete' | 'error';
+  error?: string;
+}
+
+/**
+ * Accumulates a body up to a size limit
+ */
+class BodyBuffer {
+  private chunks: Buffer[] = [];
+  private captured = 0;
+  public size = 0;
+
+  constructor(private limit: number) { }
+
+  public push(chunk: Buffer | string): void {
+    const buffer = typeof chunk === 'string' ? Buffer.from(chunk) : chunk;
+    this.size += buffer.length;
+
+    if (this.captured < this.limit) {
+      const slice = buffer.subarray(0, this.limit - this.captured);
+      this.chunks.push(slice);
+      this.captured += slice.length;
+    }
+  }
+
+  public toCapturedBody(headers: http.IncomingHttpHeaders): CapturedBody | undefined {
+    if (this.size === 0) return undefined;
+
+    const mimeType = String(headers['content-type'] || 'application/octet-stream');
+    const truncated = this.size > this.captured;
+    let data = Buffer.concat(this.chunks);
+
+    // Compressed bodies are only readable when captured in full
+    const contentEncoding = String(headers['content-encoding'] || '');
+    if (!truncated && contentEncoding) {
+      try {
+        const options = { maxOutputLength: Math.max(this.limit, 1) * 16 };
+        if (contentEncoding === 'gzip') data = zlib.gunzipSync(data, options);
+        else if (contentEncoding === 'deflate') data = zlib.inflateSync(data, options);
+        else if (contentEncoding === 'br') data = zlib.brotliDecompressSync(data, options);
+      } catch (error) {
+        // Keep the raw bytes if they can't be decompressed
+      }
+    }
+
+    if (isTextual(mimeType)) {
+      return { size: this.size, mimeType, text: data.toString('utf-8'), truncated };
+    }
+    return { size: this.size, mimeType, text: data.toString('base64'), encoding: 'base64', truncated };
+  }
+}
+
+/**
+ * Whether a content type can be shown as text
+ */
+function isTextual(mimeType: string): boolean {
+  return /^text\/|[/+](json|xml|javascript|x-www-form-urlencoded|graphql)\b/i.test(mimeType);
+}
+
+/**
+ * Records a single proxied request while it is in flight
+ */
+export class TrafficRecorder {
+  private startTime = Date.now();
+  private responseTime: number | null = null;
+  private requestBody: BodyBuffer;
+  private responseBody: BodyBuffer;
+  private finished = false;
+
+  constructor(private entry: TrafficEntry, maxBodySize: number) {
+    this.requestBody = new BodyBuffer(maxBodySize);
+    this.responseBody = new BodyBuffer(maxBodySize);
+  }
+
+  public requestChunk(chunk: Buffer | string): void {
+    this.requestBody.push(chunk);
+  }
+
+  public response(status: number, statusText: string, headers: http.IncomingHttpHeaders): void {
+    this.responseTime = Date.now();
+    this.entry.status = status;
+    this.entry.statusText = statusText;
+    this.entry.responseHeaders = headers;
+    this.entry.timings.wait = this.responseTime - this.startTime;
+  }
+
+  public responseChunk(chunk: Buffer | string): void {
+    this.responseBody.push(chunk);
+  }
+
+  public finish(): void {
+    this.complete('complete');
+  }
+
+  public fail(message: string): void {
+    this.complete('error', message);
+  }
+
+  private complete(state: TrafficEntry['state'], error?: string): void {
+    if (this.finished) return;
+    this.finished = true;
+
+    if (error) this.entry.error = error;
+
+    const now = Date.now();
+    this.entry.state = state;
+    this.entry.timings.total = now - this.startTime;
+    this.entry.timings.receive = this.responseTime ? now - this.responseTime : 0;
+    this.entry.requestBody = this.requestBody.toCapturedBody(this.entry.requestHeaders);
+    this.entry.responseBody = this.responseBody.toCapturedBody(this.entry.responseHeaders || {});
+  }
+}
+
+/**
+ * Keeps a ring buffer of recent requests per proxied domain
+ */
+export class TrafficInspector {
+  private entries: Map<string, TrafficEntry[]> = new Map();
+  private nextId = 1;
+
+  /**
+   * Start recording a request, adding it to the domain's buffer right away so it shows as pending
+   */
+  public record(
+    domain: string,
+    settings: TrafficSettings,
+    request: { method: string; url: string; httpVersion: string; headers: http.IncomingHttpHeaders; target: string }
+  ): TrafficRecorder {
+    const maxEntries = settings.maxEntries || DEFAULT_TRAFFIC_SETTINGS.maxEntries;
+    const maxBodySize = settings.maxBodySize ?? DEFAULT_TRAFFIC_SETTINGS.maxBodySize;
+
+    const entry: TrafficEntry = {
+      id: this.nextId++,
+      domain,
+      startedAt: new Date().toISOString(),
+      method: request.method,
+      url: request.url,
+      httpVersion: request.httpVersion,
+      target: request.target,
+      requestHeaders: request.headers,
+      timings: { wait: 0, receive: 0, total: 0 },
+      state: 'pending'
+    };
+
+    const buffer = this.entries.get(domain) || [];
+    buffer.push(entry);
+    if (buffer.length > maxEntries) {
+      buffer.splice(0, buffer.length - maxEntries);
+    }
+    this.entries.set(domain, buffer);
+
+    return new TrafficRecorder(entry, maxBodySize);
+  }
+
+  /**
+   * Get the recorded requests for a domain, optionally only those newer than an entry id
+   */
+  public getEntries(domain: string, since?: number): TrafficEntry[] {
+    const buffer = this.entries.get(domain) || [];
+    return since ? buffer.filter(entry => entry.id > since) : [...buffer];
+  }
+
+  /**
+   * Drop the recorded requests for a domain
+   */
+  public clear(domain: string): void {
+    this.entries.delete(domain);
+  }
+
+  /**
+   * Export the recorded requests for a domain as a HAR 1.2 log
+   */
+  public toHAR(domain: string): object {
+    return {
+      log: {
+        version: '1.2',
+        creator: { name: packageJson.name, version: packageJson.version },
+        pages: [],
+        entries: this.getEntries(domain).map(entry => this.toHAREntry(entry))
+      }
+    };
+  }
+
+  private toHAREntry(entry: TrafficEntry): object {
+    const url = new URL(entry.url, `https://${entry.domain}`);
+    const httpVersion = `HTTP/${entry.httpVersion}`;
+
+    return {
+      startedDateTime: entry.startedAt,
+      time: entry.timings.total,
+      request: {
+        method: entry.method,
+        url: url.toString(),
+        httpVersion,
+        cookies: [],
+        headers: toHARHeaders(entry.requestHeaders),
+        queryString: Array.from(url.searchParams.entries()).map(([name, value]) => ({ name, value })),
+        ...(entry.requestBody && {
+          postData: {
+            mimeType: entry.requestBody.mimeType,
+            text: entry.requestBody.text,
+            ...(entry.requestBody.encoding && { encoding: entry.requestBody.encoding })
+          }
+        }),
+        headersSize: -1,
+        bodySize: entry.requestBody?.size ?? 0
+      },
+      response: {
+        // HAR uses status 0 for requests that never got a response
+        status: entry.status ?? 0,
+        statusText: entry.statusText || entry.error || '',
+        httpVersion,
+        cookies: [],
+        headers: toHARHeaders(entry.responseHeaders || {}),
+        content: {
+          size: entry.responseBody?.size ?? 0,
+          mimeType: entry.responseBody?.mimeType || String(entry.responseHeaders?.['content-type'] || ''),
+          ...(entry.responseBody && { text: entry.responseBody.text }),
+          ...(entry.responseBody?.encoding && { encoding: entry.responseBody.encoding })
+        },
+        redirectURL: String(entry.responseHeaders?.location || ''),
+        headersSize: -1,
+        bodySize: entry.responseBody?.size ?? -1
+      },
+      cache: {},
+      timings: {
+        send: 0,
+        wait: entry.timings.wait,
+        receive: entry.timings.receive
+      },
+      comment: entry.error ? `Error: ${entry.error}` : `Proxied to ${entry.target}`
+    };
+  }
+}
+
+/**
+ * Flatten Node's header object into HAR name/value pairs
+ */
+function toHARHeaders(headers: http.IncomingHttpHeaders): { name: string; value: string }[] {
+  const result: { name: string; value: string }[] = [];
+  for (const [name, value] of Object.entries(headers)) {
+    if (value === undefined) continue;
+    for (const item of Array.isArray(value) ? value : [value]) {
+      result.push({ name, value: String(item) });
+    }
+  }
+  return result;
+}
@@ -0,0 +1,113 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { UpstreamHealthChecker, validateHealthCheckSettings } from './upstream-health';
+
+describe('upstream-health', () => {
+  let server: http.Server | null = null;
+  let status = 200;
+
+  const startServer = (port: number = 0): Promise<number> => new Promise(resolve => {
+    server = http.createServer((req, res) => {
+      res.statusCode = req.url === '/health' ? status : 200;
+      res.end();
+    });
+    server.listen(port, '127.0.0.1', () => resolve((server!.address() as AddressInfo).port));
+  });
+
+  // Find a port nothing listens on by binding and releasing it
+  const freePort = async (): Promise<number> => {
+    const port = await startServer();
+    await stopServer();
+    return port;
+  };
+
+  const stopServer = (): Promise<void> => new Promise(resolve => {
+    if (!server) return resolve();
+    server.close(() => resolve());
+    server = null;
+  });
+
+  beforeEach(() => {
+    status = 200;
+  });
+
+  afterEach(async () => {
+    await stopServer();
+  });
+
+  describe('check', () => {
+    it('should report a listening target as healthy', async () => {
+      const port = await startServer();
+
+      const health = await new UpstreamHealthChecker().check(`http://127.0.0.1:${port}`);
+
+      expect(health.healthy).toBe(true);
+      expect(health.error).toBeUndefined();
+    });
+
+    it('should report a closed port as unhealthy', async () => {
+      const port = await freePort();
+
+      const health = await new UpstreamHealthChecker().check(`http://127.0.0.1:${port}`);
+
+      expect(health.healthy).toBe(false);
+      expect(health.error).toBe('ECONNREFUSED');
+    });
+
+    it('should treat a health path answering 5xx as unhealthy', async () => {
+      const port = await startServer();
+      status = 500;
+
+      const health = await new UpstreamHealthChecker().check(`http://127.0.0.1:${port}`, { path: '/health' });
+
+      expect(health.healthy).toBe(false);
+      expect(health.error).toBe('/health answered 500');
+    });
+
+    it('should probe again after a target is marked unhealthy', async () => {
+      const port = await startServer();
+      const target = `http://127.0.0.1:${port}`;
+      const checker = new UpstreamHealthChecker();
+
+      expect((await checker.check(target)).healthy).toBe(true);
+      await stopServer();
+      expect((await checker.check(target)).healthy).toBe(true);
+
+      checker.markUnhealthy(target);
+      expect((await checker.check(target)).healthy).toBe(false);
+    });
+  });
+
+  describe('waitUntilHealthy', () => {
+    it('should resolve once the target starts', async () => {
+      const port = await freePort();
+      setTimeout(() => startServer(port), 300);
+
+      const health = await new UpstreamHealthChecker().waitUntilHealthy(`http://127.0.0.1:${port}`, { timeout: 5000 });
+
+      expect(health.healthy).toBe(true);
+    });
+
+    it('should give up after the timeout', async () => {
+      const port = await freePort();
+
+      const health = await new UpstreamHealthChecker().waitUntilHealthy(`http://127.0.0.1:${port}`, { timeout: 300 });
+
+      expect(health.healthy).toBe(false);
+    });
+  });
+
+  describe('validateHealthCheckSettings', () => {
+    it('should accept valid settings', () => {
+      expect(validateHealthCheckSettings({ enabled: true, path: '/api/health', timeout: 10000 })).toBeNull();
+    });
+
+    it('should reject invalid settings', () => {
+      expect(validateHealthCheckSettings('on')).toContain('must be an object');
+      expect(validateHealthCheckSettings([])).toContain('must be an object');
+      expect(validateHealthCheckSettings({ enabled: 'yes' })).toContain('enabled flag');
+      expect(validateHealthCheckSettings({ path: 'health' })).toContain('start with "/"');
+      expect(validateHealthCheckSettings({ timeout: -1 })).toContain('timeout');
+    });
+  });
+});
@@ -0,0 +1,185 @@
+import * as http from 'http';
+import * as https from 'https';
+import * as net from 'net';
+import { isRecord } from './validation';
+
+export interface HealthCheckSettings {
+  /** Checks run unless disabled; without them requests are forwarded straight away */
+  enabled?: boolean;
+  /** HTTP path that must answer below 500, on top of accepting TCP connections (e.g. /api/health) */
+  path?: string;
+  /** How long non-HTML requests wait for the upstream before failing, in milliseconds */
+  timeout?: number;
+}
+
+export interface UpstreamHealth {
+  target: string;
+  healthy: boolean;
+  checkedAt: string;
+  error?: string;
+}
+
+export const DEFAULT_HEALTH_CHECK_TIMEOUT = 30000;
+
+/**
+ * How long a healthy result is trusted before probing again
+ */
+const HEALTHY_RESULT_TTL = 2000;
+
+/**
+ * Time allowed for a single probe
+ */
+const PROBE_TIMEOUT = 1000;
+
+const INITIAL_RETRY_DELAY = 250;
+const MAX_RETRY_DELAY = 2000;
+
+/**
+ * Validate health check settings received from the API or a config file
+ */
+export function validateHealthCheckSettings(settings: unknown): string | null {
+  if (!isRecord(settings)) {
+    return 'Health check settings must be an object';
+  }
+
+  if (settings.enabled !== undefined && typeof settings.enabled !== 'boolean') {
+    return 'Health check enabled flag must be a boolean';
+  }
+
+  if (settings.path !== undefined && (typeof settings.path !== 'string' || !settings.path.startsWith('/'))) {
+    return 'Health check path must start with "/"';
+  }
+
+  if (settings.timeout !== undefined && (typeof settings.timeout !== 'number' || !(settings.timeout >= 0))) {
+    return 'Health check timeout must be a non-negative number of milliseconds';
+  }
+
+  return null;
+}
+
+/**
+ * Probes proxy targets so requests can wait for a dev server that is still starting
+ */
+export class UpstreamHealthChecker {
+  private results: Map<string, UpstreamHealth> = new Map();
+  private probes: Map<string, Promise<UpstreamHealth>> = new Map();
+
+  /**
+   * Check whether an upstream is accepting requests, reusing a recent healthy result
+   */
+  public check(target: string, settings: HealthCheckSettings = {}): Promise<UpstreamHealth> {
+    const key = `${target}|${settings.path || ''}`;
+
+    const cached = this.results.get(key);
+    if (cached?.healthy && Date.now() - Date.parse(cached.checkedAt) < HEALTHY_RESULT_TTL) {
+      return Promise.resolve(cached);
+    }
+
+    // Concurrent requests share a single probe
+    const running = this.probes.get(key);
+    if (running) return running;
+
+    const probe = this.probe(target, settings.path)
+      .then(health => {
+        this.results.set(key, health);
+        return health;
+      })
+      .finally(() => this.probes.delete(key));
+
+    this.probes.set(key, probe);
+    return probe;
+  }
+
+  /**
+   * Keep checking an upstream with exponential backoff until it is healthy, the timeout passes or the caller gives up
+   */
+  public async waitUntilHealthy(
+    target: string,
+    settings: HealthCheckSettings = {},
+    isCancelled: () => boolean = () => false
+  ): Promise<UpstreamHealth> {
+    const deadline = Date.now() + (settings.timeout ?? DEFAULT_HEALTH_CHECK_TIMEOUT);
+    let delay = INITIAL_RETRY_DELAY;
+    let health = await this.check(target, settings);
+
+    while (!health.healthy && !isCancelled() && Date.now() + delay <= deadline) {
+      await new Promise(resolve => setTimeout(resolve, delay));
+      delay = Math.min(delay * 2, MAX_RETRY_DELAY);
+      health = await this.check(target, settings);
+    }
+
+    return health;
+  }
+
+  /**
+   * Forget healthy results for an upstream, e.g. after a forwarded request failed to connect
+   */
+  public markUnhealthy(target: string): void {
+    for (const key of this.results.keys()) {
+      if (key.startsWith(`${target}|`)) {
+        this.results.delete(key);
+      }
+    }
+  }
+
+  private async probe(target: string, healthPath?: string): Promise<UpstreamHealth> {
+    const url = new URL(target);
+    const port = parseInt(url.port, 10) || (url.protocol === 'https:' ? 443 : 80);
+    const result = (healthy: boolean, error?: string): UpstreamHealth => ({
+      target,
+      healthy,
+      checkedAt: new Date().toISOString(),
+      ...(error && { error })
+    });
+
+    try {
+      await this.connect(url.hostname, port);
+      if (healthPath) {
+        const status = await this.request(url, port, healthPath);
+        if (status >= 500) {
+          return result(false, `${healthPath} answered ${status}`);
+        }
+      }
+      return result(true);
+    } catch (error: any) {
+      return result(false, error?.code || error?.message);
+    }
+  }
+
+  private connect(host: string, port: number): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const socket = net.connect({ host, port, timeout: PROBE_TIMEOUT });
+      socket.once('connect', () => {
+        socket.destroy();
+        resolve();
+      });
+      socket.once('timeout', () => {
+        socket.destroy();
+        reject(new Error('Connection timed out'));
+      });
+      socket.once('error', reject);
+    });
+  }
+
+  private request(url: URL, port: number, healthPath: string): Promise<number> {
+    const requestModule = url.protocol === 'https:' ? https : http;
+
+    return new Promise((resolve, reject) => {
+      const req = requestModule.request({
+        hostname: url.hostname,
+        port,
+        path: healthPath,
+        method: 'GET',
+        timeout: PROBE_TIMEOUT,
+        // For HTTPS targets, don't verify certificates (useful for local dev)
+        rejectUnauthorized: false
+      }, (res) => {
+        res.resume();
+        resolve(res.statusCode || 0);
+      });
+      req.on('timeout', () => req.destroy(new Error(`${healthPath} timed out`)));
+      req.on('error', reject);
+      req.end();
+    });
+  }
+}
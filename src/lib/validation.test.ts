@@ -0,0 +1,125 @@
+import { getWildcardDomain, parseDomain, parseDomainPattern, parseIP, validateDomain, validateDomainPattern, validateHostnameOrIP, validateIP, validatePort, validateProxyTarget, ValidationError } from './validation';
+
+describe('validation', () => {
+  describe('validateDomain', () => {
+    it('should accept RFC 1123 hostnames', () => {
+      expect(validateDomain('myapp.local')).toBeNull();
+      expect(validateDomain('api-v2.my-app.test')).toBeNull();
+      expect(validateDomain('localhost')).toBeNull();
+      expect(validateDomain('xn--caf-dma.local')).toBeNull();
+    });
+
+    it('should reject malformed hostnames', () => {
+      expect(validateDomain('')).toBe('Domain is required');
+      expect(validateDomain(undefined)).toBe('Domain is required');
+      expect(validateDomain('-app.local')).toContain('Invalid domain');
+      expect(validateDomain('app..local')).toContain('Invalid domain');
+      expect(validateDomain('my_app.local')).toContain('Invalid domain');
+      expect(validateDomain(`${'a'.repeat(64)}.local`)).toContain('Invalid domain');
+      expect(validateDomain('*.local')).toContain('Invalid domain');
+    });
+
+    it('should reject values that could inject commands or config lines', () => {
+      expect(validateDomain('app.local\n127.0.0.1 bank.com')).toContain('Invalid domain');
+      expect(validateDomain('app.local" && rm -rf ~')).toContain('Invalid domain');
+      expect(validateDomain('$(id).local')).toContain('Invalid domain');
+      expect(validateDomain('../../etc/passwd')).toContain('Invalid domain');
+    });
+
+    it('should reject IP addresses', () => {
+      expect(validateDomain('127.0.0.1')).toContain('not an IP address');
+    });
+  });
+
+  describe('parseDomain', () => {
+    it('should normalize internationalized and uppercase names', () => {
+      expect(parseDomain('Café.Local')).toBe('xn--caf-dma.local');
+      expect(parseDomain('MyApp.local')).toBe('myapp.local');
+    });
+
+    it('should throw a ValidationError naming the field', () => {
+      expect.assertions(3);
+      try {
+        parseDomain('bad domain', 'routes');
+      } catch (error: any) {
+        expect(error).toBeInstanceOf(ValidationError);
+        expect(error.field).toBe('routes');
+        expect(error.toJSON()).toEqual({ success: false, error: 'Invalid domain: bad domain', field: 'routes', code: 'invalid_domain' });
+      }
+    });
+  });
+
+  describe('validateDomainPattern', () => {
+    it('should accept hostnames and wildcard patterns', () => {
+      expect(validateDomainPattern('myapp.test')).toBeNull();
+      expect(validateDomainPattern('*.myapp.test')).toBeNull();
+      expect(parseDomainPattern('*.MyApp.Test')).toBe('*.myapp.test');
+    });
+
+    it('should reject wildcards that are too broad or not the leftmost label', () => {
+      expect(validateDomainPattern('*.test')).toBe('Invalid wildcard domain: *.test');
+      expect(validateDomainPattern('*.*.myapp.test')).toContain('Invalid wildcard domain');
+      expect(validateDomainPattern('a.*.myapp.test')).toContain('Invalid domain');
+      expect(validateDomainPattern('f*.myapp.test')).toContain('Invalid domain');
+    });
+  });
+
+  describe('getWildcardDomain', () => {
+    it('should return the pattern covering a hostname', () => {
+      expect(getWildcardDomain('Feature-X.myapp.test')).toBe('*.myapp.test');
+      expect(getWildcardDomain('localhost')).toBe('');
+    });
+  });
+
+  describe('validateIP', () => {
+    it('should accept IPv4 and IPv6 literals', () => {
+      expect(validateIP('127.0.0.1')).toBeNull();
+      expect(validateIP('::1')).toBeNull();
+      expect(validateIP('fe80::1')).toBeNull();
+    });
+
+    it('should reject anything else', () => {
+      expect(validateIP('256.0.0.1')).toContain('Invalid IP address');
+      expect(validateIP('127.0.0.1 evil.local')).toContain('Invalid IP address');
+      expect(() => parseIP('localhost')).toThrow(ValidationError);
+    });
+  });
+
+  describe('validateHostnameOrIP', () => {
+    it('should accept hostnames and IP addresses', () => {
+      expect(validateHostnameOrIP('localhost')).toBeNull();
+      expect(validateHostnameOrIP('127.0.0.1')).toBeNull();
+      expect(validateHostnameOrIP('::1')).toBeNull();
+      expect(validateHostnameOrIP('bad name')).toBe('Invalid hostname or IP address: bad name');
+    });
+  });
+
+  describe('validateProxyTarget', () => {
+    it('should accept URLs and host:port targets', () => {
+      expect(validateProxyTarget('localhost:3000')).toBeNull();
+      expect(validateProxyTarget('http://127.0.0.1:8080')).toBeNull();
+      expect(validateProxyTarget('https://[::1]:8443/base')).toBeNull();
+    });
+
+    it('should reject other protocols and invalid hosts', () => {
+      expect(validateProxyTarget('')).toBe('Target is required');
+      expect(validateProxyTarget('file:///etc/passwd')).toContain('must be http:// or https://');
+      expect(validateProxyTarget('http://my_app:3000')).toContain('Invalid target host');
+    });
+  });
+
+  describe('validatePort', () => {
+    it('should accept integers between 1 and 65535', () => {
+      expect(validatePort(1)).toBeNull();
+      expect(validatePort(8443)).toBeNull();
+      expect(validatePort(65535)).toBeNull();
+    });
+
+    it('should reject anything else', () => {
+      expect(validatePort(0)).toContain('Invalid port');
+      expect(validatePort(65536)).toContain('Invalid port');
+      expect(validatePort(443.5)).toContain('Invalid port');
+      expect(validatePort('443')).toContain('Invalid port');
+    });
+  });
+});
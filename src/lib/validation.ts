@@ -0,0 +1,211 @@
+import * as net from 'net';
+import { domainToASCII } from 'url';
+
+/**
+ * An invalid value received from the API, the CLI or a config file. Carries the offending field so the
+ * REST API can answer with a structured 400 error
+ */
+export class ValidationError extends Error {
+  public readonly field: string;
+  public readonly code: string;
+
+  constructor(message: string, field: string, code: string) {
+    super(message);
+    this.name = 'ValidationError';
+    this.field = field;
+    this.code = code;
+  }
+
+  public toJSON(): { success: false; error: string; field: string; code: string } {
+    return { success: false, error: this.message, field: this.field, code: this.code };
+  }
+}
+
+/**
+ * Whether a value received from the API or a config file is an object whose fields can be checked one by one
+ */
+export function isRecord(value: unknown): value is { [key: string]: unknown } {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+const MAX_DOMAIN_LENGTH = 253;
+const LABEL_PATTERN = /^[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?$/;
+
+/**
+ * Convert a domain to its lowercase ASCII form (punycode for internationalized names), or null if it can't be
+ */
+function toASCIIDomain(value: string): string | null {
+  // domainToASCII would happily map some of these, so refuse them before converting
+  if (/[\s\/\\:@#?*"'`;$<>|&()[\]{}%]/.test(value)) return null;
+
+  const ascii = domainToASCII(value.toLowerCase());
+  return ascii || null;
+}
+
+/**
+ * Validate a hostname: RFC 1123 labels, or an internationalized name that converts to one.
+ * IP addresses are not hostnames and are rejected
+ */
+export function validateDomain(value: unknown): string | null {
+  if (typeof value !== 'string' || !value) {
+    return 'Domain is required';
+  }
+
+  const ascii = toASCIIDomain(value);
+  if (!ascii || ascii.length > MAX_DOMAIN_LENGTH) {
+    return `Invalid domain: ${value}`;
+  }
+
+  const labels = ascii.split('.');
+  if (labels.some(label => !LABEL_PATTERN.test(label))) {
+    return `Invalid domain: ${value}`;
+  }
+
+  // An all-numeric top-level label would be read as an IPv4 address
+  if (/^[0-9]+$/.test(labels[labels.length - 1])) {
+    return `Invalid domain: ${value} (use a hostname, not an IP address)`;
+  }
+
+  return null;
+}
+
+/**
+ * Whether a domain is a wildcard pattern such as *.myapp.test
+ */
+export function isWildcardDomain(domain: string): boolean {
+  return domain.startsWith('*.');
+}
+
+/**
+ * Validate a hostname or a wildcard pattern covering its subdomains (*.myapp.test). The wildcard must be the whole
+ * leftmost label and cover at least two labels, as browsers don't accept wildcards such as *.test
+ */
+export function validateDomainPattern(value: unknown): string | null {
+  if (typeof value !== 'string' || !isWildcardDomain(value)) {
+    return validateDomain(value);
+  }
+
+  const parent = value.slice(2);
+  if (validateDomain(parent) || !parent.includes('.')) {
+    return `Invalid wildcard domain: ${value}`;
+  }
+
+  return null;
+}
+
+/**
+ * Validate a hostname or wildcard pattern and return its normalized form, throwing a ValidationError otherwise
+ */
+export function parseDomainPattern(value: unknown, field: string = 'domain'): string {
+  const error = validateDomainPattern(value);
+  if (error) {
+    throw new ValidationError(error, field, 'invalid_domain');
+  }
+
+  const domain = value as string;
+  return isWildcardDomain(domain) ? `*.${toASCIIDomain(domain.slice(2))}` : toASCIIDomain(domain)!;
+}
+
+/**
+ * The wildcard pattern covering a hostname (*.myapp.test for feature-x.myapp.test), or '' for single-label names.
+ * Like TLS, a wildcard only matches one label
+ */
+export function getWildcardDomain(hostname: string): string {
+  const dot = hostname.indexOf('.');
+  return dot > 0 ? `*.${hostname.slice(dot + 1).toLowerCase()}` : '';
+}
+
+/**
+ * Validate an IPv4 or IPv6 address literal
+ */
+export function validateIP(value: unknown): string | null {
+  if (typeof value !== 'string' || !value) {
+    return 'IP address is required';
+  }
+
+  return net.isIP(value) ? null : `Invalid IP address: ${value}`;
+}
+
+/**
+ * Validate a domain and return its normalized form (lowercase ASCII), throwing a ValidationError otherwise
+ */
+export function parseDomain(value: unknown, field: string = 'domain'): string {
+  const error = validateDomain(value);
+  if (error) {
+    throw new ValidationError(error, field, 'invalid_domain');
+  }
+
+  return toASCIIDomain(value as string)!;
+}
+
+/**
+ * Validate an IP address and return it, throwing a ValidationError otherwise
+ */
+export function parseIP(value: unknown, field: string = 'ip'): string {
+  const error = validateIP(value);
+  if (error) {
+    throw new ValidationError(error, field, 'invalid_ip');
+  }
+
+  return (value as string).toLowerCase();
+}
+
+/**
+ * Validate a value that may be a hostname, a wildcard pattern or an IP address literal, e.g. a certificate alias
+ */
+export function validateHostnameOrIP(value: unknown): string | null {
+  if (typeof value === 'string' && net.isIP(value)) return null;
+
+  const error = validateDomainPattern(value);
+  return error && error.startsWith('Invalid') ? `Invalid hostname or IP address: ${value}` : error;
+}
+
+/**
+ * Validate a hostname or IP address and return its normalized form, throwing a ValidationError otherwise
+ */
+export function parseHostnameOrIP(value: unknown, field: string): string {
+  const error = validateHostnameOrIP(value);
+  if (error) {
+    throw new ValidationError(error, field, 'invalid_hostname');
+  }
+
+  return net.isIP(value as string) ? (value as string).toLowerCase() : parseDomainPattern(value, field);
+}
+
+/**
+ * Validate a TCP port to listen on
+ */
+export function validatePort(value: unknown): string | null {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 1 || value > 65535) {
+    return `Invalid port: ${value} (must be an integer between 1 and 65535)`;
+  }
+
+  return null;
+}
+
+/**
+ * Validate a proxy target: a URL or host[:port] whose host is a hostname or an IP address
+ */
+export function validateProxyTarget(value: unknown): string | null {
+  if (typeof value !== 'string' || !value) {
+    return 'Target is required';
+  }
+
+  let url: URL;
+  try {
+    url = new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(value) ? value : `http://${value}`);
+  } catch (error) {
+    return `Invalid target: ${value}`;
+  }
+
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return `Invalid target: ${value} (must be http:// or https://)`;
+  }
+
+  const host = url.hostname.replace(/^\[(.*)\]$/, '$1');
+  if (validateIP(host) && validateDomain(host)) {
+    return `Invalid target host: ${url.hostname}`;
+  }
+
+  return null;
+}
@@ -1,13 +1,51 @@
 import express from 'express';
+import * as fs from 'fs';
 import * as http from 'http';
 import open from 'open';
 import * as path from 'path';
+import { createAdminAuthMiddleware, loadOrCreateAdminToken } from './admin-auth';
+import { CAInstaller } from './ca-installer';
+import { CARotator } from './ca-rotation';
+import { CERTIFICATE_PROFILES } from './certificate-profiles';
+import { CertificateRenewalSettings, CertificateRenewer } from './certificate-renewer';
 import { CertificateManager } from './certificates';
+import { validateChaosSettings } from './chaos';
+import { validateHeaderRules } from './header-rules';
 import { HostsManager } from './hosts';
-import { ProxyConfig, ProxyService } from './proxy-service';
+import { ProxyMock, validateProxyMocks } from './mocks';
+import { ProxyConfig, ProxyService, UpstreamProtocol, validateProxyRoutes } from './proxy-service';
+import { validateTrafficSettings } from './traffic-inspector';
+import { validateHealthCheckSettings } from './upstream-health';
+import { isWildcardDomain, parseDomain, parseDomainPattern, parseIP, validatePort, validateProxyTarget, ValidationError } from './validation';
 
 export interface WebServerConfig {
   port: number;
+  /** Address to bind to; loopback by default so other machines can't reach the admin API */
+  host?: string;
+  httpRedirect?: boolean;
+  /** Where the admin API session token is kept (~/.navigrator/token by default) */
+  tokenFile?: string;
+  certificateRenewal?: CertificateRenewalSettings;
+}
+
+const UPSTREAM_PROTOCOLS: UpstreamProtocol[] = ['http1', 'h2c', 'h2'];
+
+/**
+ * Answer 400 with the offending field for validation errors; returns false for any other error
+ */
+function sendValidationError(res: express.Response, error: unknown): boolean {
+  if (!(error instanceof ValidationError)) return false;
+
+  res.status(400).json(error);
+  return true;
+}
+
+/**
+ * Pick the mock fields from a request body, ignoring anything else (including the id)
+ */
+function readMock(body: any): Omit<ProxyMock, 'id'> {
+  const { method, path: mockPath, matchType, status, headers, body: mockBody, bodyFile, enabled } = body || {};
+  return { method, path: mockPath, matchType, status, headers, body: mockBody, bodyFile: bodyFile || undefined, enabled: enabled !== false };
 }
 
 export class WebServer {
@@ -16,7 +54,9 @@ export class WebServer {
   private hostsManager: HostsManager;
   private certManager: CertificateManager;
   private proxyService: ProxyService;
+  private certificateRenewer: CertificateRenewer;
   private config: WebServerConfig;
+  private token: string;
 
   constructor(hostsManager: HostsManager, certManager: CertificateManager, config: WebServerConfig) {
     this.app = express();
@@ -25,7 +65,16 @@ export class WebServer {
     this.proxyService = new ProxyService();
     this.config = {
       port: config.port || 10191,
+      host: config.host || '127.0.0.1',
+      httpRedirect: !!config.httpRedirect,
+      tokenFile: config.tokenFile,
+      certificateRenewal: config.certificateRenewal
     };
+    this.token = loadOrCreateAdminToken(this.config.tokenFile);
+
+    // No proxy is running yet, so this only records the setting; the listener starts with the first proxy
+    void this.proxyService.setHttpRedirect(!!this.config.httpRedirect);
+    this.certificateRenewer = new CertificateRenewer(this.certManager, this.proxyService, this.config.certificateRenewal);
 
     this.setupMiddleware();
     this.setupRoutes();
@@ -35,18 +84,45 @@ export class WebServer {
    * Configure middleware for Express
    */
   private setupMiddleware(): void {
+    this.app.use(createAdminAuthMiddleware({ token: this.token, port: this.config.port, host: this.config.host }));
     this.app.use(express.json());
     this.app.use(express.urlencoded({ extended: true }));
 
-    // Serve static files
+    // Serve static files; index.html is rendered with the session token instead
     const staticDir = path.join(__dirname, '..', '..', 'public');
-    this.app.use(express.static(staticDir));
+    this.app.use(express.static(staticDir, { index: false }));
+  }
+
+  /**
+   * Render the user interface with the session token it needs to call the API
+   */
+  private sendIndex(res: express.Response): void {
+    fs.readFile(path.join(__dirname, '..', '..', 'public', 'index.html'), 'utf8', (err, html) => {
+      if (err) {
+        console.error('Error reading index.html:', err);
+        res.status(500).send('Failed to load the user interface');
+        return;
+      }
+
+      res.setHeader('Cache-Control', 'no-store');
+      res.type('html').send(html.replace('</head>', `  <meta name="navigrator-token" content="${this.token}">\n</head>`));
+    });
   }
 
   /**
    * Configure routes for the API
    */
   private setupRoutes(): void {
+    // Every :domain parameter must be a valid hostname or wildcard pattern; handlers receive its normalized form
+    this.app.param('domain', (req, res, next, value) => {
+      try {
+        req.params.domain = parseDomainPattern(value);
+        next();
+      } catch (error) {
+        if (!sendValidationError(res, error)) next(error);
+      }
+    });
+
     // Original routes...
     this.app.get('/api/hosts', async (_, res) => {
       try {
@@ -60,12 +136,8 @@ export class WebServer {
 
     this.app.post('/api/hosts', async (req, res) => {
       try {
-        const { domain, ip = '127.0.0.1' } = req.body;
-
-        if (!domain) {
-          res.status(400).json({ success: false, error: 'Domain is required' });
-          return;
-        }
+        const domain = parseDomain(req.body.domain);
+        const ip = parseIP(req.body.ip ?? '127.0.0.1');
 
         const success = await this.hostsManager.addHost(domain, ip);
 
@@ -75,6 +147,7 @@ export class WebServer {
           res.status(500).json({ success: false, error: 'Failed to add host' });
         }
       } catch (error) {
+        if (sendValidationError(res, error)) return;
         console.error('Error adding host:', error);
         res.status(500).json({ success: false, error: 'Failed to add host' });
       }
@@ -83,7 +156,7 @@ export class WebServer {
     this.app.post('/api/hosts/:domain/adopt', async (req, res) => {
       try {
         const { domain } = req.params;
-        const { ip = '127.0.0.1' } = req.body;
+        const ip = parseIP(req.body.ip ?? '127.0.0.1');
 
         const success = await this.hostsManager.adoptHost(domain, ip);
 
@@ -93,6 +166,7 @@ export class WebServer {
           res.status(404).json({ success: false, error: 'Host not found or already adopted' });
         }
       } catch (error) {
+        if (sendValidationError(res, error)) return;
         console.error('Error adopting host:', error);
         res.status(500).json({ success: false, error: 'Failed to adopt host' });
       }
@@ -119,9 +193,9 @@ export class WebServer {
     this.app.delete('/api/hosts/:domain', async (req, res) => {
       try {
         const { domain } = req.params;
-        const { ip = '127.0.0.1' } = req.query;
+        const ip = parseIP(req.query.ip ?? '127.0.0.1');
 
-        const hostSuccess = await this.hostsManager.removeHost(domain, ip as string);
+        const hostSuccess = await this.hostsManager.removeHost(domain, ip);
 
         // Also remove the associated certificate
         let certSuccess = false;
@@ -141,6 +215,7 @@ export class WebServer {
           res.status(404).json({ success: false, error: 'Host not found or not created by this application' });
         }
       } catch (error) {
+        if (sendValidationError(res, error)) return;
         console.error('Error removing host:', error);
         res.status(500).json({ success: false, error: 'Failed to remove host' });
       }
@@ -149,14 +224,15 @@ export class WebServer {
     this.app.patch('/api/hosts/:domain/toggle', async (req, res) => {
       try {
         const { domain } = req.params;
-        const { disabled, ip = '127.0.0.1' } = req.body;
+        const { disabled } = req.body;
 
         if (disabled === undefined) {
           res.status(400).json({ success: false, error: 'Disabled state is required' });
           return;
         }
 
-        const success = await this.hostsManager.toggleHostState(domain, disabled, ip as string);
+        const ip = parseIP(req.body.ip ?? '127.0.0.1');
+        const success = await this.hostsManager.toggleHostState(domain, disabled, ip);
 
         if (success) {
           const state = disabled ? 'disabled' : 'enabled';
@@ -165,6 +241,7 @@ export class WebServer {
           res.status(404).json({ success: false, error: 'Host not found or not created by this application' });
         }
       } catch (error) {
+        if (sendValidationError(res, error)) return;
         console.error('Error toggling host:', error);
         res.status(500).json({ success: false, error: 'Failed to toggle host state' });
       }
@@ -180,6 +257,29 @@ export class WebServer {
       }
     });
 
+    this.app.get('/api/certificates/profiles', (req, res) => {
+      res.json({ success: true, profiles: Object.values(CERTIFICATE_PROFILES) });
+    });
+
+    this.app.get('/api/certificates/renewals', (req, res) => {
+      res.json({
+        success: true,
+        settings: this.certificateRenewer.getSettings(),
+        renewals: this.certificateRenewer.getRenewals()
+      });
+    });
+
+    // Renew expiring certificates now instead of waiting for the next scheduled check
+    this.app.post('/api/certificates/renewals/check', async (req, res) => {
+      try {
+        const renewals = await this.certificateRenewer.checkNow();
+        res.json({ success: true, renewals });
+      } catch (error) {
+        console.error('Error renewing certificates:', error);
+        res.status(500).json({ success: false, error: 'Failed to renew certificates' });
+      }
+    });
+
     this.app.get('/api/certificates/:domain', async (req, res) => {
       try {
         const { domain } = req.params;
@@ -199,17 +299,14 @@ export class WebServer {
 
     this.app.post('/api/certificates', async (req, res) => {
       try {
-        const { domain } = req.body;
+        const domain = parseDomainPattern(req.body.domain);
 
-        if (!domain) {
-          res.status(400).json({ success: false, error: 'Domain is required' });
-          return;
-        }
-
-        const certInfo = await this.certManager.createCertificate(domain);
+        // Without aliases or a profile, a refreshed certificate keeps the names and profile it was issued with
+        const certInfo = await this.certManager.createCertificate(domain, { aliases: req.body.aliases, profile: req.body.profile });
 
         res.json({ success: true, certificate: certInfo });
       } catch (error) {
+        if (sendValidationError(res, error)) return;
         console.error('Error creating certificate:', error);
         res.status(500).json({ success: false, error: 'Failed to create certificate' });
       }
@@ -232,13 +329,42 @@ export class WebServer {
       }
     });
 
+    // Which trust stores hold the current CA
+    this.app.get('/api/ca/trust', async (req, res) => {
+      try {
+        const caInstaller = new CAInstaller(this.certManager.getCertsDir());
+        res.json({ success: true, ...await caInstaller.getTrustStatus() });
+      } catch (error) {
+        console.error('Error checking CA trust:', error);
+        res.status(500).json({ success: false, error: 'Failed to check CA trust' });
+      }
+    });
+
+    // Replace the CA, re-issue every certificate and serve the new ones from running proxies
+    this.app.post('/api/ca/rotate', async (req, res) => {
+      try {
+        const caInstaller = new CAInstaller(this.certManager.getCertsDir());
+        const rotator = new CARotator(this.certManager, caInstaller, this.proxyService);
+        const result = await rotator.rotate({ installTrust: req.body.installTrust !== false });
+
+        if (result.success) {
+          res.json(result);
+        } else {
+          res.status(500).json({ ...result, error: result.message });
+        }
+      } catch (error) {
+        console.error('Error rotating the CA:', error);
+        res.status(500).json({ success: false, error: 'Failed to rotate the CA' });
+      }
+    });
+
     this.app.get('/api/status/:domain', async (req, res) => {
       try {
         const { domain } = req.params;
         const hosts = await this.hostsManager.readLocalHosts();
         const hostEntry = hosts.find(host => host.domain === domain);
         const hostExists = !!hostEntry;
-        const certInfo = await this.certManager.verifyCertificate(domain);
+        const certInfo = await this.certManager.findCertificate(domain);
         const certValid = certInfo?.isValid || false;
 
         const status = {
@@ -269,23 +395,49 @@ export class WebServer {
 
     this.app.post('/api/proxies', async (req, res) => {
       try {
-        const { domain, target, port } = req.body;
+        const { target, port, http2, upstreamProtocol, routes, headerRules, cors } = req.body;
+        const domain = parseDomainPattern(req.body.domain);
 
-        if (!domain || !target) {
-          res.status(400).json({ success: false, error: 'Domain and target are required' });
+        const targetError = validateProxyTarget(target);
+        if (targetError) {
+          res.status(400).json(new ValidationError(targetError, 'target', 'invalid_target'));
           return;
         }
 
-        // Verify domain exists and has a valid certificate
+        const portError = port !== undefined ? validatePort(port) : null;
+        if (portError) {
+          res.status(400).json(new ValidationError(portError, 'port', 'invalid_port'));
+          return;
+        }
+
+        const routesError = routes !== undefined ? validateProxyRoutes(routes) : null;
+        if (routesError) {
+          res.status(400).json({ success: false, error: routesError });
+          return;
+        }
+
+        if (upstreamProtocol && !UPSTREAM_PROTOCOLS.includes(upstreamProtocol)) {
+          res.status(400).json({ success: false, error: `Upstream protocol must be one of: ${UPSTREAM_PROTOCOLS.join(', ')}` });
+          return;
+        }
+
+        const headerRulesError = headerRules !== undefined ? validateHeaderRules(headerRules) : null;
+        if (headerRulesError) {
+          res.status(400).json({ success: false, error: headerRulesError });
+          return;
+        }
+
+        // Verify domain exists and has a valid certificate. The hosts file has no wildcards, so subdomains
+        // of a wildcard proxy are resolved however the user set them up
         const hosts = await this.hostsManager.readLocalHosts();
         const hostEntry = hosts.find(host => host.domain === domain);
 
-        if (!hostEntry) {
+        if (!hostEntry && !isWildcardDomain(domain)) {
           res.status(404).json({ success: false, error: 'Domain not found in hosts file' });
           return;
         }
 
-        const certInfo = await this.certManager.verifyCertificate(domain);
+        const certInfo = await this.certManager.findCertificate(domain);
 
         if (!certInfo || !certInfo.isValid) {
           res.status(400).json({ success: false, error: 'Domain does not have a valid certificate' });
@@ -296,7 +448,12 @@ export class WebServer {
           domain,
           target,
           isRunning: false,
-          port: port || 443
+          port: port ?? 443,
+          http2: !!http2,
+          upstreamProtocol: upstreamProtocol || 'http1',
+          routes: routes || [],
+          headerRules: headerRules || [],
+          cors: !!cors
         };
 
         const config = this.proxyService.addProxy(proxyConfig);
@@ -307,11 +464,50 @@ export class WebServer {
           proxy: config
         });
       } catch (error) {
+        if (sendValidationError(res, error)) return;
         console.error('Error adding proxy:', error);
         res.status(500).json({ success: false, error: 'Failed to add proxy' });
       }
     });
 
+    this.app.get('/api/http-redirect', (_, res) => {
+      try {
+        res.json({ success: true, httpRedirect: this.proxyService.getHttpRedirectStatus() });
+      } catch (error) {
+        console.error('Error fetching HTTP redirect status:', error);
+        res.status(500).json({ success: false, error: 'Failed to fetch HTTP redirect status' });
+      }
+    });
+
+    this.app.put('/api/http-redirect', async (req, res) => {
+      try {
+        const { enabled } = req.body;
+
+        if (typeof enabled !== 'boolean') {
+          res.status(400).json({ success: false, error: 'Enabled state is required' });
+          return;
+        }
+
+        const result = await this.proxyService.setHttpRedirect(enabled);
+
+        if (result.success) {
+          const state = enabled ? 'enabled' : 'disabled';
+          res.json({
+            success: true,
+            message: `HTTP redirect ${state} successfully`,
+            httpRedirect: this.proxyService.getHttpRedirectStatus()
+          });
+        } else {
+          // Listener failures (port in use, missing privileges) are reported as they are
+          const status = result.code === 'EADDRINUSE' ? 409 : result.code === 'EACCES' ? 403 : 500;
+          res.status(status).json({ success: false, error: result.message, code: result.code });
+        }
+      } catch (error) {
+        console.error('Error toggling HTTP redirect:', error);
+        res.status(500).json({ success: false, error: 'Failed to toggle HTTP redirect' });
+      }
+    });
+
     this.app.delete('/api/proxies/:domain', (req, res) => {
       try {
         const { domain } = req.params;
@@ -332,24 +528,26 @@ export class WebServer {
       try {
         const { domain } = req.params;
 
-        // Get certificate paths
-        const certInfo = await this.certManager.verifyCertificate(domain);
+        // Get certificate paths, falling back to a wildcard certificate covering the domain
+        const certInfo = await this.certManager.findCertificate(domain);
 
         if (!certInfo || !certInfo.isValid || !certInfo.certFilePath || !certInfo.keyFilePath) {
           res.status(400).json({ success: false, error: 'Domain does not have a valid certificate' });
           return;
         }
 
-        const success = this.proxyService.startProxy(
+        const result = await this.proxyService.startProxy(
           domain,
           certInfo.certFilePath,
           certInfo.keyFilePath
         );
 
-        if (success) {
-          res.json({ success: true, message: `Proxy for ${domain} started successfully` });
+        if (result.success) {
+          res.json({ success: true, message: result.message });
         } else {
-          res.status(500).json({ success: false, error: 'Failed to start proxy' });
+          // Listener failures (port in use, missing privileges) are reported as they are
+          const status = result.code === 'EADDRINUSE' ? 409 : result.code === 'EACCES' ? 403 : 500;
+          res.status(status).json({ success: false, error: result.message, code: result.code });
         }
       } catch (error) {
         console.error('Error starting proxy:', error);
@@ -373,32 +571,235 @@ export class WebServer {
       }
     });
 
-    this.app.patch('/api/proxies/:domain', (req, res) => {
+    this.app.patch('/api/proxies/:domain', async (req, res) => {
       try {
         const { domain } = req.params;
-        const { target, port } = req.body;
+        const { target, port, http2, upstreamProtocol, routes, traffic, headerRules, cors, chaos, healthCheck } = req.body;
 
-        if (!target && !port) {
+        if (
+          !target && port === undefined && http2 === undefined && !upstreamProtocol && routes === undefined &&
+          traffic === undefined && headerRules === undefined && cors === undefined && chaos === undefined &&
+          healthCheck === undefined
+        ) {
           res.status(400).json({ success: false, error: 'No update parameters provided' });
           return;
         }
 
-        const success = this.proxyService.updateProxy(domain, { target, port });
+        const portError = port !== undefined ? validatePort(port) : null;
+        if (portError) {
+          res.status(400).json(new ValidationError(portError, 'port', 'invalid_port'));
+          return;
+        }
+
+        const routesError = routes !== undefined ? validateProxyRoutes(routes) : null;
+        if (routesError) {
+          res.status(400).json({ success: false, error: routesError });
+          return;
+        }
+
+        if (upstreamProtocol && !UPSTREAM_PROTOCOLS.includes(upstreamProtocol)) {
+          res.status(400).json({ success: false, error: `Upstream protocol must be one of: ${UPSTREAM_PROTOCOLS.join(', ')}` });
+          return;
+        }
+
+        const trafficError = traffic !== undefined ? validateTrafficSettings(traffic) : null;
+        if (trafficError) {
+          res.status(400).json({ success: false, error: trafficError });
+          return;
+        }
+
+        const headerRulesError = headerRules !== undefined ? validateHeaderRules(headerRules) : null;
+        if (headerRulesError) {
+          res.status(400).json({ success: false, error: headerRulesError });
+          return;
+        }
+
+        const chaosError = chaos !== undefined ? validateChaosSettings(chaos) : null;
+        if (chaosError) {
+          res.status(400).json({ success: false, error: chaosError });
+          return;
+        }
+
+        const healthCheckError = healthCheck !== undefined ? validateHealthCheckSettings(healthCheck) : null;
+        if (healthCheckError) {
+          res.status(400).json({ success: false, error: healthCheckError });
+          return;
+        }
+
+        const success = await this.proxyService.updateProxy(domain, {
+          target,
+          port,
+          http2,
+          upstreamProtocol,
+          routes,
+          traffic,
+          headerRules,
+          cors: cors === undefined ? undefined : !!cors,
+          chaos,
+          healthCheck
+        });
 
         if (success) {
           res.json({ success: true, message: `Proxy for ${domain} updated successfully` });
         } else {
           res.status(404).json({ success: false, error: 'Proxy not found' });
         }
-      } catch (error) {
+      } catch (error: any) {
+        if (sendValidationError(res, error)) return;
         console.error('Error updating proxy:', error);
-        res.status(500).json({ success: false, error: 'Failed to update proxy' });
+        res.status(500).json({ success: false, error: `Failed to update proxy: ${error?.message}` });
+      }
+    });
+
+    this.app.get('/api/proxies/:domain/traffic', (req, res) => {
+      try {
+        const { domain } = req.params;
+
+        if (!this.proxyService.getProxies().some(proxy => proxy.domain === domain)) {
+          res.status(404).json({ success: false, error: 'Proxy not found' });
+          return;
+        }
+
+        const since = req.query.since ? parseInt(req.query.since as string, 10) : undefined;
+        const entries = this.proxyService.getTraffic(domain, since);
+
+        res.json({ success: true, entries });
+      } catch (error) {
+        console.error('Error fetching traffic:', error);
+        res.status(500).json({ success: false, error: 'Failed to fetch traffic' });
+      }
+    });
+
+    this.app.get('/api/proxies/:domain/traffic/har', (req, res) => {
+      try {
+        const { domain } = req.params;
+
+        if (!this.proxyService.getProxies().some(proxy => proxy.domain === domain)) {
+          res.status(404).json({ success: false, error: 'Proxy not found' });
+          return;
+        }
+
+        const har = this.proxyService.exportTrafficHAR(domain);
+
+        res.setHeader('Content-Disposition', `attachment; filename="${domain}.har"`);
+        res.json(har);
+      } catch (error) {
+        console.error('Error exporting traffic:', error);
+        res.status(500).json({ success: false, error: 'Failed to export traffic' });
+      }
+    });
+
+    this.app.delete('/api/proxies/:domain/traffic', (req, res) => {
+      try {
+        const { domain } = req.params;
+        this.proxyService.clearTraffic(domain);
+
+        res.json({ success: true, message: `Traffic for ${domain} cleared successfully` });
+      } catch (error) {
+        console.error('Error clearing traffic:', error);
+        res.status(500).json({ success: false, error: 'Failed to clear traffic' });
+      }
+    });
+
+    this.app.get('/api/proxies/:domain/health', async (req, res) => {
+      try {
+        const upstreams = await this.proxyService.checkUpstreams(req.params.domain);
+
+        if (!upstreams) {
+          res.status(404).json({ success: false, error: 'Proxy not found' });
+          return;
+        }
+
+        res.json({ success: true, healthy: upstreams.every(upstream => upstream.healthy), upstreams });
+      } catch (error) {
+        console.error('Error checking upstreams:', error);
+        res.status(500).json({ success: false, error: 'Failed to check upstreams' });
+      }
+    });
+
+    this.app.get('/api/proxies/:domain/mocks', (req, res) => {
+      try {
+        const mocks = this.proxyService.getMocks(req.params.domain);
+
+        if (!mocks) {
+          res.status(404).json({ success: false, error: 'Proxy not found' });
+          return;
+        }
+
+        res.json({ success: true, mocks });
+      } catch (error) {
+        console.error('Error fetching mocks:', error);
+        res.status(500).json({ success: false, error: 'Failed to fetch mocks' });
+      }
+    });
+
+    this.app.post('/api/proxies/:domain/mocks', (req, res) => {
+      try {
+        const { domain } = req.params;
+        const mock = readMock(req.body);
+
+        const mockError = validateProxyMocks([mock], this.proxyService.getMocksDirectory(domain));
+        if (mockError) {
+          res.status(400).json({ success: false, error: mockError });
+          return;
+        }
+
+        const created = this.proxyService.addMock(domain, mock);
+
+        if (created) {
+          res.json({ success: true, message: `Mock for ${mock.path} added successfully`, mock: created });
+        } else {
+          res.status(404).json({ success: false, error: 'Proxy not found' });
+        }
+      } catch (error) {
+        console.error('Error adding mock:', error);
+        res.status(500).json({ success: false, error: 'Failed to add mock' });
+      }
+    });
+
+    this.app.put('/api/proxies/:domain/mocks/:id', (req, res) => {
+      try {
+        const { domain, id } = req.params;
+        const mock = readMock(req.body);
+
+        const mockError = validateProxyMocks([mock], this.proxyService.getMocksDirectory(domain));
+        if (mockError) {
+          res.status(400).json({ success: false, error: mockError });
+          return;
+        }
+
+        const updated = this.proxyService.updateMock(domain, id, mock);
+
+        if (updated) {
+          res.json({ success: true, message: `Mock for ${mock.path} updated successfully`, mock: updated });
+        } else {
+          res.status(404).json({ success: false, error: 'Mock not found' });
+        }
+      } catch (error) {
+        console.error('Error updating mock:', error);
+        res.status(500).json({ success: false, error: 'Failed to update mock' });
+      }
+    });
+
+    this.app.delete('/api/proxies/:domain/mocks/:id', (req, res) => {
+      try {
+        const { domain, id } = req.params;
+        const success = this.proxyService.removeMock(domain, id);
+
+        if (success) {
+          res.json({ success: true, message: 'Mock removed successfully' });
+        } else {
+          res.status(404).json({ success: false, error: 'Mock not found' });
+        }
+      } catch (error) {
+        console.error('Error removing mock:', error);
+        res.status(500).json({ success: false, error: 'Failed to remove mock' });
       }
     });
 
     // Route to serve the user interface
     this.app.get('*', (_, res) => {
-      res.sendFile(path.join(__dirname, '..', '..', 'public', 'index.html'));
+      this.sendIndex(res);
     });
   }
 
@@ -406,10 +807,13 @@ export class WebServer {
    * Start the web server
    */
   public async start(): Promise<void> {
-    this.server = this.app.listen(this.config.port, () => {
+    this.server = this.app.listen(this.config.port, this.config.host!, () => {
       console.log(`Server listening on http://localhost:${this.config.port}`);
     });
 
+    // Certificates created in earlier sessions may already be close to expiring
+    this.certificateRenewer.start();
+
     try {
       await open(`http://localhost:${this.config.port}`);
     } catch (error) {
@@ -424,6 +828,7 @@ export class WebServer {
     return new Promise((resolve, reject) => {
       if (this.server) {
         // Stop all proxies first
+        this.certificateRenewer.stop();
         this.proxyService.stopAllProxies();
 
         this.server.close(err => {